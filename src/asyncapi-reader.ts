@@ -0,0 +1,197 @@
+import { AsyncAPIDocument, AsyncOperationSummary, AsyncServerInfo, ChannelSummary, MessageDetails, OpenAPIDocument } from './types.js';
+
+interface AsyncOperationEntry {
+  summary: AsyncOperationSummary;
+  channelTags: string[];
+  messages: Array<{ name: string; message: any }>;
+}
+
+export interface MessageFilter {
+  channel?: string;
+  operationId?: string;
+  messageName?: string;
+}
+
+export function isAsyncAPIDocument(spec: any): boolean {
+  return typeof spec?.asyncapi === 'string';
+}
+
+function isAsyncAPI3(doc: AsyncAPIDocument): boolean {
+  return doc.asyncapi.startsWith('3.');
+}
+
+/**
+ * The OpenAPI-shaped part of an AsyncAPI session, so session info and persistence keep working
+ */
+export function toOpenAPIStub(doc: AsyncAPIDocument): OpenAPIDocument {
+  return {
+    info: doc.info,
+    servers: listAsyncServers(doc).map(server => ({ url: server.url, description: server.description })),
+    tags: doc.tags
+  };
+}
+
+export function listAsyncServers(doc: AsyncAPIDocument): AsyncServerInfo[] {
+  return Object.entries<any>(doc.servers || {}).map(([name, server]) => {
+    // 2.x has a single url, 3.0 splits it into host and pathname
+    const rawUrl = isAsyncAPI3(doc)
+      ? `${server.protocol}://${server.host}${server.pathname || ''}`
+      : server.url;
+    const url = String(rawUrl).replace(/\{([^}]+)\}/g, (match: string, variable: string) => server.variables?.[variable]?.default ?? match);
+
+    const info: AsyncServerInfo = { name, url, protocol: server.protocol };
+    if (server.protocolVersion) info.protocolVersion = server.protocolVersion;
+    if (server.description) info.description = server.description;
+    return info;
+  });
+}
+
+export function listAsyncChannels(doc: AsyncAPIDocument, tags?: string[]): ChannelSummary[] {
+  const operations = collectOperations(doc);
+  const channels: ChannelSummary[] = [];
+
+  for (const [name, channel] of Object.entries<any>(doc.channels || {})) {
+    const channelOperations = operations
+      .filter(entry => entry.summary.channel === name)
+      .filter(entry => !tags || tags.length === 0 || [...(entry.summary.tags || []), ...entry.channelTags].some(tag => tags.includes(tag)))
+      .map(entry => entry.summary);
+
+    // When filtering by tag, channels without a matching operation are noise
+    if (tags && tags.length > 0 && channelOperations.length === 0) continue;
+
+    const summary: ChannelSummary = { name, operations: channelOperations };
+    if (channel.address && channel.address !== name) summary.address = channel.address;
+    if (channel.description) summary.description = channel.description;
+    if (channel.parameters && Object.keys(channel.parameters).length > 0) {
+      summary.parameters = Object.keys(channel.parameters);
+    }
+    channels.push(summary);
+  }
+
+  return channels;
+}
+
+export function getAsyncMessages(doc: AsyncAPIDocument, filter: MessageFilter = {}): MessageDetails[] {
+  const messages: MessageDetails[] = [];
+
+  for (const entry of collectOperations(doc)) {
+    if (filter.operationId && entry.summary.operationId !== filter.operationId) continue;
+    if (filter.channel && entry.summary.channel !== filter.channel && doc.channels?.[entry.summary.channel]?.address !== filter.channel) continue;
+
+    for (const { name, message } of entry.messages) {
+      if (filter.messageName && name !== filter.messageName) continue;
+
+      const details: MessageDetails = {
+        name,
+        channel: entry.summary.channel,
+        operationId: entry.summary.operationId
+      };
+      if (message.title) details.title = message.title;
+      if (message.summary) details.summary = message.summary;
+      if (message.description) details.description = message.description;
+      const contentType = message.contentType || doc.defaultContentType;
+      if (contentType) details.contentType = contentType;
+      if (message.payload) details.payload = unwrapSchema(message.payload);
+      if (message.headers) details.headers = unwrapSchema(message.headers);
+      if (message.correlationId) details.correlationId = message.correlationId;
+      if (Array.isArray(message.examples) && message.examples.length > 0) details.examples = message.examples;
+      messages.push(details);
+    }
+  }
+
+  return messages;
+}
+
+export function getAsyncTags(doc: AsyncAPIDocument): string[] {
+  const tags = new Set<string>((doc.tags || []).map(tag => tag.name));
+  for (const entry of collectOperations(doc)) {
+    for (const tag of [...(entry.summary.tags || []), ...entry.channelTags]) {
+      tags.add(tag);
+    }
+  }
+  return Array.from(tags);
+}
+
+function collectOperations(doc: AsyncAPIDocument): AsyncOperationEntry[] {
+  return isAsyncAPI3(doc) ? collectV3Operations(doc) : collectV2Operations(doc);
+}
+
+// 2.x nests publish/subscribe operations inside each channel
+function collectV2Operations(doc: AsyncAPIDocument): AsyncOperationEntry[] {
+  const entries: AsyncOperationEntry[] = [];
+
+  for (const [channelName, channel] of Object.entries<any>(doc.channels || {})) {
+    for (const action of ['publish', 'subscribe'] as const) {
+      const operation = channel?.[action];
+      if (!operation) continue;
+
+      const operationId: string = operation.operationId || `${action}_${channelName}`;
+      const rawMessages: any[] = operation.message?.oneOf || (operation.message ? [operation.message] : []);
+      const messages = rawMessages.map((message, index) => ({
+        name: message.name || message.messageId || message.title || `${operationId}_message${index + 1}`,
+        message
+      }));
+
+      entries.push({
+        summary: createOperationSummary(operationId, action, channelName, operation, messages),
+        channelTags: [],
+        messages
+      });
+    }
+  }
+
+  return entries;
+}
+
+// 3.0 moves operations to the top level, pointing at channels and messages by $ref
+function collectV3Operations(doc: AsyncAPIDocument): AsyncOperationEntry[] {
+  const entries: AsyncOperationEntry[] = [];
+  const channels = Object.entries<any>(doc.channels || {});
+
+  for (const [operationId, operation] of Object.entries<any>(doc.operations || {})) {
+    const channel = operation.channel || {};
+    const channelName = channels.find(([, candidate]) => candidate === channel)?.[0] || channel.address || 'unknown';
+
+    // Dereferenced $refs point at the same object, which is how messages get their component names back
+    const channelMessages = Object.entries<any>(channel.messages || {});
+    const rawMessages: any[] = Array.isArray(operation.messages) && operation.messages.length > 0
+      ? operation.messages
+      : channelMessages.map(([, message]) => message);
+    const messages = rawMessages.map((message, index) => ({
+      name: channelMessages.find(([, candidate]) => candidate === message)?.[0] || message.name || `${operationId}_message${index + 1}`,
+      message
+    }));
+
+    entries.push({
+      summary: createOperationSummary(operation.operationId || operationId, operation.action, channelName, operation, messages),
+      channelTags: (channel.tags || []).map((tag: any) => tag.name),
+      messages
+    });
+  }
+
+  return entries;
+}
+
+function createOperationSummary(
+  operationId: string,
+  action: AsyncOperationSummary['action'],
+  channel: string,
+  operation: any,
+  messages: Array<{ name: string }>
+): AsyncOperationSummary {
+  const summary: AsyncOperationSummary = {
+    operationId,
+    action,
+    channel,
+    messages: messages.map(message => message.name)
+  };
+  if (operation.summary) summary.summary = operation.summary;
+  if (operation.description) summary.description = operation.description;
+  if (operation.tags?.length) summary.tags = operation.tags.map((tag: any) => tag.name);
+  return summary;
+}
+
+// 3.0 allows a Multi Format Schema Object ({ schemaFormat, schema }) wherever a schema goes
+function unwrapSchema(schema: any): any {
+  return schema && schema.schemaFormat && schema.schema ? schema.schema : schema;
+}
@@ -0,0 +1,446 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { OpenAPIManager } from './openapi-manager.js';
+import { ClientGenerationOptions } from './types.js';
+import { TypeGenerator, OperationTypes, toTypeName } from './type-generator.js';
+import { resolveOutputPath } from './sandbox.js';
+
+// Used when the spec has no servers, or only a relative one
+const PLACEHOLDER_ORIGIN = 'https://api.example.com';
+
+// Untagged operations share a class, under the same heading the documentation gives them
+const UNTAGGED_GROUP = 'Other';
+
+// Members of ApiClient, which generated methods mustn't shadow
+const RESERVED_METHODS = ['constructor', 'options', 'request', 'paginate'];
+
+// What client.ts exports, which index.ts exports alongside the types
+const RUNTIME_EXPORTS = [
+  'DEFAULT_BASE_URL', 'SecurityRequirement', 'AuthContext', 'AuthHook', 'ClientOptions', 'RequestOptions',
+  'ApiError', 'ApiErrorOf', 'bearerAuth', 'apiKeyAuth', 'basicAuth', 'OperationDescriptor', 'Pagination', 'ApiClient'
+];
+
+// Query parameters that carry a cursor, and the response properties the next one comes back in
+const CURSOR_PARAMETERS = ['cursor', 'page_token', 'pageToken', 'next_token', 'nextToken', 'continuation_token', 'continuationToken'];
+const CURSOR_PROPERTIES = ['next_cursor', 'nextCursor', 'next_page_token', 'nextPageToken', 'next_token', 'nextToken', 'continuation_token', 'continuationToken', 'cursor'];
+const ITEM_PROPERTIES = ['data', 'items', 'results', 'records', 'entries'];
+
+interface Pagination {
+  kind: 'cursor' | 'page' | 'offset';
+  parameter: string;
+  items: string;
+  next?: string;
+  start?: number;
+}
+
+interface ClientGroup {
+  tag: string;
+  className: string;
+  file: string;
+  property: string;
+  operations: OperationTypes[];
+}
+
+/**
+ * Writes a fetch-based TypeScript SDK for an OpenAPI session into a directory: `types.ts` from the
+ * type generator, `client.ts` with the request plumbing, one file and class per tag grouped the
+ * way the documentation groups endpoints, and an `index.ts` tying them together. Output depends
+ * only on the spec, so regenerating an unchanged spec rewrites identical files.
+ */
+export class ClientGenerator {
+  private typeGenerator: TypeGenerator;
+
+  constructor(private manager: OpenAPIManager) {
+    this.typeGenerator = new TypeGenerator(manager);
+  }
+
+  async generateClient(sessionId: string, options: ClientGenerationOptions = {}): Promise<string[]> {
+    const sessionInfo = await this.manager.getSessionInfo(sessionId);
+    if (!sessionInfo) {
+      throw new Error('Session not found');
+    }
+
+    const { code: types, operations, typeNames } = await this.typeGenerator.buildTypes(sessionId, { tags: options.tags, includeErrors: true }, RUNTIME_EXPORTS);
+    const callable = operations.filter(operation => !operation.webhook);
+    // Class names are taken last, so they avoid every exported type
+    const groups = groupByTags(await this.manager.getTags(sessionId), callable, options.tags, typeNames);
+
+    const title = [sessionInfo.title, sessionInfo.version].filter(Boolean).join(' ');
+    const header = `// Generated from ${title || 'an OpenAPI spec'} by janus-mcp. Do not edit by hand.\n`;
+    const baseUrl = sessionInfo.baseUrl;
+    const defaultBaseUrl = !baseUrl ? PLACEHOLDER_ORIGIN : /^[a-z][a-z0-9+.-]*:\/\//i.test(baseUrl) ? baseUrl : `${PLACEHOLDER_ORIGIN}${baseUrl.startsWith('/') ? '' : '/'}${baseUrl}`;
+    const clientName = uniqueName(`${toTypeName(sessionInfo.title || 'Api')}Client`, typeNames);
+
+    const files: Array<[string, string]> = [
+      ['types.ts', types],
+      ['client.ts', `${header}\nexport const DEFAULT_BASE_URL = ${JSON.stringify(defaultBaseUrl.replace(/\/+$/, ''))};\n${CLIENT_RUNTIME}`],
+      ...groups.map((group): [string, string] => [group.file, `${header}\n${renderGroup(group)}`]),
+      ['index.ts', `${header}\n${renderIndex(groups, clientName)}`]
+    ];
+
+    const directory = options.outputDirectory || process.cwd();
+    const written: string[] = [];
+    for (const [file, content] of files) {
+      const filePath = await resolveOutputPath(directory, file);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, content, 'utf-8');
+      written.push(filePath);
+    }
+    return written;
+  }
+}
+
+// One group per tag in the order getTags lists them, then the untagged operations
+function groupByTags(tags: string[], operations: OperationTypes[], only: string[] | undefined, classNames: Set<string>): ClientGroup[] {
+  const files = new Set(['types', 'client', 'index']);
+  const groups: ClientGroup[] = [];
+
+  const add = (tag: string, members: OperationTypes[]) => {
+    if (members.length === 0) return;
+    const className = uniqueName(`${toTypeName(tag)}Api`, classNames);
+    const slug = tag.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'api';
+    let file = slug;
+    for (let i = 2; files.has(file); i++) file = `${slug}-${i}`;
+    files.add(file);
+    const property = className.charAt(0).toLowerCase() + className.slice(1).replace(/Api$/, '');
+    groups.push({ tag, className, file: `${file}.ts`, property, operations: members });
+  };
+
+  for (const tag of tags) {
+    if (only?.length && !only.includes(tag)) continue;
+    add(tag, operations.filter(operation => operation.tags.includes(tag)));
+  }
+  if (!only?.length) add(UNTAGGED_GROUP, operations.filter(operation => operation.tags.length === 0));
+  return groups;
+}
+
+function renderGroup(group: ClientGroup): string {
+  const typeImports = new Set<string>();
+  const methodNames = new Set(RESERVED_METHODS);
+  const methods: string[] = [];
+
+  for (const operation of group.operations) {
+    const name = uniqueName(methodName(operation.key), methodNames);
+    const hasParams = operation.parameters.length > 0;
+    const paramsRequired = operation.parameters.some(parameter => parameter.required || parameter.in === 'path');
+    const responseType = `${operation.typeName}Response`;
+    typeImports.add(responseType);
+
+    // Required arguments come first, so optional params never sit in front of a required body
+    const params = hasParams ? `params: ${operation.typeName}Params${paramsRequired ? '' : ' = {}'}` : undefined;
+    const body = operation.body ? `body${operation.bodyRequired ? '' : '?'}: ${operation.typeName}Body` : undefined;
+    if (hasParams) typeImports.add(`${operation.typeName}Params`);
+    if (operation.body) typeImports.add(`${operation.typeName}Body`);
+    const args = (paramsRequired || !operation.bodyRequired ? [params, body] : [body, params]).filter(Boolean) as string[];
+    args.push('options?: RequestOptions');
+
+    const descriptor = [
+      `id: ${JSON.stringify(operation.key)}`,
+      `method: ${JSON.stringify(operation.method.toUpperCase())}`,
+      `path: ${JSON.stringify(operation.path)}`,
+      `security: ${JSON.stringify(operation.security || [])}`,
+      `errors: ${JSON.stringify(operation.errors.map(error => error.statusCode))}`,
+      ...(operation.body ? [`contentType: ${JSON.stringify(operation.body.contentType)}`] : [])
+    ];
+
+    const doc = [
+      ...(operation.summary ? [operation.summary.replace(/\*\//g, '*\\/'), ''] : []),
+      `\`${operation.method.toUpperCase()} ${operation.path}\``
+    ];
+    if (operation.errors.length > 0) {
+      doc.push(`@throws ApiError, typed as \`ApiErrorOf<${operation.typeName}Errors>\` for the documented error responses`);
+    }
+
+    methods.push([
+      `  /**\n${doc.map(line => `   *${line ? ` ${line}` : ''}`).join('\n')}\n   */`,
+      `  async ${name}(${args.join(', ')}): Promise<${responseType}> {`,
+      `    return this.request<${responseType}>({ ${descriptor.join(', ')} }, ${hasParams ? 'params' : '{}'}, ${operation.body ? 'body' : 'undefined'}, options);`,
+      '  }'
+    ].join('\n'));
+
+    const pagination = detectPagination(operation);
+    if (pagination) {
+      const allName = uniqueName(`${name}All`, methodNames);
+      const itemType = `NonNullable<${responseType}[${JSON.stringify(pagination.items)}]>[number]`;
+      methods.push([
+        `  /** Every item ${name} returns, fetching further pages as the iterator is consumed. */`,
+        `  ${allName}(${params}, options?: RequestOptions): AsyncGenerator<${itemType}> {`,
+        `    return this.paginate<${operation.typeName}Params, ${itemType}>(${renderPagination(pagination)}, params, page => this.${name}(page, options));`,
+        '  }'
+      ].join('\n'));
+    }
+  }
+
+  const imports = [
+    "import { ApiClient } from './client.js';",
+    "import type { RequestOptions } from './client.js';",
+    `import type { ${[...typeImports].join(', ')} } from './types.js';`
+  ];
+
+  return `${imports.join('\n')}\n\n/** Operations tagged ${group.tag === UNTAGGED_GROUP ? 'with nothing' : JSON.stringify(group.tag)}. */\nexport class ${group.className} extends ApiClient {\n${methods.join('\n\n')}\n}\n`;
+}
+
+function renderIndex(groups: ClientGroup[], clientName: string): string {
+  const lines = [
+    "export * from './types.js';",
+    "export * from './client.js';",
+    ...groups.map(group => `export { ${group.className} } from './${group.file.replace(/\.ts$/, '.js')}';`),
+    '',
+    "import type { ClientOptions } from './client.js';",
+    ...groups.map(group => `import { ${group.className} } from './${group.file.replace(/\.ts$/, '.js')}';`),
+    '',
+    '/** Every tag\'s operations, sharing one set of client options. */',
+    `export class ${clientName} {`,
+    ...groups.map(group => `  readonly ${group.property}: ${group.className};`),
+    '',
+    '  constructor(options: ClientOptions = {}) {',
+    ...groups.map(group => `    this.${group.property} = new ${group.className}(options);`),
+    '  }',
+    '}'
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * How a list operation pages through its results, when its parameters and response make that
+ * unambiguous: a cursor parameter echoed by a next-cursor property, a page number, or an offset.
+ * The response has to be an object with one array of items.
+ */
+function detectPagination(operation: OperationTypes): Pagination | undefined {
+  if (operation.method.toUpperCase() !== 'GET' || operation.body || operation.responses.length !== 1) return undefined;
+  const schema = operation.responses[0]?.schema;
+  const properties = schema?.properties;
+  if (!properties || typeof properties !== 'object') return undefined;
+
+  const arrays = Object.keys(properties).filter(name => properties[name]?.type === 'array' || properties[name]?.items);
+  const items = ITEM_PROPERTIES.find(name => arrays.includes(name)) || (arrays.length === 1 ? arrays[0] : undefined);
+  if (!items) return undefined;
+
+  const query = operation.parameters.filter(parameter => parameter.in === 'query');
+  const names = query.map(parameter => parameter.name);
+
+  const cursor = CURSOR_PARAMETERS.find(name => names.includes(name));
+  const next = CURSOR_PROPERTIES.find(name => properties[name] !== undefined);
+  if (cursor && next) return { kind: 'cursor', parameter: cursor, items, next };
+
+  const page = query.find(parameter => parameter.name === 'page');
+  if (page) return { kind: 'page', parameter: 'page', items, start: typeof page.schema?.default === 'number' ? page.schema.default : 1 };
+
+  if (names.includes('offset')) return { kind: 'offset', parameter: 'offset', items };
+  return undefined;
+}
+
+function renderPagination(pagination: Pagination): string {
+  const fields = Object.entries(pagination).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `{ ${fields.join(', ')} }`;
+}
+
+// `list-invoices` and `ListInvoices` both become `listInvoices`
+function methodName(key: string): string {
+  const typeName = toTypeName(key);
+  return typeName.charAt(0).toLowerCase() + typeName.slice(1);
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) candidate = `${name}${i}`;
+  taken.add(candidate);
+  return candidate;
+}
+
+// client.ts after DEFAULT_BASE_URL; the same for every spec
+const CLIENT_RUNTIME = `
+/** The security requirement objects of an operation, alternatives first to last. */
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface AuthContext {
+  operationId: string;
+  security: SecurityRequirement[];
+  headers: Headers;
+  query: URLSearchParams;
+}
+
+/** Called before every request to add credentials, by header or query parameter. */
+export type AuthHook = (context: AuthContext) => void | Promise<void>;
+
+export interface ClientOptions {
+  baseUrl?: string;
+  auth?: AuthHook;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * A response outside 2xx. \`statusCode\` is the documented response it matched, such as \`404\`,
+ * \`4XX\` or \`default\`, so narrowing on it types \`body\`.
+ */
+export class ApiError<Status extends string = string, Body = unknown> extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly statusCode: Status,
+    readonly body: Body,
+    readonly response: Response
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** The errors an operation documents, from its generated \`<Operation>Errors\` map. */
+export type ApiErrorOf<Errors> = { [Status in keyof Errors & string]: ApiError<Status, Errors[Status]> }[keyof Errors & string];
+
+export function bearerAuth(token: string | (() => string | Promise<string>)): AuthHook {
+  return async ({ headers }) => {
+    headers.set('Authorization', 'Bearer ' + (typeof token === 'function' ? await token() : token));
+  };
+}
+
+export function apiKeyAuth(name: string, key: string, location: 'header' | 'query' = 'header'): AuthHook {
+  return ({ headers, query }) => {
+    if (location === 'query') query.set(name, key);
+    else headers.set(name, key);
+  };
+}
+
+export function basicAuth(username: string, password: string): AuthHook {
+  return ({ headers }) => {
+    headers.set('Authorization', 'Basic ' + btoa(username + ':' + password));
+  };
+}
+
+export interface OperationDescriptor {
+  id: string;
+  method: string;
+  path: string;
+  security: SecurityRequirement[];
+  errors: string[];
+  contentType?: string;
+}
+
+export interface Pagination {
+  kind: 'cursor' | 'page' | 'offset';
+  parameter: string;
+  items: string;
+  next?: string;
+  start?: number;
+}
+
+type RequestParameters = {
+  path?: object;
+  query?: object;
+  header?: object;
+  cookie?: object;
+};
+
+export class ApiClient {
+  constructor(protected readonly options: ClientOptions = {}) {}
+
+  protected async request<T>(operation: OperationDescriptor, params: RequestParameters, body: unknown, init: RequestOptions = {}): Promise<T> {
+    const path = operation.path.replace(/\\{([^}]+)\\}/g, (_, name: string) => encodeURIComponent(String(valueOf(params.path, name))));
+
+    const query = new URLSearchParams();
+    for (const [name, value] of entriesOf(params.query)) {
+      // Arrays repeat the parameter, the default form style
+      for (const item of Array.isArray(value) ? value : [value]) query.append(name, serialize(item));
+    }
+
+    const headers = new Headers(this.options.headers);
+    for (const [name, value] of entriesOf(params.header)) headers.set(name, serialize(value));
+    const cookies = entriesOf(params.cookie).map(([name, value]) => name + '=' + encodeURIComponent(serialize(value)));
+    if (cookies.length > 0) headers.set('Cookie', cookies.join('; '));
+    for (const [name, value] of Object.entries(init.headers ?? {})) headers.set(name, value);
+
+    const payload = body === undefined ? undefined : encodeBody(body, operation.contentType, headers);
+    await this.options.auth?.({ operationId: operation.id, security: operation.security, headers, query });
+
+    const baseUrl = (this.options.baseUrl ?? DEFAULT_BASE_URL).replace(/\\/+$/, '');
+    const search = query.toString();
+    const response = await (this.options.fetch ?? fetch)(baseUrl + path + (search ? '?' + search : ''), {
+      method: operation.method,
+      headers,
+      body: payload,
+      signal: init.signal
+    });
+
+    const data = await decodeBody(response);
+    if (!response.ok) {
+      const statusCode = documentedStatus(operation.errors, response.status);
+      throw new ApiError(operation.method + ' ' + operation.path + ' failed with ' + response.status, response.status, statusCode, data, response);
+    }
+    return data as T;
+  }
+
+  protected async *paginate<P extends RequestParameters, Item>(pagination: Pagination, params: P, call: (params: P) => Promise<unknown>): AsyncGenerator<Item> {
+    let query: Record<string, unknown> = { ...params.query };
+    for (;;) {
+      const page = await call({ ...params, query } as P);
+      const items = valueOf(page, pagination.items);
+      if (!Array.isArray(items) || items.length === 0) return;
+      yield* items as Item[];
+
+      if (pagination.kind === 'cursor') {
+        const next = valueOf(page, pagination.next!);
+        if (next === undefined || next === null || next === '') return;
+        query = { ...query, [pagination.parameter]: next };
+      } else if (pagination.kind === 'page') {
+        query = { ...query, [pagination.parameter]: Number(query[pagination.parameter] ?? pagination.start ?? 1) + 1 };
+      } else {
+        query = { ...query, [pagination.parameter]: Number(query[pagination.parameter] ?? 0) + items.length };
+      }
+    }
+  }
+}
+
+function valueOf(object: unknown, name: string): unknown {
+  return object && typeof object === 'object' ? (object as Record<string, unknown>)[name] : undefined;
+}
+
+function entriesOf(object: object | undefined): Array<[string, unknown]> {
+  return Object.entries(object ?? {}).filter(([, value]) => value !== undefined);
+}
+
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function encodeBody(body: unknown, contentType = 'application/json', headers: Headers): BodyInit {
+  if (/^multipart\\/form-data/i.test(contentType)) {
+    // fetch sets the content type itself, with the boundary
+    const form = new FormData();
+    for (const [name, value] of entriesOf(body as object)) {
+      form.append(name, value instanceof Blob ? value : serialize(value));
+    }
+    return form;
+  }
+
+  headers.set('Content-Type', contentType);
+  if (/^application\\/x-www-form-urlencoded/i.test(contentType)) {
+    return new URLSearchParams(entriesOf(body as object).map(([name, value]): [string, string] => [name, serialize(value)]));
+  }
+  if (/[/+]json\\b/i.test(contentType)) return JSON.stringify(body);
+  return body instanceof Blob || typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+async function decodeBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (text === '') return undefined;
+  if (/[/+]json\\b/i.test(response.headers.get('Content-Type') ?? '')) return JSON.parse(text);
+  return text;
+}
+
+// The exact status, then its range such as 4XX, then default
+function documentedStatus(errors: string[], status: number): string {
+  const exact = String(status);
+  if (errors.includes(exact)) return exact;
+  const range = exact.charAt(0) + 'XX';
+  const documentedRange = errors.find(code => code.toUpperCase() === range);
+  if (documentedRange) return documentedRange;
+  return errors.includes('default') ? 'default' : exact;
+}
+`;
@@ -1,8 +1,12 @@
 import { writeFile, mkdir } from 'fs/promises';
-import { join, resolve, dirname } from 'path';
+import { dirname } from 'path';
 import { marked } from 'marked';
 import { OpenAPIManager } from './openapi-manager.js';
-import { DocumentationOptions, EndpointSummary, EndpointDetails, QueryOptions } from './types.js';
+import { DocumentationOptions, EndpointSummary, EndpointDetails, QueryOptions, SnippetLanguage } from './types.js';
+import { formatSchemaType, exampleOf, formatMarkdownSnippet } from './transformers.js';
+import { resolveOutputPath } from './sandbox.js';
+import { componentPointer } from './reference-graph.js';
+import { SNIPPET_LANGUAGES } from './snippet-generator.js';
 
 export class DocumentationGenerator {
   constructor(private manager: OpenAPIManager) {}
@@ -18,6 +22,10 @@ export class DocumentationGenerator {
       includeComponents: options.includeComponents ?? true,
       includeSecurity: options.includeSecurity ?? true,
       includeExamples: options.includeExamples ?? false,
+      generateExamples: options.generateExamples ?? false,
+      exampleSeed: options.exampleSeed ?? 1,
+      includeSnippets: options.includeSnippets ?? false,
+      snippetLanguages: options.snippetLanguages?.length ? options.snippetLanguages : Object.keys(SNIPPET_LANGUAGES) as SnippetLanguage[],
       groupByTags: options.groupByTags ?? true
     };
 
@@ -48,11 +56,10 @@ export class DocumentationGenerator {
       : await this.generateMarkdownContent(sessionId, opts);
 
     // Ensure output directory exists
-    const outputPath = resolve(opts.outputDirectory);
-    await mkdir(outputPath, { recursive: true });
+    const filePath = await resolveOutputPath(opts.outputDirectory, opts.filename);
+    await mkdir(dirname(filePath), { recursive: true });
 
     // Write the file
-    const filePath = join(outputPath, opts.filename);
     await writeFile(filePath, content, 'utf-8');
 
     return filePath;
@@ -87,9 +94,11 @@ export class DocumentationGenerator {
       content += await this.generateTableOfContents(sessionId, options);
     }
 
-    // Endpoints section
+    // Endpoints section (servers and channels for AsyncAPI sessions)
     if (options.includeEndpoints) {
-      content += await this.generateEndpointsSection(sessionId, options);
+      content += await this.manager.getSessionSpecType(sessionId) === 'asyncapi'
+        ? await this.generateAsyncAPISection(sessionId)
+        : await this.generateEndpointsSection(sessionId, options);
     }
 
     // Components section
@@ -102,8 +111,12 @@ export class DocumentationGenerator {
 
   private async generateTableOfContents(sessionId: string, options: Required<DocumentationOptions>): Promise<string> {
     let toc = '## Table of Contents\n\n';
+    const isAsyncAPI = await this.manager.getSessionSpecType(sessionId) === 'asyncapi';
 
-    if (options.includeEndpoints) {
+    if (options.includeEndpoints && isAsyncAPI) {
+      toc += '- [Servers](#servers)\n';
+      toc += '- [Channels](#channels)\n';
+    } else if (options.includeEndpoints) {
       if (options.groupByTags) {
         const tags = await this.manager.getTags(sessionId);
         if (tags.length > 0) {
@@ -182,7 +195,7 @@ export class DocumentationGenerator {
     }
 
     for (const endpoint of endpoints) {
-      content += `#### ${endpoint.method} \`${endpoint.path}\`\n\n`;
+      content += `#### ${endpoint.method} \`${endpoint.path}\`${endpoint.webhook ? ' (webhook)' : ''}\n\n`;
       
       if (endpoint.summary) {
         content += `${endpoint.summary}\n\n`;
@@ -199,6 +212,8 @@ export class DocumentationGenerator {
         includeResponses: true,
         includeSecurity: options.includeSecurity,
         includeExamples: options.includeExamples,
+        generateExamples: options.generateExamples,
+        exampleSeed: options.exampleSeed,
         includeSchemas: true
       };
 
@@ -215,7 +230,7 @@ export class DocumentationGenerator {
             const required = param.required ? 'Yes' : 'No';
             const type = param.type || this.formatSchemaType(param.schema);
             const description = param.description || '';
-            content += `| ${param.name} | \`${type}\` | ${param.in} | ${required} | ${description} |\n`;
+            content += `| ${param.name} | \`${this.escapeTableCell(type)}\` | ${param.in} | ${required} | ${description} |\n`;
           }
           content += '\n';
         }
@@ -230,6 +245,17 @@ export class DocumentationGenerator {
                       if (details.requestBody.schema) {
               content += await this.formatInlineSchema(sessionId, details.requestBody.schema, 0);
             }
+          content += this.formatEncoding(details.requestBody.encoding);
+          content += this.formatExample(details.requestBody);
+
+          for (const media of details.requestBody.alternatives || []) {
+            content += `Alternative Content Type: \`${media.contentType}\`\n\n`;
+            if (media.schema) {
+              content += await this.formatInlineSchema(sessionId, media.schema, 0);
+            }
+            content += this.formatEncoding(media.encoding);
+            content += this.formatExample(media);
+          }
         }
 
         // Responses
@@ -246,6 +272,89 @@ export class DocumentationGenerator {
             if (response.schema) {
               content += await this.formatInlineSchema(sessionId, response.schema, 0);
             }
+            content += this.formatExample(response);
+
+            for (const media of response.alternatives || []) {
+              content += `Alternative Content Type: \`${media.contentType}\`\n\n`;
+              if (media.schema) {
+                content += await this.formatInlineSchema(sessionId, media.schema, 0);
+              }
+              content += this.formatExample(media);
+            }
+          }
+        }
+
+        if (options.includeSnippets && !details.webhook) {
+          content += await this.formatSnippets(sessionId, details, options);
+        }
+      }
+
+      content += '---\n\n';
+    }
+
+    return content;
+  }
+
+  private async generateAsyncAPISection(sessionId: string): Promise<string> {
+    let content = '## Servers\n\n';
+
+    const servers = await this.manager.listServers(sessionId);
+    if (servers.length === 0) {
+      content += 'No servers found.\n\n';
+    } else {
+      content += '| Name | URL | Protocol | Description |\n';
+      content += '|------|-----|----------|-------------|\n';
+      for (const server of servers) {
+        const protocol = server.protocolVersion ? `${server.protocol} ${server.protocolVersion}` : server.protocol;
+        content += `| ${server.name} | \`${server.url}\` | ${protocol} | ${server.description || ''} |\n`;
+      }
+      content += '\n';
+    }
+
+    content += '## Channels\n\n';
+
+    const channels = await this.manager.listChannels(sessionId);
+    if (channels.length === 0) {
+      content += 'No channels found.\n\n';
+      return content;
+    }
+
+    for (const channel of channels) {
+      content += `### \`${channel.name}\`\n\n`;
+      if (channel.address) {
+        content += `**Address:** \`${channel.address}\`\n\n`;
+      }
+      if (channel.description) {
+        content += `${channel.description}\n\n`;
+      }
+      if (channel.parameters?.length) {
+        content += `**Parameters:** ${channel.parameters.map(name => `\`${name}\``).join(', ')}\n\n`;
+      }
+
+      for (const operation of channel.operations) {
+        content += `#### ${operation.action.toUpperCase()} \`${operation.operationId}\`\n\n`;
+        if (operation.summary) {
+          content += `${operation.summary}\n\n`;
+        }
+        if (operation.description) {
+          content += `${operation.description}\n\n`;
+        }
+
+        const messages = await this.manager.getMessages(sessionId, { operationId: operation.operationId });
+        for (const message of messages) {
+          content += `**Message: ${message.name}**`;
+          if (message.contentType) content += ` (\`${message.contentType}\`)`;
+          content += '\n\n';
+          if (message.summary) {
+            content += `${message.summary}\n\n`;
+          }
+          if (message.headers) {
+            content += '**Headers:**\n\n';
+            content += await this.formatInlineSchema(sessionId, message.headers, 0);
+          }
+          if (message.payload) {
+            content += '**Payload:**\n\n';
+            content += await this.formatInlineSchema(sessionId, message.payload, 0);
           }
         }
       }
@@ -264,6 +373,7 @@ export class DocumentationGenerator {
       content += 'No components found.\n\n';
       return content;
     }
+    const unused = new Set(await this.manager.getUnusedComponents(sessionId));
 
     for (const [componentType, items] of Object.entries(components)) {
       if (!items || typeof items !== 'object') continue;
@@ -274,7 +384,8 @@ export class DocumentationGenerator {
       content += `### ${this.capitalizeFirst(componentType)}\n\n`;
       
       for (const [itemName, itemDef] of Object.entries(items)) {
-        content += `#### ${itemName}\n\n`;
+        const marker = unused.has(componentPointer(componentType, itemName)) ? ' *(unused)*' : '';
+        content += `#### ${itemName}${marker}\n\n`;
         
         if (typeof itemDef === 'object' && itemDef !== null) {
           if (itemDef.description) {
@@ -292,7 +403,7 @@ export class DocumentationGenerator {
               const isRequired = required.includes(propName) ? 'Yes' : 'No';
               const propType = this.formatSchemaType(propDef);
               const propDesc = (propDef as any)?.description || '';
-              content += `| ${propName} | \`${propType}\` | ${isRequired} | ${propDesc} |\n`;
+              content += `| ${propName} | \`${this.escapeTableCell(propType)}\` | ${isRequired} | ${propDesc} |\n`;
             }
             content += '\n';
           }
@@ -306,20 +417,39 @@ export class DocumentationGenerator {
   }
 
   private formatSchemaType(schema: any): string {
-    if (!schema) return 'unknown';
-    
-    if (schema.type) {
-      if (schema.type === 'array' && schema.items) {
-        return `${this.formatSchemaType(schema.items)}[]`;
-      }
-      return schema.type;
-    }
-    
-    if (schema.$ref) {
-      return schema.$ref.split('/').pop() || 'ref';
+    return formatSchemaType(schema);
+  }
+
+  private isArraySchema(schema: any): boolean {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types.includes('array') && !!schema.items;
+  }
+
+  // Per-property content types of multipart and form bodies
+  private formatEncoding(encoding?: Record<string, any>): string {
+    if (!encoding || Object.keys(encoding).length === 0) return '';
+    const items = Object.entries<any>(encoding)
+      .map(([name, value]) => `- \`${name}\`: \`${value?.contentType || value?.style || 'default'}\``)
+      .join('\n');
+    return `Encoding:\n\n${items}\n\n`;
+  }
+
+  private async formatSnippets(sessionId: string, details: EndpointDetails, options: Required<DocumentationOptions>): Promise<string> {
+    const { snippets } = await this.manager.generateSnippets(sessionId, details.path, details.method, {
+      languages: options.snippetLanguages,
+      seed: options.exampleSeed
+    });
+    let content = '**Code Samples:**\n\n';
+    for (const snippet of snippets) {
+      content += `${snippet.label}:\n\n${formatMarkdownSnippet(snippet)}`;
     }
-    
-    return 'object';
+    return content;
+  }
+
+  private formatExample(media: { example?: any; examples?: any; generatedExample?: any }): string {
+    const example = exampleOf(media);
+    if (!example) return '';
+    return `Example${example.generated ? ' (generated)' : ''}:\n\n\`\`\`json\n${JSON.stringify(example.value, null, 2)}\n\`\`\`\n\n`;
   }
 
   private async formatInlineSchema(sessionId: string, schema: any, depth: number = 0): Promise<string> {
@@ -334,7 +464,7 @@ export class DocumentationGenerator {
     let content = '';
     
     // Handle array types
-    if (schema.type === 'array' && schema.items) {
+    if (this.isArraySchema(schema)) {
       content += `**Array of:**\n\n`;
       content += await this.formatInlineSchema(sessionId, schema.items, depth + 1);
       return content;
@@ -369,7 +499,7 @@ export class DocumentationGenerator {
         const isRequired = required.includes(propName) ? 'Yes' : 'No';
         const propType = this.getSimpleType(propSchema);
         const propDescription = (propSchema as any)?.description || '';
-        content += `| ${propName} | \`${propType}\` | ${isRequired} | ${propDescription} |\n`;
+        content += `| ${propName} | \`${this.escapeTableCell(propType)}\` | ${isRequired} | ${propDescription} |\n`;
       }
       content += '\n';
       
@@ -393,7 +523,7 @@ export class DocumentationGenerator {
     
     // Handle simple types
     if (schema.type) {
-      content += `**Type:** \`${schema.type}\`\n\n`;
+      content += `**Type:** \`${this.formatSchemaType(schema)}\`\n\n`;
       if (schema.description) {
         content += `**Description:** ${schema.description}\n\n`;
       }
@@ -404,21 +534,12 @@ export class DocumentationGenerator {
   }
   
   private getSimpleType(schema: any): string {
-    if (!schema) return 'unknown';
-    
-    if (schema.type === 'array' && schema.items) {
-      return `${this.getSimpleType(schema.items)}[]`;
-    }
-    
-    if (schema.type) {
-      return schema.type;
-    }
-    
-    if (schema.$ref) {
-      return schema.$ref.split('/').pop() || 'ref';
-    }
-    
-    return 'object';
+    return formatSchemaType(schema);
+  }
+
+  // Union types such as `string | null` would otherwise split markdown table cells
+  private escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
   }
 
   private createAnchor(text: string): string {
@@ -603,6 +724,8 @@ export class DocumentationGenerator {
         .method-put { background: #e3f2fd; color: #1976d2; }
         .method-delete { background: #ffebee; color: #d32f2f; }
         .method-patch { background: #f3e5f5; color: #7b1fa2; }
+        .method-send, .method-publish { background: #fff3e0; color: #f57c00; }
+        .method-receive, .method-subscribe { background: #e8f5e8; color: #2e7d32; }
         
         .endpoint-path {
             font-family: 'Monaco', 'Menlo', monospace;
@@ -672,6 +795,15 @@ export class DocumentationGenerator {
             color: #2c3e50;
         }
         
+        .webhook-badge {
+            background: #ede7f6;
+            color: #5e35b1;
+            padding: 2px 6px;
+            border-radius: 4px;
+            font-size: 0.8rem;
+            font-weight: bold;
+        }
+        
         .required-badge {
             background: #ffebee;
             color: #d32f2f;
@@ -681,6 +813,15 @@ export class DocumentationGenerator {
             font-weight: bold;
         }
         
+        .unused-badge {
+            background: #eeeeee;
+            color: #616161;
+            padding: 2px 6px;
+            border-radius: 4px;
+            font-size: 0.8rem;
+            font-weight: bold;
+        }
+        
         .base-url {
             background: #e8f5e8;
             padding: 15px;
@@ -767,8 +908,17 @@ export class DocumentationGenerator {
 
   private async generateHtmlNavigation(sessionId: string, options: Required<DocumentationOptions>): Promise<string> {
     let nav = '<div class="nav-menu">';
+    const isAsyncAPI = await this.manager.getSessionSpecType(sessionId) === 'asyncapi';
     
-    if (options.includeEndpoints) {
+    if (options.includeEndpoints && isAsyncAPI) {
+      nav += '<div class="nav-section">';
+      nav += '<h3>Channels</h3>';
+      nav += '<a href="#servers" class="nav-item">Servers</a>';
+      for (const channel of await this.manager.listChannels(sessionId)) {
+        nav += `<a href="#${this.createAnchor(`channel-${channel.name}`)}" class="nav-item">${this.escapeHtml(channel.name)}</a>`;
+      }
+      nav += '</div>';
+    } else if (options.includeEndpoints) {
       nav += '<div class="nav-section">';
       nav += '<h3>Endpoints</h3>';
       
@@ -806,9 +956,11 @@ export class DocumentationGenerator {
   private async generateHtmlMainContent(sessionId: string, options: Required<DocumentationOptions>): Promise<string> {
     let content = '';
     
-    // Endpoints section
+    // Endpoints section (servers and channels for AsyncAPI sessions)
     if (options.includeEndpoints) {
-      content += await this.generateHtmlEndpointsSection(sessionId, options);
+      content += await this.manager.getSessionSpecType(sessionId) === 'asyncapi'
+        ? await this.generateHtmlAsyncAPISection(sessionId)
+        : await this.generateHtmlEndpointsSection(sessionId, options);
     }
     
     // Components section
@@ -882,6 +1034,9 @@ export class DocumentationGenerator {
       content += '<div class="endpoint-title">';
       content += `<span class="method-badge ${methodClass}">${endpoint.method}</span>`;
       content += `<code class="endpoint-path">${this.escapeHtml(endpoint.path)}</code>`;
+      if (endpoint.webhook) {
+        content += ' <span class="webhook-badge">Webhook</span>';
+      }
       content += '</div>';
       
       if (endpoint.summary) {
@@ -903,11 +1058,16 @@ export class DocumentationGenerator {
         includeResponses: true,
         includeSecurity: options.includeSecurity,
         includeExamples: options.includeExamples,
+        generateExamples: options.generateExamples,
+        exampleSeed: options.exampleSeed,
         includeSchemas: true
       });
       
       if (details) {
         content += await this.generateHtmlEndpointDetails(sessionId, details);
+        if (options.includeSnippets && !details.webhook) {
+          content += await this.generateHtmlSnippets(sessionId, details, options);
+        }
       }
       
       content += '</div>';
@@ -953,6 +1113,17 @@ export class DocumentationGenerator {
       if (details.requestBody.schema) {
         content += await this.generateHtmlInlineSchema(sessionId, details.requestBody.schema, 0);
       }
+      content += this.generateHtmlEncoding(details.requestBody.encoding);
+      content += this.generateHtmlExample(details.requestBody);
+
+      for (const media of details.requestBody.alternatives || []) {
+        content += `<p><strong>Alternative Content Type:</strong> <code>${this.escapeHtml(media.contentType)}</code></p>`;
+        if (media.schema) {
+          content += await this.generateHtmlInlineSchema(sessionId, media.schema, 0);
+        }
+        content += this.generateHtmlEncoding(media.encoding);
+        content += this.generateHtmlExample(media);
+      }
     }
     
     // Responses
@@ -970,12 +1141,55 @@ export class DocumentationGenerator {
         if (response.schema) {
           content += await this.generateHtmlInlineSchema(sessionId, response.schema, 0);
         }
+        content += this.generateHtmlExample(response);
+
+        for (const media of response.alternatives || []) {
+          content += `<p><strong>Alternative Content Type:</strong> <code>${this.escapeHtml(media.contentType)}</code></p>`;
+          if (media.schema) {
+            content += await this.generateHtmlInlineSchema(sessionId, media.schema, 0);
+          }
+          content += this.generateHtmlExample(media);
+        }
       }
     }
     
     return content;
   }
 
+  // Per-property content types of multipart and form bodies
+  private generateHtmlEncoding(encoding?: Record<string, any>): string {
+    if (!encoding || Object.keys(encoding).length === 0) return '';
+    const items = Object.entries<any>(encoding)
+      .map(([name, value]) => `<li><code>${this.escapeHtml(name)}</code>: <code>${this.escapeHtml(value?.contentType || value?.style || 'default')}</code></li>`)
+      .join('');
+    return `<p><strong>Encoding:</strong></p><ul>${items}</ul>`;
+  }
+
+  private async generateHtmlSnippets(sessionId: string, details: EndpointDetails, options: Required<DocumentationOptions>): Promise<string> {
+    const { snippets } = await this.manager.generateSnippets(sessionId, details.path, details.method, {
+      languages: options.snippetLanguages,
+      seed: options.exampleSeed
+    });
+    let content = '<h4>Code Samples</h4>';
+    for (const snippet of snippets) {
+      content += '<div class="example-section">';
+      content += `<div class="example-title">${this.escapeHtml(snippet.label)}:</div>`;
+      content += `<pre><code>${this.escapeHtml(snippet.code)}</code></pre>`;
+      content += '</div>';
+    }
+    return content;
+  }
+
+  private generateHtmlExample(media: { example?: any; examples?: any; generatedExample?: any }): string {
+    const example = exampleOf(media);
+    if (!example) return '';
+    let content = '<div class="example-section">';
+    content += `<div class="example-title">Example${example.generated ? ' (generated)' : ''}:</div>`;
+    content += `<pre><code>${this.escapeHtml(JSON.stringify(example.value, null, 2))}</code></pre>`;
+    content += '</div>';
+    return content;
+  }
+
   private async generateHtmlInlineSchema(sessionId: string, schema: any, depth: number = 0): Promise<string> {
     if (!schema) return '';
     
@@ -987,7 +1201,7 @@ export class DocumentationGenerator {
     let content = '';
     
     // Handle array types
-    if (schema.type === 'array' && schema.items) {
+    if (this.isArraySchema(schema)) {
       content += '<div class="example-section">';
       content += '<div class="example-title">Array of:</div>';
       content += await this.generateHtmlInlineSchema(sessionId, schema.items, depth + 1);
@@ -1060,7 +1274,7 @@ export class DocumentationGenerator {
     
     // Handle simple types
     if (schema.type) {
-      content += `<p><strong>Type:</strong> <code>${this.escapeHtml(schema.type)}</code></p>`;
+      content += `<p><strong>Type:</strong> <code>${this.escapeHtml(this.formatSchemaType(schema))}</code></p>`;
       if (schema.description) {
         content += `<div><strong>Description:</strong> ${this.parseMarkdown(schema.description)}</div>`;
       }
@@ -1070,6 +1284,93 @@ export class DocumentationGenerator {
     return `<p><strong>Schema:</strong> <code>${this.escapeHtml(this.formatSchemaType(schema))}</code></p>`;
   }
 
+  private async generateHtmlAsyncAPISection(sessionId: string): Promise<string> {
+    let content = '<div class="content-section">';
+    content += '<h2 id="servers">Servers</h2>';
+
+    const servers = await this.manager.listServers(sessionId);
+    if (servers.length === 0) {
+      content += '<p>No servers found.</p>';
+    } else {
+      content += '<table>';
+      content += '<thead><tr><th>Name</th><th>URL</th><th>Protocol</th><th>Description</th></tr></thead>';
+      content += '<tbody>';
+      for (const server of servers) {
+        const protocol = server.protocolVersion ? `${server.protocol} ${server.protocolVersion}` : server.protocol;
+        content += `<tr>`;
+        content += `<td><code>${this.escapeHtml(server.name)}</code></td>`;
+        content += `<td><code>${this.escapeHtml(server.url)}</code></td>`;
+        content += `<td>${this.escapeHtml(protocol)}</td>`;
+        content += `<td>${server.description ? this.parseMarkdown(server.description) : ''}</td>`;
+        content += `</tr>`;
+      }
+      content += '</tbody></table>';
+    }
+    content += '</div>';
+
+    content += '<div class="content-section">';
+    content += '<h2 id="channels">Channels</h2>';
+
+    const channels = await this.manager.listChannels(sessionId);
+    if (channels.length === 0) {
+      content += '<p>No channels found.</p>';
+      content += '</div>';
+      return content;
+    }
+    content += '</div>';
+
+    for (const channel of channels) {
+      content += `<div class="endpoint" id="${this.createAnchor(`channel-${channel.name}`)}">`;
+      content += '<div class="endpoint-header">';
+      content += `<div class="endpoint-title"><code class="endpoint-path">${this.escapeHtml(channel.name)}</code></div>`;
+      if (channel.address) {
+        content += `<p><strong>Address:</strong> <code>${this.escapeHtml(channel.address)}</code></p>`;
+      }
+      content += '</div>';
+
+      content += '<div class="endpoint-body">';
+      if (channel.description) {
+        content += `<div class="endpoint-description">${this.parseMarkdown(channel.description)}</div>`;
+      }
+
+      for (const operation of channel.operations) {
+        content += `<h4><span class="method-badge method-${operation.action}">${this.escapeHtml(operation.action)}</span>${this.escapeHtml(operation.operationId)}</h4>`;
+        if (operation.summary) {
+          content += `<p><strong>${this.escapeHtml(operation.summary)}</strong></p>`;
+        }
+        if (operation.description) {
+          content += `<div class="endpoint-description">${this.parseMarkdown(operation.description)}</div>`;
+        }
+
+        const messages = await this.manager.getMessages(sessionId, { operationId: operation.operationId });
+        for (const message of messages) {
+          content += `<h5>Message: ${this.escapeHtml(message.name)}</h5>`;
+          if (message.contentType) {
+            content += `<p><strong>Content Type:</strong> <code>${this.escapeHtml(message.contentType)}</code></p>`;
+          }
+          if (message.summary) {
+            content += `<p>${this.escapeHtml(message.summary)}</p>`;
+          }
+          if (message.headers) {
+            content += '<div class="example-section"><div class="example-title">Headers:</div>';
+            content += await this.generateHtmlInlineSchema(sessionId, message.headers, 0);
+            content += '</div>';
+          }
+          if (message.payload) {
+            content += '<div class="example-section"><div class="example-title">Payload:</div>';
+            content += await this.generateHtmlInlineSchema(sessionId, message.payload, 0);
+            content += '</div>';
+          }
+        }
+      }
+
+      content += '</div>';
+      content += '</div>';
+    }
+
+    return content;
+  }
+
   private async generateHtmlComponentsSection(sessionId: string, options: Required<DocumentationOptions>): Promise<string> {
     let content = '<div class="content-section">';
     content += '<h2 id="components">Components</h2>';
@@ -1080,6 +1381,7 @@ export class DocumentationGenerator {
       content += '</div>';
       return content;
     }
+    const unused = new Set(await this.manager.getUnusedComponents(sessionId));
     
     content += '</div>';
     
@@ -1096,7 +1398,8 @@ export class DocumentationGenerator {
       for (const [itemName, itemDef] of Object.entries(items)) {
         content += '<div class="endpoint">';
         content += '<div class="endpoint-header">';
-        content += `<h4>${this.escapeHtml(itemName)}</h4>`;
+        const badge = unused.has(componentPointer(componentType, itemName)) ? ' <span class="unused-badge">Unused</span>' : '';
+        content += `<h4>${this.escapeHtml(itemName)}${badge}</h4>`;
         content += '</div>';
         content += '<div class="endpoint-body">';
         
@@ -0,0 +1,488 @@
+const COMPONENT_REF = /^#\/(?:components\/schemas|definitions)\/([^/]+)$/;
+
+const WORDS = [
+  'alpha', 'amber', 'atlas', 'breeze', 'cedar', 'comet', 'delta', 'ember', 'falcon', 'garnet',
+  'harbor', 'indigo', 'juniper', 'lumen', 'maple', 'nova', 'orbit', 'pebble', 'quartz', 'river',
+  'sierra', 'tango', 'umber', 'velvet', 'willow', 'zephyr'
+];
+
+// 2024-01-01T00:00:00Z; generated dates fall within the following year
+const BASE_TIME = Date.UTC(2024, 0, 1);
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const MAX_DEPTH = 8;
+const MAX_REPEAT = 3;
+
+export interface ExampleOptions {
+  seed?: number;
+  // Requests leave out readOnly properties, responses leave out writeOnly ones
+  direction?: 'request' | 'response';
+}
+
+/**
+ * Builds an example value from a schema. Values already in the spec (`example`, `examples`,
+ * `default`, `const`, `enum`) win; everything else is made up to satisfy the schema's format,
+ * bounds and pattern. The same seed always produces the same example for the same schema.
+ */
+export class ExampleGenerator {
+  private random: () => number = () => 0;
+
+  constructor(private schemas: Record<string, any> = {}, private options: ExampleOptions = {}) {}
+
+  generate(schema: any): any {
+    this.random = createRandom(this.options.seed ?? 1);
+    return this.value(schema, new Set(), undefined) ?? null;
+  }
+
+  // undefined means "leave this out", for cycles and properties the direction excludes
+  private value(schema: any, ancestors: Set<any>, name: string | undefined): any {
+    const resolved = this.resolveRef(schema);
+    if (!resolved || typeof resolved !== 'object') return resolved === false ? undefined : null;
+    if (ancestors.has(resolved) || ancestors.size >= MAX_DEPTH) return undefined;
+
+    if (resolved.example !== undefined) return clone(resolved.example);
+    if (Array.isArray(resolved.examples) && resolved.examples.length > 0) return clone(resolved.examples[0]);
+    if (resolved.default !== undefined) return clone(resolved.default);
+    if (resolved.const !== undefined) return clone(resolved.const);
+    if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+      const values = resolved.enum.filter((value: any) => value !== null);
+      return clone(values.length > 0 ? this.pick(values) : null);
+    }
+
+    const nested = new Set(ancestors).add(resolved);
+    if (Array.isArray(resolved.allOf)) {
+      return this.value(this.mergeAllOf(resolved), nested, name);
+    }
+    const variants = resolved.oneOf || resolved.anyOf;
+    if (Array.isArray(variants) && variants.length > 0) {
+      const { oneOf, anyOf, ...base } = resolved;
+      const variant = this.pick(variants);
+      // A variant inherits whatever the parent schema declares next to oneOf
+      const value = this.value(this.mergeAllOf({ allOf: [base, variant] }), nested, name);
+      const discriminator = resolved.discriminator;
+      if (discriminator?.propertyName && value && typeof value === 'object' && !Array.isArray(value)) {
+        const tag = this.discriminatorValue(discriminator, this.resolveRef(variant));
+        if (tag !== undefined) value[discriminator.propertyName] = tag;
+      }
+      return value;
+    }
+
+    switch (schemaType(resolved)) {
+      case 'object':
+        return this.object(resolved, nested);
+      case 'array':
+        return this.array(resolved, nested, name);
+      case 'integer':
+        return this.number(resolved, true);
+      case 'number':
+        return this.number(resolved, false);
+      case 'boolean':
+        return this.random() < 0.5;
+      case 'null':
+        return null;
+      default:
+        return this.string(resolved, name);
+    }
+  }
+
+  private object(schema: any, ancestors: Set<any>): any {
+    const result: Record<string, any> = {};
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+    for (const [propertyName, property] of Object.entries<any>(schema.properties || {})) {
+      const resolved = this.resolveRef(property);
+      if (this.options.direction === 'request' && resolved?.readOnly) continue;
+      if (this.options.direction === 'response' && resolved?.writeOnly) continue;
+
+      const value = this.value(property, ancestors, propertyName);
+      if (value !== undefined) {
+        result[propertyName] = value;
+      } else if (required.includes(propertyName)) {
+        // A required property that would recurse forever still needs a value
+        result[propertyName] = schemaType(resolved) === 'array' ? [] : null;
+      }
+    }
+
+    const additional = schema.additionalProperties;
+    if (Object.keys(result).length === 0 && additional && typeof additional === 'object') {
+      const value = this.value(additional, ancestors, undefined);
+      if (value !== undefined) result.additionalProp1 = value;
+    }
+    return result;
+  }
+
+  private array(schema: any, ancestors: Set<any>, name: string | undefined): any[] {
+    const items = schema.items ?? schema.prefixItems?.[0];
+    if (!items || schema.maxItems === 0) return [];
+
+    const count = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+    const result: any[] = [];
+    for (let i = 0; i < count; i++) {
+      const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems[i] : undefined;
+      const value = this.value(prefix ?? items, ancestors, name);
+      if (value === undefined) return [];
+      result.push(value);
+    }
+    return result;
+  }
+
+  private number(schema: any, integer: boolean): number {
+    // OpenAPI 3.0 marks exclusive bounds with booleans, 3.1 with numbers
+    let min: number | undefined = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : schema.minimum;
+    let max: number | undefined = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.maximum;
+    const exclusiveMin = typeof schema.exclusiveMinimum === 'number' || schema.exclusiveMinimum === true;
+    const exclusiveMax = typeof schema.exclusiveMaximum === 'number' || schema.exclusiveMaximum === true;
+
+    if (min === undefined && max === undefined) {
+      min = integer ? 1 : 0;
+      max = integer ? 1000 : 100;
+    } else if (min === undefined) {
+      // Counts and sizes capped from above are rarely meant to go negative
+      min = max! > 0 ? Math.min(integer ? 1 : 0, max!) : max! - 100;
+    } else if (max === undefined) {
+      max = min + 100;
+    }
+
+    const step = typeof schema.multipleOf === 'number' && schema.multipleOf > 0 ? schema.multipleOf : integer ? 1 : 0.01;
+    let low = Math.ceil(min / step);
+    let high = Math.floor(max! / step);
+    if (exclusiveMin && low * step <= min) low++;
+    if (exclusiveMax && high * step >= max!) high--;
+    if (high < low) return integer ? Math.round(min) : min;
+
+    const value = (low + Math.floor(this.random() * (high - low + 1))) * step;
+    // Multiples of fractional steps pick up floating point noise, e.g. 0.30000000000000004
+    return integer ? Math.round(value) : Number(value.toFixed(decimals(step)));
+  }
+
+  private string(schema: any, name: string | undefined): string {
+    const minLength = schema.minLength ?? 0;
+    const maxLength = schema.maxLength ?? Infinity;
+
+    const formatted = this.formatted(schema.format);
+    if (formatted !== undefined && formatted.length >= minLength && formatted.length <= maxLength) return formatted;
+
+    if (typeof schema.pattern === 'string') {
+      const matched = this.fromPattern(schema.pattern);
+      if (matched !== undefined && matched.length >= minLength && matched.length <= maxLength) return matched;
+    }
+
+    let text = name && /name$/i.test(name) ? capitalize(this.word()) : `${this.word()} ${this.word()}`;
+    while (text.length < minLength) text += ` ${this.word()}`;
+    if (text.length > maxLength) text = text.slice(0, maxLength).trimEnd();
+    // Trimming can take a string back under its minimum
+    return text.length < minLength ? text.padEnd(minLength, 'x') : text;
+  }
+
+  private formatted(format: string | undefined): string | undefined {
+    switch (format) {
+      case 'uuid':
+        return this.uuid();
+      case 'date-time':
+        return this.date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+      case 'date':
+        return this.date().toISOString().slice(0, 10);
+      case 'time':
+        return this.date().toISOString().slice(11, 19) + 'Z';
+      case 'email':
+      case 'idn-email':
+        return `${this.word()}.${this.word()}@example.com`;
+      case 'uri':
+      case 'url':
+      case 'iri':
+        return `https://example.com/${this.word()}`;
+      case 'uri-reference':
+      case 'iri-reference':
+        return `/${this.word()}/${this.word()}`;
+      case 'hostname':
+      case 'idn-hostname':
+        return `${this.word()}.example.com`;
+      case 'ipv4':
+        return [10, ...Array.from({ length: 3 }, () => this.integer(0, 255))].join('.');
+      case 'ipv6':
+        return `2001:db8::${this.hex(4)}:${this.hex(4)}`;
+      case 'byte':
+        return Buffer.from(this.word()).toString('base64');
+      case 'binary':
+        return this.word();
+      case 'password':
+        return `${capitalize(this.word())}-${this.integer(100, 999)}!`;
+      case 'duration':
+        return `P${this.integer(1, 30)}D`;
+      default:
+        return undefined;
+    }
+  }
+
+  /** A string matching a regular expression, for the common subset: classes, groups, alternation and quantifiers. */
+  private fromPattern(pattern: string): string | undefined {
+    try {
+      const result = new PatternWriter(pattern, this.random).write();
+      return new RegExp(pattern).test(result) ? result : undefined;
+    } catch {
+      // Lookarounds, backreferences and the like aren't supported
+      return undefined;
+    }
+  }
+
+  private resolveRef(schema: any): any {
+    const seen = new Set<string>();
+    while (schema && typeof schema === 'object' && typeof schema.$ref === 'string' && !seen.has(schema.$ref)) {
+      seen.add(schema.$ref);
+      const name = componentName(schema.$ref);
+      if (!name || !this.schemas[name]) return null;
+      schema = this.schemas[name];
+    }
+    return schema;
+  }
+
+  // What the discriminator property holds for a variant: its mapping key, or else its component name
+  private discriminatorValue(discriminator: any, variant: any): string | undefined {
+    const names = Object.keys(this.schemas).filter(name => this.schemas[name] === variant);
+    for (const [key, target] of Object.entries<any>(discriminator.mapping || {})) {
+      if (typeof target !== 'string') continue;
+      if (names.includes(target.includes('/') ? componentName(target) ?? '' : target)) return key;
+    }
+    return names[0];
+  }
+
+  private mergeAllOf(schema: any): any {
+    if (!Array.isArray(schema?.allOf)) return schema;
+
+    const merged: any = { ...schema, properties: { ...(schema.properties || {}) }, required: [...(schema.required || [])] };
+    delete merged.allOf;
+    for (const member of schema.allOf) {
+      const part = this.mergeAllOf(this.resolveRef(member) || {});
+      Object.assign(merged.properties, part.properties || {});
+      merged.required.push(...(part.required || []));
+      for (const [key, value] of Object.entries(part)) {
+        if (!(key in merged)) merged[key] = value;
+      }
+    }
+    if (Object.keys(merged.properties).length === 0) delete merged.properties;
+    return merged;
+  }
+
+  private pick<T>(values: T[]): T {
+    return values[Math.floor(this.random() * values.length)];
+  }
+
+  private word(): string {
+    return this.pick(WORDS);
+  }
+
+  private integer(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private hex(length: number): string {
+    return Array.from({ length }, () => Math.floor(this.random() * 16).toString(16)).join('');
+  }
+
+  private uuid(): string {
+    const variant = (8 + Math.floor(this.random() * 4)).toString(16);
+    return `${this.hex(8)}-${this.hex(4)}-4${this.hex(3)}-${variant}${this.hex(3)}-${this.hex(12)}`;
+  }
+
+  private date(): Date {
+    // Whole seconds keep date-time examples readable
+    return new Date(BASE_TIME + Math.floor(this.random() * YEAR_MS / 1000) * 1000);
+  }
+}
+
+function componentName(ref: string): string | undefined {
+  const match = COMPONENT_REF.exec(ref);
+  return match ? decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~') : undefined;
+}
+
+export function generateExample(schema: any, schemas: Record<string, any> = {}, options: ExampleOptions = {}): any {
+  return new ExampleGenerator(schemas, options).generate(schema);
+}
+
+/**
+ * Writes a random string for a regular expression by walking it once: literals are copied,
+ * classes and `.` pick a character, groups pick an alternative, and quantifiers repeat up to
+ * a few times past their minimum. Anything it can't handle throws.
+ */
+class PatternWriter {
+  private position = 0;
+
+  constructor(private pattern: string, private random: () => number) {}
+
+  write(): string {
+    const result = this.alternatives();
+    if (this.position < this.pattern.length) throw new Error(`Unexpected ${this.pattern[this.position]}`);
+    return result;
+  }
+
+  private alternatives(): string {
+    const options = [this.sequence()];
+    while (this.pattern[this.position] === '|') {
+      this.position++;
+      options.push(this.sequence());
+    }
+    return options[Math.floor(this.random() * options.length)];
+  }
+
+  private sequence(): string {
+    let result = '';
+    while (this.position < this.pattern.length && this.pattern[this.position] !== '|' && this.pattern[this.position] !== ')') {
+      const atom = this.atom();
+      if (atom === undefined) continue;
+      const [min, max] = this.quantifier();
+      const count = min + Math.floor(this.random() * (Math.min(max, min + MAX_REPEAT) - min + 1));
+      for (let i = 0; i < count; i++) result += atom();
+    }
+    return result;
+  }
+
+  // Returns a function so every repetition of a class or group picks again
+  private atom(): (() => string) | undefined {
+    const char = this.pattern[this.position++];
+    switch (char) {
+      case '^':
+      case '$':
+        return undefined;
+      case '.':
+        return () => this.choose(CLASS_ESCAPES.w);
+      case '(': {
+        if (this.pattern[this.position] === '?') {
+          if (this.pattern[this.position + 1] !== ':') throw new Error('Unsupported group');
+          this.position += 2;
+        }
+        const start = this.position;
+        this.alternatives();
+        if (this.pattern[this.position++] !== ')') throw new Error('Unterminated group');
+        const group = this.pattern.slice(start, this.position - 1);
+        return () => new PatternWriter(group, this.random).write();
+      }
+      case '[': {
+        const characters = this.characterClass();
+        return () => this.choose(characters);
+      }
+      case '\\': {
+        const escaped = this.pattern[this.position++];
+        if (CLASS_ESCAPES[escaped]) return () => this.choose(CLASS_ESCAPES[escaped]);
+        if (/[1-9bBkpP]/.test(escaped)) throw new Error(`Unsupported escape \\${escaped}`);
+        return () => LITERAL_ESCAPES[escaped] ?? escaped;
+      }
+      case '*':
+      case '+':
+      case '?':
+      case '{':
+        throw new Error('Nothing to repeat');
+      default:
+        return () => char;
+    }
+  }
+
+  private characterClass(): string {
+    const negated = this.pattern[this.position] === '^';
+    if (negated) this.position++;
+
+    let characters = '';
+    while (this.pattern[this.position] !== ']') {
+      if (this.position >= this.pattern.length) throw new Error('Unterminated character class');
+      let char = this.pattern[this.position++];
+      if (char === '\\') {
+        const escaped = this.pattern[this.position++];
+        if (CLASS_ESCAPES[escaped]) {
+          characters += CLASS_ESCAPES[escaped];
+          continue;
+        }
+        char = LITERAL_ESCAPES[escaped] ?? escaped;
+      }
+      if (this.pattern[this.position] === '-' && this.pattern[this.position + 1] !== ']' && this.position + 1 < this.pattern.length) {
+        const end = this.pattern[this.position + 1] === '\\' ? this.pattern[this.position + 2] : this.pattern[this.position + 1];
+        this.position += this.pattern[this.position + 1] === '\\' ? 3 : 2;
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) characters += String.fromCharCode(code);
+      } else {
+        characters += char;
+      }
+    }
+    this.position++;
+
+    if (!negated) return characters;
+    const allowed = [...CLASS_ESCAPES.w, '-', ' '].filter(char => !characters.includes(char)).join('');
+    if (!allowed) throw new Error('Empty negated character class');
+    return allowed;
+  }
+
+  private quantifier(): [number, number] {
+    const char = this.pattern[this.position];
+    let range: [number, number] = [1, 1];
+    if (char === '?') range = [0, 1];
+    else if (char === '*') range = [0, Infinity];
+    else if (char === '+') range = [1, Infinity];
+    else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.position));
+      if (!match) return range;
+      const min = Number(match[1]);
+      range = [min, match[2] ? (match[3] ? Number(match[3]) : Infinity) : min];
+      this.position += match[0].length - 1;
+    } else {
+      return range;
+    }
+    this.position++;
+    // Lazy and possessive markers don't change what matches
+    if (this.pattern[this.position] === '?' || this.pattern[this.position] === '+') this.position++;
+    return range;
+  }
+
+  private choose(characters: string): string {
+    return characters[Math.floor(this.random() * characters.length)];
+  }
+}
+
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const DIGITS = '0123456789';
+
+const CLASS_ESCAPES: Record<string, string> = {
+  d: DIGITS,
+  w: `${LOWER}${LOWER.toUpperCase()}${DIGITS}_`,
+  s: ' ',
+  D: LOWER,
+  W: '-',
+  S: LOWER
+};
+
+const LITERAL_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r'
+};
+
+// mulberry32: small, fast and the same on every platform
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function schemaType(schema: any): string | undefined {
+  const types: string[] = Array.isArray(schema?.type) ? schema.type : schema?.type ? [schema.type] : [];
+  const type = types.find(candidate => candidate !== 'null') ?? types[0];
+  if (type) return type;
+  if (schema?.properties || schema?.additionalProperties) return 'object';
+  if (schema?.items || schema?.prefixItems) return 'array';
+  if (schema?.minimum !== undefined || schema?.maximum !== undefined) return 'number';
+  return undefined;
+}
+
+function decimals(step: number): number {
+  const text = String(step);
+  return text.includes('.') ? text.length - text.indexOf('.') - 1 : 0;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function clone(value: any): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,51 @@
+import { CapturedResponse } from './types.js';
+
+export interface HarExchange {
+  method: string;
+  url: string;
+  response: CapturedResponse;
+}
+
+// Bodies that are text once base64 is undone; anything else can't be checked against a schema
+const TEXT_MEDIA_TYPE = /^(text\/|application\/(.*[+/])?(json|xml|x-www-form-urlencoded|javascript)\b)/i;
+
+/**
+ * The request line and response of every entry in a HAR capture, as browsers' devtools and
+ * proxies export them. Entries without a response, such as aborted requests, are skipped.
+ */
+export function parseHar(content: string): HarExchange[] {
+  const har = JSON.parse(content);
+  const entries = har?.log?.entries;
+  if (!Array.isArray(entries)) throw new Error('Expected a HAR document with log.entries');
+
+  const exchanges: HarExchange[] = [];
+  for (const entry of entries) {
+    const request = entry?.request;
+    const response = entry?.response;
+    if (!request?.method || !request.url || !response?.status) continue;
+
+    const headers: Record<string, string> = {};
+    for (const header of Array.isArray(response.headers) ? response.headers : []) {
+      if (!header?.name) continue;
+      // Repeated headers are combined the way HTTP allows
+      const name = Object.keys(headers).find(existing => existing.toLowerCase() === header.name.toLowerCase()) || header.name;
+      headers[name] = headers[name] !== undefined ? `${headers[name]}, ${header.value}` : String(header.value ?? '');
+    }
+
+    const captured: CapturedResponse = { statusCode: String(response.status), headers };
+    const mimeType: string | undefined = response.content?.mimeType || undefined;
+    if (mimeType) captured.contentType = mimeType;
+
+    const text = response.content?.text;
+    if (typeof text === 'string' && text !== '') {
+      if (response.content.encoding !== 'base64') {
+        captured.body = text;
+      } else if (mimeType && TEXT_MEDIA_TYPE.test(mimeType)) {
+        captured.body = Buffer.from(text, 'base64').toString('utf-8');
+      }
+    }
+
+    exchanges.push({ method: String(request.method).toUpperCase(), url: request.url, response: captured });
+  }
+  return exchanges;
+}
@@ -4,9 +4,14 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { OpenAPIManager } from "./openapi-manager.js";
-import { QueryOptions, OutputFormat, DocumentationOptions } from "./types.js";
-import { createTransformer } from "./transformers.js";
+import { QueryOptions, OutputFormat, DocumentationOptions, FetchSettings, SnippetLanguage } from "./types.js";
+import { createTransformer, getDefaultOutputFormat } from "./transformers.js";
 import { DocumentationGenerator } from "./documentation-generator.js";
+import { TypeGenerator } from "./type-generator.js";
+import { ClientGenerator } from "./client-generator.js";
+import { LINT_RULES } from "./spec-linter.js";
+import { SpecDiffer } from "./spec-differ.js";
+import { WorkspaceLoader } from "./workspace-config.js";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -15,10 +20,20 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const packageJson = JSON.parse(readFileSync(join(__dirname, "../package.json"), "utf-8"));
 
+interface EndpointTarget {
+  path?: string;
+  method?: string;
+  operationId?: string;
+}
+
 class OpenAPIServer {
   private server: Server;
   private manager: OpenAPIManager;
   private docGenerator: DocumentationGenerator;
+  private typeGenerator: TypeGenerator;
+  private clientGenerator: ClientGenerator;
+  private specDiffer: SpecDiffer;
+  private workspace: WorkspaceLoader;
 
   constructor() {
     this.server = new Server(
@@ -35,6 +50,10 @@ class OpenAPIServer {
 
     this.manager = new OpenAPIManager();
     this.docGenerator = new DocumentationGenerator(this.manager);
+    this.typeGenerator = new TypeGenerator(this.manager);
+    this.clientGenerator = new ClientGenerator(this.manager);
+    this.specDiffer = new SpecDiffer(this.manager);
+    this.workspace = new WorkspaceLoader(this.manager);
     this.setupToolHandlers();
   }
 
@@ -44,18 +63,41 @@ class OpenAPIServer {
         tools: [
           {
             name: "initialize_session",
-            description: "Initialize a new session with an OpenAPI specification file or URL",
+            description: "Initialize a new session with an OpenAPI or AsyncAPI specification, or a Postman collection, from a file or URL. If a session for the same source already exists, it is returned instead, with any new name added as an alias and its output format and fetch settings unchanged",
             inputSchema: {
               type: "object",
               properties: {
                 source: {
                   type: "string",
-                  description: "Path to the OpenAPI JSON or YAML file, or URL to fetch the specification from"
+                  description: "Path to the OpenAPI or AsyncAPI JSON or YAML file (or Postman Collection v2.x JSON), or URL to fetch the specification from"
                 },
                 outputFormat: {
                   type: "string",
                   enum: ["json", "compact", "structured", "markdown"],
                   description: "Output format for responses (default: compact). Can be changed later with set_output_format."
+                },
+                name: {
+                  type: "string",
+                  description: "Optional: Human-readable session name (letters, digits, '.', '_' or '-') that can be used instead of the session ID"
+                },
+                aliases: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Additional names for the session"
+                },
+                headers: {
+                  type: "object",
+                  additionalProperties: { type: "string" },
+                  description: "Optional: Request headers for URL sources. Values may reference environment variables as ${NAME}, which are resolved on every fetch; only values with such references are saved with the session, literal ones are kept in memory until the server restarts"
+                },
+                auth: {
+                  type: "object",
+                  properties: {
+                    bearer: { type: "string", description: "Bearer token, e.g. ${API_TOKEN}" },
+                    username: { type: "string", description: "Basic auth username" },
+                    password: { type: "string", description: "Basic auth password, e.g. ${API_PASSWORD}" }
+                  },
+                  description: "Optional: Credentials for URL sources, as a bearer token or basic auth. A literal token or password is kept in memory only, together with its username; use ${NAME} references for credentials that should survive a restart"
                 }
               },
               required: ["source"]
@@ -69,7 +111,7 @@ class OpenAPIServer {
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID"
+                  description: "The session ID, name or alias"
                 },
                 outputFormat: {
                   type: "string",
@@ -102,7 +144,7 @@ class OpenAPIServer {
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID"
+                  description: "The session ID, name or alias"
                 },
                 tags: {
                   type: "array",
@@ -118,6 +160,38 @@ class OpenAPIServer {
               required: ["sessionId"]
             }
           },
+          {
+            name: "search_endpoints",
+            description: "Search endpoints by relevance to a free-text query, e.g. \"refund an invoice\". Matches paths, operationIds, summaries, descriptions, tags, parameter names and request/response property names, and shows where each result matched",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                query: {
+                  type: "string",
+                  description: "What to look for, in words or identifiers"
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Only search endpoints with these tags"
+                },
+                methods: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Only search endpoints with these HTTP methods"
+                },
+                limit: {
+                  type: "number",
+                  description: "Optional: Maximum number of results (default: 10)"
+                }
+              },
+              required: ["sessionId", "query"]
+            }
+          },
           {
             name: "get_endpoint_details",
             description: "Get detailed information about a specific endpoint with selective data retrieval for token optimization",
@@ -126,15 +200,19 @@ class OpenAPIServer {
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID"
+                  description: "The session ID, name or alias"
                 },
                 path: {
                   type: "string",
-                  description: "The endpoint path (e.g., '/users/{id}')"
+                  description: "The endpoint path (e.g., '/users/{id}'); not needed with operationId"
                 },
                 method: {
                   type: "string",
-                  description: "The HTTP method (GET, POST, PUT, DELETE, etc.)"
+                  description: "The HTTP method (GET, POST, PUT, DELETE, etc.); not needed with operationId"
+                },
+                operationId: {
+                  type: "string",
+                  description: "Look the endpoint up by operationId instead of path and method"
                 },
                 includeParameters: {
                   type: "boolean",
@@ -161,6 +239,16 @@ class OpenAPIServer {
                   description: "Include examples in schemas",
                   default: false
                 },
+                generateExamples: {
+                  type: "boolean",
+                  description: "Generate examples from the schema for request and response bodies the spec has none for",
+                  default: false
+                },
+                exampleSeed: {
+                  type: "number",
+                  description: "Seed for generated examples; the same seed always gives the same examples",
+                  default: 1
+                },
                 includeSchemas: {
                   type: "boolean",
                   description: "Include detailed schema information",
@@ -170,9 +258,51 @@ class OpenAPIServer {
                   type: "array",
                   items: { type: "string" },
                   description: "Filter responses by status codes (e.g., ['200', '400'])"
+                },
+                contentTypes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Preferred media types for request bodies and responses (e.g., ['application/json'] or ['multipart/*']); others are left out where one of these is available"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "match_request",
+            description: "Find the endpoint a concrete request was made to, e.g. 'GET https://api.example.com/v1/users/42?limit=5' from a log, with the path and query parameter values extracted",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                request: {
+                  type: "string",
+                  description: "The request URL, optionally preceded by its method (e.g., 'GET https://api.example.com/v1/users/42?limit=5' or '/v1/users/42')"
+                },
+                method: {
+                  type: "string",
+                  description: "The HTTP method, when the request doesn't start with one"
+                },
+                includeParameters: {
+                  type: "boolean",
+                  description: "Include the endpoint's parameter definitions",
+                  default: true
+                },
+                includeRequestBody: {
+                  type: "boolean",
+                  description: "Include request body schema",
+                  default: false
+                },
+                includeResponses: {
+                  type: "boolean",
+                  description: "Include response information",
+                  default: false
                 }
               },
-              required: ["sessionId", "path", "method"]
+              required: ["sessionId", "request"]
             }
           },
           {
@@ -183,7 +313,7 @@ class OpenAPIServer {
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID"
+                  description: "The session ID, name or alias"
                 }
               },
               required: ["sessionId"]
@@ -197,7 +327,7 @@ class OpenAPIServer {
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID"
+                  description: "The session ID, name or alias"
                 },
                 componentType: {
                   type: "string",
@@ -208,156 +338,1015 @@ class OpenAPIServer {
             }
           },
           {
-            name: "remove_session",
-            description: "Remove a session and free up memory",
+            name: "get_schema",
+            description: "Explore one schema a few levels deep instead of whole component maps: a component schema by name, or an endpoint's request or response body, optionally drilled into with a property path. Constraints are shown and circular references are marked rather than expanded",
             inputSchema: {
               type: "object",
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID to remove"
+                  description: "The session ID, name or alias"
+                },
+                schema: {
+                  type: "string",
+                  description: "Component schema name (e.g., 'Order')"
+                },
+                propertyPath: {
+                  type: "string",
+                  description: "Property path to drill into, with [] for array items (e.g., 'items[].product.price'); may start with the schema name, as in 'Order.items[].product'"
+                },
+                path: {
+                  type: "string",
+                  description: "Endpoint path, to explore its request or response body instead of a named schema"
+                },
+                method: {
+                  type: "string",
+                  description: "Endpoint HTTP method"
+                },
+                operationId: {
+                  type: "string",
+                  description: "Endpoint operationId, instead of path and method"
+                },
+                location: {
+                  type: "string",
+                  enum: ["request", "response"],
+                  description: "Which endpoint body to explore",
+                  default: "response"
+                },
+                statusCode: {
+                  type: "string",
+                  description: "Response status code; defaults to the first 2xx response"
+                },
+                contentType: {
+                  type: "string",
+                  description: "Media type of the body; defaults to the first one"
+                },
+                depth: {
+                  type: "number",
+                  description: "How many property levels to expand",
+                  default: 2
                 }
               },
               required: ["sessionId"]
             }
           },
           {
-            name: "generate_documentation",
-            description: "Generate comprehensive markdown documentation for the API and return the file path",
+            name: "generate_example",
+            description: "Generate a realistic example value from a schema: a component schema by name, or an endpoint's request or response body. Examples, defaults, enums, formats, bounds and patterns in the schema are honored, readOnly properties are left out of requests and writeOnly ones out of responses, and the same seed always gives the same example",
             inputSchema: {
               type: "object",
               properties: {
                 sessionId: {
                   type: "string",
-                  description: "The session ID"
+                  description: "The session ID, name or alias"
                 },
-                outputDirectory: {
+                schema: {
                   type: "string",
-                  description: "Directory to save the documentation file (default: current working directory)"
+                  description: "Component schema name (e.g., 'Order')"
                 },
-                filename: {
+                propertyPath: {
                   type: "string",
-                  description: "Filename for the documentation (default: auto-generated from API title)"
+                  description: "Property path to generate an example for, with [] for array items (e.g., 'Order.items[]')"
                 },
-                format: {
+                path: {
                   type: "string",
-                  enum: ["markdown", "html"],
-                  description: "Output format: 'markdown' for .md file or 'html' for interactive HTML documentation (default: markdown)"
+                  description: "Endpoint path, to generate its request or response body instead of a named schema"
                 },
-                includeTableOfContents: {
-                  type: "boolean",
-                  description: "Include table of contents (default: true)"
+                method: {
+                  type: "string",
+                  description: "Endpoint HTTP method"
                 },
-                includeEndpoints: {
-                  type: "boolean",
-                  description: "Include endpoints documentation (default: true)"
+                operationId: {
+                  type: "string",
+                  description: "Endpoint operationId, instead of path and method"
                 },
-                includeComponents: {
-                  type: "boolean",
-                  description: "Include components/schemas documentation (default: true)"
+                location: {
+                  type: "string",
+                  enum: ["request", "response"],
+                  description: "Which endpoint body to generate",
+                  default: "response"
                 },
-                includeSecurity: {
-                  type: "boolean",
-                  description: "Include security information in endpoints (default: true)"
+                statusCode: {
+                  type: "string",
+                  description: "Response status code; defaults to the first 2xx response"
                 },
-                includeExamples: {
-                  type: "boolean",
-                  description: "Include examples in documentation (default: false)"
+                contentType: {
+                  type: "string",
+                  description: "Media type of the body; defaults to the first one"
                 },
-                groupByTags: {
-                  type: "boolean",
-                  description: "Group endpoints by tags (default: true)"
+                direction: {
+                  type: "string",
+                  enum: ["request", "response"],
+                  description: "Whether the value is sent or received, which decides whether readOnly or writeOnly properties are left out; defaults to the endpoint location, or response for component schemas"
+                },
+                seed: {
+                  type: "number",
+                  description: "Seed for the generated values",
+                  default: 1
                 }
               },
               required: ["sessionId"]
             }
-          }
-        ]
-      };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case "initialize_session": {
-            const { source, outputFormat } = args as { source: string; outputFormat?: OutputFormat };
-            const sessionId = await this.manager.initializeSession(source, outputFormat);
-            
-            const transformer = createTransformer(outputFormat || 'compact');
-            const responseText = transformer.transformSuccess({
-              success: true,
-              sessionId,
-              message: `Session initialized successfully for ${source}`
-            });
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
+          },
+          {
+            name: "validate_request",
+            description: "Check a request against an operation before sending it or writing code for it: required parameters, types, enums, formats, additionalProperties, discriminated oneOf variants and readOnly fields, using a JSON Schema validator. Errors come back with JSON Pointer paths such as /body/items/0/price or /query/limit",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                path: {
+                  type: "string",
+                  description: "The endpoint path (e.g., '/users/{id}')"
+                },
+                method: {
+                  type: "string",
+                  description: "The HTTP method (GET, POST, etc.)"
+                },
+                operationId: {
+                  type: "string",
+                  description: "Look the endpoint up by operationId instead of path and method"
+                },
+                pathParameters: {
+                  type: "object",
+                  description: "Path parameter values by name"
+                },
+                queryParameters: {
+                  type: "object",
+                  description: "Query parameter values by name; strings are coerced as they would be on the wire"
+                },
+                headers: {
+                  type: "object",
+                  description: "Header values by name"
+                },
+                cookies: {
+                  type: "object",
+                  description: "Cookie values by name"
+                },
+                body: {
+                  description: "The request body, as a value or as JSON text"
+                },
+                contentType: {
+                  type: "string",
+                  description: "Media type of the body; defaults to the JSON one, or the first the operation accepts"
                 }
-              ]
-            };
-          }
-
-          case "set_output_format": {
-            const { sessionId, outputFormat } = args as { sessionId: string; outputFormat: OutputFormat };
-            const success = await this.manager.setSessionOutputFormat(sessionId, outputFormat);
-            
-            if (!success) {
-              throw new Error("Session not found");
+              },
+              required: ["sessionId"]
             }
-            
-            const transformer = createTransformer(outputFormat);
-            const responseText = transformer.transformSuccess({
-              success: true,
-              message: `Output format changed to ${outputFormat}`
-            });
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
+          },
+          {
+            name: "validate_response",
+            description: "Check a received response against what the operation documents for its status code (falling back to ranges such as 2XX, then default): required headers, content type and body schema, with JSON Pointer paths for every violation. Alternatively, pass a HAR file to check every recorded exchange and get a conformance report per operation",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                path: {
+                  type: "string",
+                  description: "The endpoint path (e.g., '/users/{id}')"
+                },
+                method: {
+                  type: "string",
+                  description: "The HTTP method (GET, POST, etc.)"
+                },
+                operationId: {
+                  type: "string",
+                  description: "Look the endpoint up by operationId instead of path and method"
+                },
+                statusCode: {
+                  type: ["string", "number"],
+                  description: "The response status code (e.g., 200)"
+                },
+                headers: {
+                  type: "object",
+                  description: "Response headers by name"
+                },
+                body: {
+                  description: "The response body, as a value or as JSON text"
+                },
+                contentType: {
+                  type: "string",
+                  description: "Media type of the body; defaults to the Content-Type header"
+                },
+                harFile: {
+                  type: "string",
+                  description: "Path to a HAR file whose recorded exchanges are all checked, instead of a single response"
                 }
-              ]
-            };
-          }
-
-          case "get_session_info": {
-            const { sessionId } = args as { sessionId: string };
-            const info = await this.manager.getSessionInfo(sessionId);
-            if (!info) {
-              throw new Error("Session not found");
+              },
+              required: ["sessionId"]
             }
-            
-            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
-            const transformer = createTransformer(format);
-            const responseText = transformer.transformSessionInfo(info);
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          }
-
-          case "list_endpoints": {
-            const { sessionId, tags, methods } = args as { sessionId: string; tags?: string[]; methods?: string[] };
-            const endpoints = await this.manager.listEndpoints(sessionId, tags, methods);
-            
-            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
-            const transformer = createTransformer(format);
-            const responseText = transformer.transformEndpointsList({
-              count: endpoints.length,
-              endpoints
+          },
+          {
+            name: "generate_snippet",
+            description: "Generate ready-to-run code calling an operation in curl, JavaScript fetch, Node axios, Python requests and Go net/http, with the session's base URL, required parameters filled with example values, the request content type and placeholder credentials for the operation's security",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                path: {
+                  type: "string",
+                  description: "The endpoint path (e.g., '/users/{id}')"
+                },
+                method: {
+                  type: "string",
+                  description: "The HTTP method (GET, POST, etc.)"
+                },
+                operationId: {
+                  type: "string",
+                  description: "Look the endpoint up by operationId instead of path and method"
+                },
+                languages: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: ["curl", "fetch", "axios", "python", "go"]
+                  },
+                  description: "Languages to generate (default: all)"
+                },
+                seed: {
+                  type: "number",
+                  description: "Seed for values generated where the spec has no example (default: 1)"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "find_schema_usages",
+            description: "Find every operation, parameter, request body, response and parent schema that uses a component schema, directly or through other schemas, to see the blast radius of changing it",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                schema: {
+                  type: "string",
+                  description: "Component schema name (e.g., 'Product')"
+                },
+                transitive: {
+                  type: "boolean",
+                  description: "Include users that reach the schema through other schemas and components",
+                  default: true
+                }
+              },
+              required: ["sessionId", "schema"]
+            }
+          },
+          {
+            name: "list_channels",
+            description: "List channels and their operations in an AsyncAPI specification",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Filter operations by tags"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "get_message",
+            description: "Get message payload and header schemas from an AsyncAPI specification",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                channel: {
+                  type: "string",
+                  description: "Optional: Channel name or address to get messages for"
+                },
+                operationId: {
+                  type: "string",
+                  description: "Optional: Operation ID to get messages for"
+                },
+                messageName: {
+                  type: "string",
+                  description: "Optional: Name of a specific message"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "list_servers",
+            description: "List servers and protocols in an AsyncAPI specification",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "lint_spec",
+            description: "Lint an OpenAPI or Swagger specification and report findings with JSON Pointer locations and severities",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                rules: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: LINT_RULES.map(rule => rule.id)
+                  },
+                  description: `Optional: Only run these rules. Available: ${LINT_RULES.map(rule => `${rule.id} (${rule.description})`).join('; ')}`
+                },
+                rulesFile: {
+                  type: "string",
+                  description: "Optional: Path to a JSON or YAML rules file, e.g. { \"rules\": { \"path-casing\": \"off\", \"operation-id-required\": \"error\" } }, setting each rule to error, warn, info or off"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "diff_specs",
+            description: "Compare two sessions (e.g. v1 and v2 of an API), classify each change as breaking or non-breaking and recommend a semver bump",
+            inputSchema: {
+              type: "object",
+              properties: {
+                baseSessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias of the older spec"
+                },
+                headSessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias of the newer spec"
+                },
+                writeChangelog: {
+                  type: "boolean",
+                  description: "Also write a Markdown changelog file (default: false)"
+                },
+                outputDirectory: {
+                  type: "string",
+                  description: "Directory to save the changelog file (default: current working directory)"
+                },
+                filename: {
+                  type: "string",
+                  description: "Filename for the changelog (default: auto-generated from API title)"
+                }
+              },
+              required: ["baseSessionId", "headSessionId"]
+            }
+          },
+          {
+            name: "refresh_session",
+            description: "Reload a session's spec from its source, keeping the session ID. URL sources use ETag/Last-Modified conditional requests; file sources are also reloaded automatically when they change on disk",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "cache_stats",
+            description: "Show the offline spec cache: cached sources, sizes, and whether offline mode (JANUS_OFFLINE) is on",
+            inputSchema: {
+              type: "object",
+              properties: {
+                outputFormat: {
+                  type: "string",
+                  enum: ["json", "compact", "structured", "markdown"],
+                  description: "Optional: Output format for this response (default: JANUS_OUTPUT_FORMAT or compact)"
+                }
+              }
+            }
+          },
+          {
+            name: "purge_cache",
+            description: "Delete cached specs, either for one source or the whole cache",
+            inputSchema: {
+              type: "object",
+              properties: {
+                source: {
+                  type: "string",
+                  description: "Optional: File path or URL whose cache entry should be removed (default: purge everything)"
+                }
+              }
+            }
+          },
+          {
+            name: "list_sessions",
+            description: "List all sessions with their names, sources, API titles and versions, output formats and access times, plus the workspace config in use and any specs in it that failed to load",
+            inputSchema: {
+              type: "object",
+              properties: {
+                outputFormat: {
+                  type: "string",
+                  enum: ["json", "compact", "structured", "markdown"],
+                  description: "Optional: Output format for this response (default: JANUS_OUTPUT_FORMAT or compact)"
+                }
+              }
+            }
+          },
+          {
+            name: "rename_session",
+            description: "Set or change a session's name and aliases",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                name: {
+                  type: "string",
+                  description: "New session name (letters, digits, '.', '_' or '-'); an empty string removes the name"
+                },
+                aliases: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Replacement list of aliases (default: keep existing aliases)"
+                }
+              },
+              required: ["sessionId", "name"]
+            }
+          },
+          {
+            name: "remove_session",
+            description: "Remove a session and free up memory",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID to remove"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "generate_documentation",
+            description: "Generate comprehensive markdown documentation for the API and return the file path",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                outputDirectory: {
+                  type: "string",
+                  description: "Directory to save the documentation file (default: current working directory)"
+                },
+                filename: {
+                  type: "string",
+                  description: "Filename for the documentation (default: auto-generated from API title)"
+                },
+                format: {
+                  type: "string",
+                  enum: ["markdown", "html"],
+                  description: "Output format: 'markdown' for .md file or 'html' for interactive HTML documentation (default: markdown)"
+                },
+                includeTableOfContents: {
+                  type: "boolean",
+                  description: "Include table of contents (default: true)"
+                },
+                includeEndpoints: {
+                  type: "boolean",
+                  description: "Include endpoints documentation (default: true)"
+                },
+                includeComponents: {
+                  type: "boolean",
+                  description: "Include components/schemas documentation (default: true)"
+                },
+                includeSecurity: {
+                  type: "boolean",
+                  description: "Include security information in endpoints (default: true)"
+                },
+                includeExamples: {
+                  type: "boolean",
+                  description: "Include examples in documentation (default: false)"
+                },
+                generateExamples: {
+                  type: "boolean",
+                  description: "Generate examples from the schema for bodies the spec has none for (default: false)"
+                },
+                exampleSeed: {
+                  type: "number",
+                  description: "Seed for generated examples (default: 1)"
+                },
+                includeSnippets: {
+                  type: "boolean",
+                  description: "Include client code samples for each endpoint (default: false)"
+                },
+                snippetLanguages: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: ["curl", "fetch", "axios", "python", "go"]
+                  },
+                  description: "Languages for code samples (default: all)"
+                },
+                groupByTags: {
+                  type: "boolean",
+                  description: "Group endpoints by tags (default: true)"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "generate_types",
+            description: "Generate a TypeScript module with an interface or type alias for every component schema, and Params, Body and Response types for every operation keyed by operationId. Returns the code, or writes it to a .ts file when outputDirectory is given",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                outputDirectory: {
+                  type: "string",
+                  description: "Directory to save the .ts file in (default: return the code instead)"
+                },
+                filename: {
+                  type: "string",
+                  description: "Filename for the types (default: auto-generated from API title)"
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Only generate types for operations with these tags, and the schemas they use"
+                },
+                zod: {
+                  type: "boolean",
+                  description: "Also emit Zod schemas for every component and operation, with an operationSchemas index by operationId for validating requests and responses at runtime (default: false)"
+                },
+                includeErrors: {
+                  type: "boolean",
+                  description: "Also emit an Errors type per operation mapping each documented non-2xx status code to its body (default: false)"
+                }
+              },
+              required: ["sessionId"]
+            }
+          },
+          {
+            name: "generate_client",
+            description: "Generate a fetch-based TypeScript SDK: one class per tag with a method per operation named from its operationId, typed params, bodies, responses and documented errors, a pluggable auth hook, a configurable base URL, and iterators for list operations whose pagination can be detected. Regenerating an unchanged spec writes identical files",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sessionId: {
+                  type: "string",
+                  description: "The session ID, name or alias"
+                },
+                outputDirectory: {
+                  type: "string",
+                  description: "Directory to write the SDK into (default: current working directory)"
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Only generate the classes for these tags"
+                }
+              },
+              required: ["sessionId"]
+            }
+          }
+        ]
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        // Sessions from the workspace config must exist before any tool can use them
+        await this.workspace.ready;
+
+        switch (name) {
+          case "initialize_session": {
+            const { source, outputFormat, name, aliases, headers, auth } = args as {
+              source: string;
+              outputFormat?: OutputFormat;
+              name?: string;
+              aliases?: string[];
+              headers?: Record<string, string>;
+              auth?: FetchSettings['auth'];
+            };
+            const fetch: FetchSettings | undefined = headers || auth ? { headers, auth } : undefined;
+            const { sessionId, reused } = await this.manager.initializeSession(source, outputFormat, { name, aliases, fetch });
+            
+            const transformer = createTransformer(outputFormat || 'compact');
+            const responseText = transformer.transformSuccess({
+              success: true,
+              sessionId,
+              message: reused
+                ? `Using existing session for ${source}; its output format and fetch settings are unchanged`
+                : `Session initialized successfully for ${source}`
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "set_output_format": {
+            const { sessionId, outputFormat } = args as { sessionId: string; outputFormat: OutputFormat };
+            const success = await this.manager.setSessionOutputFormat(sessionId, outputFormat);
+            
+            if (!success) {
+              throw new Error("Session not found");
+            }
+            
+            const transformer = createTransformer(outputFormat);
+            const responseText = transformer.transformSuccess({
+              success: true,
+              message: `Output format changed to ${outputFormat}`
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "get_session_info": {
+            const { sessionId } = args as { sessionId: string };
+            const info = await this.manager.getSessionInfo(sessionId);
+            if (!info) {
+              throw new Error("Session not found");
+            }
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformSessionInfo(info);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "search_endpoints": {
+            const { sessionId, query, tags, methods, limit = 10 } = args as {
+              sessionId: string;
+              query: string;
+              tags?: string[];
+              methods?: string[];
+              limit?: number;
+            };
+            const results = await this.manager.searchEndpoints(sessionId, query, { tags, methods, limit });
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformSearchResults({
+              query,
+              count: results.length,
+              results
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "list_endpoints": {
+            const { sessionId, tags, methods } = args as { sessionId: string; tags?: string[]; methods?: string[] };
+            const endpoints = await this.manager.listEndpoints(sessionId, tags, methods);
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformEndpointsList({
+              count: endpoints.length,
+              endpoints
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "get_endpoint_details": {
+            const {
+              sessionId,
+              includeParameters = true,
+              includeRequestBody = true,
+              includeResponses = true,
+              includeSecurity = false,
+              includeExamples = false,
+              generateExamples = false,
+              exampleSeed,
+              includeSchemas = true,
+              responseStatusCodes,
+              contentTypes
+            } = args as {
+              sessionId: string;
+              path?: string;
+              method?: string;
+              operationId?: string;
+              includeParameters?: boolean;
+              includeRequestBody?: boolean;
+              includeResponses?: boolean;
+              includeSecurity?: boolean;
+              includeExamples?: boolean;
+              generateExamples?: boolean;
+              exampleSeed?: number;
+              includeSchemas?: boolean;
+              responseStatusCodes?: string[];
+              contentTypes?: string[];
+            };
+
+            const options: QueryOptions = {
+              includeParameters,
+              includeRequestBody,
+              includeResponses,
+              includeSecurity,
+              includeExamples,
+              generateExamples,
+              exampleSeed,
+              includeSchemas,
+              responseStatusCodes,
+              contentTypes
+            };
+
+            const { path, method } = await this.resolveEndpoint(sessionId, args as EndpointTarget);
+
+            const details = await this.manager.getEndpointDetails(sessionId, path, method, options);
+            if (!details) {
+              throw new Error(`Endpoint not found: ${method.toUpperCase()} ${path}`);
+            }
+
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformEndpointDetails(details);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "match_request": {
+            const {
+              sessionId,
+              request,
+              method,
+              includeParameters = true,
+              includeRequestBody = false,
+              includeResponses = false
+            } = args as {
+              sessionId: string;
+              request: string;
+              method?: string;
+              includeParameters?: boolean;
+              includeRequestBody?: boolean;
+              includeResponses?: boolean;
+            };
+
+            const match = await this.manager.matchRequest(sessionId, request, method, {
+              includeParameters,
+              includeRequestBody,
+              includeResponses,
+              includeSchemas: true
+            });
+            if (!match) {
+              throw new Error(`No endpoint matches ${request}`);
+            }
+
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformRequestMatch(match);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "get_tags": {
+            const { sessionId } = args as { sessionId: string };
+            const tags = await this.manager.getTags(sessionId);
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformTags({
+              count: tags.length,
+              tags
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "get_components": {
+            const { sessionId, componentType } = args as { sessionId: string; componentType?: string };
+            const components = await this.manager.getComponents(sessionId, componentType);
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformComponents(components);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "get_schema": {
+            const {
+              sessionId,
+              schema,
+              propertyPath,
+              location,
+              statusCode,
+              contentType,
+              depth = 2
+            } = args as {
+              sessionId: string;
+              schema?: string;
+              propertyPath?: string;
+              path?: string;
+              method?: string;
+              operationId?: string;
+              location?: 'request' | 'response';
+              statusCode?: string;
+              contentType?: string;
+              depth?: number;
+            };
+
+            const { path, method } = await this.findEndpoint(sessionId, args as EndpointTarget);
+
+            const view = await this.manager.getSchema(
+              sessionId,
+              { schema, path, method, location, statusCode, contentType },
+              { propertyPath, depth }
+            );
+
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformSchema(view);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "generate_example": {
+            const {
+              sessionId,
+              schema,
+              propertyPath,
+              location,
+              statusCode,
+              contentType,
+              direction,
+              seed
+            } = args as {
+              sessionId: string;
+              schema?: string;
+              propertyPath?: string;
+              path?: string;
+              method?: string;
+              operationId?: string;
+              location?: 'request' | 'response';
+              statusCode?: string;
+              contentType?: string;
+              direction?: 'request' | 'response';
+              seed?: number;
+            };
+
+            const { path, method } = await this.findEndpoint(sessionId, args as EndpointTarget);
+
+            const example = await this.manager.generateExample(
+              sessionId,
+              { schema, path, method, location, statusCode, contentType },
+              { propertyPath, seed, direction }
+            );
+
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformExample(example);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "validate_request": {
+            const {
+              sessionId,
+              pathParameters,
+              queryParameters,
+              headers,
+              cookies,
+              body,
+              contentType
+            } = args as {
+              sessionId: string;
+              path?: string;
+              method?: string;
+              operationId?: string;
+              pathParameters?: Record<string, any>;
+              queryParameters?: Record<string, any>;
+              headers?: Record<string, any>;
+              cookies?: Record<string, any>;
+              body?: any;
+              contentType?: string;
+            };
+
+            const { path, method } = await this.resolveEndpoint(sessionId, args as EndpointTarget);
+
+            const report = await this.manager.validateRequest(sessionId, path, method, {
+              pathParameters,
+              queryParameters,
+              headers,
+              cookies,
+              body,
+              contentType
             });
-            
+
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformValidationReport(report);
+
             return {
               content: [
                 {
@@ -368,49 +1357,81 @@ class OpenAPIServer {
             };
           }
 
-          case "get_endpoint_details": {
+          case "validate_response": {
             const {
               sessionId,
-              path,
-              method,
-              includeParameters = true,
-              includeRequestBody = true,
-              includeResponses = true,
-              includeSecurity = false,
-              includeExamples = false,
-              includeSchemas = true,
-              responseStatusCodes
+              statusCode,
+              headers,
+              body,
+              contentType,
+              harFile
             } = args as {
               sessionId: string;
-              path: string;
-              method: string;
-              includeParameters?: boolean;
-              includeRequestBody?: boolean;
-              includeResponses?: boolean;
-              includeSecurity?: boolean;
-              includeExamples?: boolean;
-              includeSchemas?: boolean;
-              responseStatusCodes?: string[];
+              path?: string;
+              method?: string;
+              operationId?: string;
+              statusCode?: string | number;
+              headers?: Record<string, any>;
+              body?: any;
+              contentType?: string;
+              harFile?: string;
             };
 
-            const options: QueryOptions = {
-              includeParameters,
-              includeRequestBody,
-              includeResponses,
-              includeSecurity,
-              includeExamples,
-              includeSchemas,
-              responseStatusCodes
-            };
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
 
-            const details = await this.manager.getEndpointDetails(sessionId, path, method, options);
-            if (!details) {
-              throw new Error(`Endpoint not found: ${method.toUpperCase()} ${path}`);
+            if (harFile) {
+              const report = await this.manager.validateHar(sessionId, harFile);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: transformer.transformConformanceReport(report)
+                  }
+                ]
+              };
+            }
+
+            const { path, method } = await this.resolveEndpoint(sessionId, args as EndpointTarget, 'operationId, or a harFile');
+            if (statusCode === undefined) {
+              throw new Error('Provide the statusCode of the response');
             }
 
+            const report = await this.manager.validateResponse(sessionId, path, method, {
+              statusCode: String(statusCode),
+              headers,
+              body,
+              contentType
+            });
+            const responseText = transformer.transformValidationReport(report);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "generate_snippet": {
+            const { sessionId, languages, seed } = args as {
+              sessionId: string;
+              path?: string;
+              method?: string;
+              operationId?: string;
+              languages?: SnippetLanguage[];
+              seed?: number;
+            };
+
+            const { path, method } = await this.resolveEndpoint(sessionId, args as EndpointTarget);
+
+            const snippets = await this.manager.generateSnippets(sessionId, path, method, { languages, seed });
+
             const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
             const transformer = createTransformer(format);
-            const responseText = transformer.transformEndpointDetails(details);
+            const responseText = transformer.transformSnippets(snippets);
 
             return {
               content: [
@@ -422,15 +1443,84 @@ class OpenAPIServer {
             };
           }
 
-          case "get_tags": {
+          case "find_schema_usages": {
+            const { sessionId, schema, transitive = true } = args as {
+              sessionId: string;
+              schema: string;
+              transitive?: boolean;
+            };
+            const usages = await this.manager.findSchemaUsages(sessionId, schema, transitive);
+
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformSchemaUsages(usages);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "list_channels": {
+            const { sessionId, tags } = args as { sessionId: string; tags?: string[] };
+            const channels = await this.manager.listChannels(sessionId, tags);
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformChannels({
+              count: channels.length,
+              channels
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "get_message": {
+            const { sessionId, channel, operationId, messageName } = args as {
+              sessionId: string;
+              channel?: string;
+              operationId?: string;
+              messageName?: string;
+            };
+            const messages = await this.manager.getMessages(sessionId, { channel, operationId, messageName });
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformMessages({
+              count: messages.length,
+              messages
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "list_servers": {
             const { sessionId } = args as { sessionId: string };
-            const tags = await this.manager.getTags(sessionId);
+            const servers = await this.manager.listServers(sessionId);
             
             const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
             const transformer = createTransformer(format);
-            const responseText = transformer.transformTags({
-              count: tags.length,
-              tags
+            const responseText = transformer.transformServers({
+              count: servers.length,
+              servers
             });
             
             return {
@@ -443,13 +1533,148 @@ class OpenAPIServer {
             };
           }
 
-          case "get_components": {
-            const { sessionId, componentType } = args as { sessionId: string; componentType?: string };
-            const components = await this.manager.getComponents(sessionId, componentType);
+          case "lint_spec": {
+            const { sessionId, rules, rulesFile } = args as {
+              sessionId: string;
+              rules?: string[];
+              rulesFile?: string;
+            };
+            const report = await this.manager.lintSpec(sessionId, { rules, rulesFile });
             
             const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
             const transformer = createTransformer(format);
-            const responseText = transformer.transformComponents(components);
+            const responseText = transformer.transformLintReport(report);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "diff_specs": {
+            const { baseSessionId, headSessionId, writeChangelog = false, outputDirectory, filename } = args as {
+              baseSessionId: string;
+              headSessionId: string;
+              writeChangelog?: boolean;
+              outputDirectory?: string;
+              filename?: string;
+            };
+            const diff = await this.specDiffer.diffSpecs(baseSessionId, headSessionId);
+            if (writeChangelog) {
+              diff.changelogPath = await this.specDiffer.writeChangelog(diff, { outputDirectory, filename });
+            }
+            
+            const format = await this.manager.getSessionOutputFormat(headSessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformSpecDiff(diff);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "refresh_session": {
+            const { sessionId } = args as { sessionId: string };
+            const reloaded = await this.manager.reloadSession(sessionId);
+            
+            const format = await this.manager.getSessionOutputFormat(sessionId) || 'compact';
+            const transformer = createTransformer(format);
+            const responseText = transformer.transformSuccess({
+              success: true,
+              message: reloaded ? "Session reloaded from source" : "Spec not modified since it was last loaded"
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "cache_stats": {
+            const { outputFormat } = (args || {}) as { outputFormat?: OutputFormat };
+            const stats = await this.manager.getCacheStats();
+            
+            const transformer = createTransformer(outputFormat || getDefaultOutputFormat());
+            const responseText = transformer.transformCacheStats(stats);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "purge_cache": {
+            const { source } = (args || {}) as { source?: string };
+            const purged = await this.manager.purgeCache(source);
+            
+            const transformer = createTransformer('compact');
+            const responseText = transformer.transformSuccess({
+              success: true,
+              message: `Purged ${purged} cache ${purged === 1 ? 'entry' : 'entries'}`
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "list_sessions": {
+            const { outputFormat } = (args || {}) as { outputFormat?: OutputFormat };
+            const sessions = await this.manager.listSessions();
+            
+            const transformer = createTransformer(outputFormat || getDefaultOutputFormat());
+            const responseText = transformer.transformSessionList({
+              count: sessions.length,
+              sessions,
+              workspace: this.workspace.getStatus() || undefined
+            });
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "rename_session": {
+            const { sessionId, name, aliases } = args as { sessionId: string; name: string; aliases?: string[] };
+            const current = await this.manager.getSession(sessionId);
+            if (!current) {
+              throw new Error("Session not found");
+            }
+            const session = await this.manager.renameSession(current.id, name, aliases ?? current.aliases);
+            
+            const transformer = createTransformer(session.outputFormat);
+            const responseText = transformer.transformSuccess({
+              success: true,
+              sessionId: session.id,
+              message: session.name ? `Session renamed to ${session.name}` : "Session name removed"
+            });
             
             return {
               content: [
@@ -492,6 +1717,10 @@ class OpenAPIServer {
               includeComponents,
               includeSecurity,
               includeExamples,
+              generateExamples,
+              exampleSeed,
+              includeSnippets,
+              snippetLanguages,
               groupByTags
             } = args as {
               sessionId: string;
@@ -503,6 +1732,10 @@ class OpenAPIServer {
               includeComponents?: boolean;
               includeSecurity?: boolean;
               includeExamples?: boolean;
+              generateExamples?: boolean;
+              exampleSeed?: number;
+              includeSnippets?: boolean;
+              snippetLanguages?: SnippetLanguage[];
               groupByTags?: boolean;
             };
 
@@ -515,6 +1748,10 @@ class OpenAPIServer {
               includeComponents,
               includeSecurity,
               includeExamples,
+              generateExamples,
+              exampleSeed,
+              includeSnippets,
+              snippetLanguages,
               groupByTags
             };
 
@@ -536,6 +1773,61 @@ class OpenAPIServer {
             };
           }
 
+          case "generate_types": {
+            const { sessionId, outputDirectory, filename, tags, zod, includeErrors } = args as {
+              sessionId: string;
+              outputDirectory?: string;
+              filename?: string;
+              tags?: string[];
+              zod?: boolean;
+              includeErrors?: boolean;
+            };
+
+            const result = await this.typeGenerator.generateTypes(sessionId, { outputDirectory, filename, tags, zod, includeErrors });
+
+            // Code is returned as is, so it can be pasted without unwrapping it from a format
+            const responseText = result.filePath
+              ? createTransformer('compact').transformSuccess({
+                  success: true,
+                  message: `Types generated successfully at: ${result.filePath}`
+                })
+              : result.code;
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
+          case "generate_client": {
+            const { sessionId, outputDirectory, tags } = args as {
+              sessionId: string;
+              outputDirectory?: string;
+              tags?: string[];
+            };
+
+            const files = await this.clientGenerator.generateClient(sessionId, { outputDirectory, tags });
+
+            const transformer = createTransformer('compact');
+            const responseText = transformer.transformSuccess({
+              success: true,
+              message: `Client generated successfully: ${files.join(', ')}`
+            });
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: responseText
+                }
+              ]
+            };
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -559,7 +1851,26 @@ class OpenAPIServer {
     });
   }
 
+  // Tools take an endpoint either as path and method or as an operationId
+  private async findEndpoint(sessionId: string, target: EndpointTarget): Promise<{ path?: string; method?: string }> {
+    if (!target.operationId) return { path: target.path, method: target.method };
+    const operation = await this.manager.findOperation(sessionId, target.operationId);
+    if (!operation) {
+      throw new Error(`Endpoint not found: no operation with operationId ${target.operationId}`);
+    }
+    return { path: operation.path, method: operation.method };
+  }
+
+  private async resolveEndpoint(sessionId: string, target: EndpointTarget, alternatives = 'operationId'): Promise<{ path: string; method: string }> {
+    const { path, method } = await this.findEndpoint(sessionId, target);
+    if (!path || !method) {
+      throw new Error(`Provide either path and method, or ${alternatives}`);
+    }
+    return { path, method };
+  }
+
   async run() {
+    this.workspace.start();
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
   }
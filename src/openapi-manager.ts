@@ -1,23 +1,123 @@
 import SwaggerParser from 'swagger-parser';
+import $RefParser from '@apidevtools/json-schema-ref-parser';
 import { readFile, writeFile, access, mkdir } from 'fs/promises';
+import { watchFile, unwatchFile } from 'fs';
 import { load } from 'js-yaml';
 import { v4 as uuidv4 } from 'uuid';
-import { dirname, join } from 'path';
+import { dirname, join, resolve } from 'path';
 import { homedir } from 'os';
-import { Session, EndpointSummary, EndpointDetails, ParameterInfo, ResponseInfo, QueryOptions, OpenAPIDocument, PersistedSession, OutputFormat } from './types.js';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Session, EndpointSummary, EndpointDetails, ParameterInfo, ResponseInfo, QueryOptions, OpenAPIDocument, PersistedSession, OutputFormat, AsyncAPIDocument, SpecType, ChannelSummary, MessageDetails, AsyncServerInfo, LintReport, SessionInfo, CacheStats, SessionSummary, FetchSettings, SearchResult, RequestMatch, MediaTypeInfo, SchemaView, ReferenceGraph, SchemaUsageReport, GeneratedExample, EndpointSnippets, SnippetLanguage, CandidateRequest, CapturedResponse, ValidationIssue, ValidationReport, ConformanceReport, OperationConformance } from './types.js';
 import { getDefaultOutputFormat } from './transformers.js';
+import { isOpenAPI31, getBaseUri, rewriteSchemaIdRefs } from './schema-id-resolver.js';
+import { isSwagger2, convertSwagger2ToOpenAPI3 } from './swagger2-converter.js';
+import { isPostmanCollection, convertPostmanCollection } from './postman-converter.js';
+import { fetchUrl, isTransientFetchError, FetchError, persistableFetchSettings } from './url-fetcher.js';
+import { SandboxError, assertReadable } from './sandbox.js';
+import { SpecCache, CacheEntry, hashContent, isOfflineMode } from './spec-cache.js';
+import { lintDocument, parseLintRuleSettings, LintRuleSetting } from './spec-linter.js';
+import { applyOverlay } from './overlay.js';
+import { SearchIndex } from './search-index.js';
+import { parseRequestLine, matchRequestPath } from './request-matcher.js';
+import { SchemaExplorer, parsePropertyPath } from './schema-explorer.js';
+import { ExampleGenerator } from './example-generator.js';
+import { generateSnippets } from './snippet-generator.js';
+import { PayloadValidator, splitParameterValue } from './payload-validator.js';
+import { parseHar } from './har-reader.js';
+import { buildReferenceGraph, findSchemaUsages, findUnusedComponents } from './reference-graph.js';
+import { isAsyncAPIDocument, toOpenAPIStub, listAsyncChannels, getAsyncMessages, listAsyncServers, getAsyncTags, MessageFilter } from './asyncapi-reader.js';
+
+const SESSION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Polling survives editors that save by replacing the file, which fs.watch loses track of
+const WATCH_INTERVAL_MS = 1000;
+// Saving several referenced files at once should only trigger one reload
+const RELOAD_DEBOUNCE_MS = 200;
+
+interface LoadedSpec {
+  spec: OpenAPIDocument;
+  specType: SpecType;
+  asyncapi?: AsyncAPIDocument;
+  files: string[];
+  references?: ReferenceGraph;
+  content?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface SourceContent {
+  content: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Per-session loading settings, set for sessions declared in a workspace config
+interface LoadOptions {
+  fetch?: FetchSettings; // Headers, credentials and limits for URL sources
+  overlays?: string[]; // Overlay files applied to the raw document, in order
+}
+
+interface SessionWatcher {
+  files: string[];
+  listener: () => void;
+  timer?: NodeJS.Timeout;
+}
+
+// A component schema by name, or the body of an endpoint's request or response
+interface SchemaTarget {
+  schema?: string;
+  path?: string;
+  method?: string;
+  location?: 'request' | 'response';
+  statusCode?: string;
+  contentType?: string;
+}
+
+// `multipart/*` and `*/*` match whole families; parameters such as `; charset=utf-8` are ignored
+function matchesMediaType(contentType: string, pattern: string): boolean {
+  const [type, subtype] = contentType.split(';')[0].trim().toLowerCase().split('/');
+  const [patternType, patternSubtype] = pattern.split(';')[0].trim().toLowerCase().split('/');
+  return (patternType === '*' || patternType === type) && (patternSubtype === '*' || patternSubtype === subtype);
+}
+
+// Header names are matched case-insensitively, as HTTP treats them
+function findHeader(headers: Record<string, any> | undefined, name: string): any {
+  const key = Object.keys(headers || {}).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers![key];
+}
 
 export class OpenAPIManager {
   private sessions = new Map<string, Session>();
+  private watchers = new Map<string, SessionWatcher>();
+  // Keyed by spec, so a reloaded session never searches a stale index
+  private searchIndexes = new WeakMap<OpenAPIDocument, SearchIndex>();
+  private schemaExplorers = new WeakMap<object, SchemaExplorer>();
+  private payloadValidators = new WeakMap<OpenAPIDocument, PayloadValidator>();
   private persistenceFile: string;
+  private persistenceEnabled = true;
+  private cache: SpecCache;
 
   constructor() {
     // Store sessions in user's home directory
     const configDir = join(homedir(), '.janus-mcp');
     this.persistenceFile = join(configDir, 'sessions.json');
+    this.cache = new SpecCache(join(configDir, 'cache'));
     this.loadPersistedSessions();
   }
 
+  /**
+   * Move or disable session persistence, e.g. from a workspace config. Sessions persisted
+   * elsewhere are left alone; with persistence disabled, new sessions only live in memory.
+   */
+  configurePersistence(settings: { enabled?: boolean; directory?: string } = {}): void {
+    const directory = settings.directory ? resolve(settings.directory) : join(homedir(), '.janus-mcp');
+    this.persistenceFile = join(directory, 'sessions.json');
+    this.persistenceEnabled = settings.enabled !== false;
+    if (this.persistenceEnabled) {
+      this.loadPersistedSessions();
+    }
+  }
+
   private isValidUrl(str: string): boolean {
     try {
       new URL(str);
@@ -27,12 +127,12 @@ export class OpenAPIManager {
     }
   }
 
-  private async fetchUrlContent(url: string): Promise<string> {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
-    }
-    return await response.text();
+  private async fetchUrlContent(
+    url: string,
+    validators: { etag?: string; lastModified?: string } = {},
+    settings: FetchSettings = {}
+  ): Promise<SourceContent | null> {
+    return fetchUrl(url, settings, validators);
   }
 
   private isYamlContent(content: string): boolean {
@@ -40,59 +140,377 @@ export class OpenAPIManager {
     const trimmed = content.trim();
     return trimmed.startsWith('openapi:') || 
            trimmed.startsWith('swagger:') || 
-           (trimmed.includes('openapi:') && !trimmed.startsWith('{'));
+           trimmed.startsWith('asyncapi:') || 
+           ((trimmed.includes('openapi:') || trimmed.includes('asyncapi:')) && !trimmed.startsWith('{'));
+  }
+
+  // Returns null when a conditional request finds the URL unchanged
+  private async readSource(
+    source: string,
+    sourceType: 'file' | 'url',
+    validators: { etag?: string; lastModified?: string } = {},
+    settings?: FetchSettings
+  ): Promise<SourceContent | null> {
+    if (sourceType === 'url') {
+      return this.fetchUrlContent(source, validators, settings);
+    }
+    await assertReadable(source);
+    return { content: await readFile(source, 'utf-8') };
+  }
+
+  private async readSpecDocument(source: string, sourceType: 'file' | 'url', settings?: FetchSettings): Promise<any> {
+    const { content } = (await this.readSource(source, sourceType, {}, settings))!;
+    return this.parseSpecContent(source, content);
+  }
+
+  private parseSpecContent(source: string, content: string): any {
+    let spec: any;
+
+    // Parse YAML or JSON
+    if (source.endsWith('.yml') || source.endsWith('.yaml') || this.isYamlContent(content)) {
+      spec = load(content);
+    } else {
+      spec = JSON.parse(content);
+    }
+
+    return spec;
   }
 
-  async initializeSession(source: string, outputFormat?: OutputFormat): Promise<string> {
+  private async loadSpec(source: string, sourceType: 'file' | 'url', options: LoadOptions = {}): Promise<LoadedSpec> {
+    // Cache entries are keyed by source alone, so overlaid specs bypass the cache
+    const cached = options.overlays?.length ? null : await this.cache.get(source);
+
+    // Offline, URL specs only come from the cache; local files can still be read
+    if (sourceType === 'url' && isOfflineMode()) {
+      if (!cached) throw new Error(`Offline mode is enabled and ${source} has not been cached`);
+      return this.fromCacheEntry(cached);
+    }
+
+    let fetched: SourceContent | null;
     try {
-      const isUrl = this.isValidUrl(source);
-      const sourceType: 'file' | 'url' = isUrl ? 'url' : 'file';
-      
-      let content: string;
-      if (isUrl) {
-        content = await this.fetchUrlContent(source);
-      } else {
-        content = await readFile(source, 'utf-8');
-      }
+      fetched = await this.readSource(source, sourceType, { etag: cached?.etag, lastModified: cached?.lastModified }, options.fetch);
+    } catch (error) {
+      // An unreachable URL falls back to the last cached copy; a 401 or 404 is reported instead
+      if (sourceType === 'url' && cached && isTransientFetchError(error)) return this.fromCacheEntry(cached);
+      throw error;
+    }
 
-      let spec: any;
+    // Conditional requests are only sent with a cache entry's validators, so a 304 always has one
+    if (!fetched) return this.fromCacheEntry(cached!);
 
-      // Parse YAML or JSON
-      if (source.endsWith('.yml') || source.endsWith('.yaml') || this.isYamlContent(content)) {
-        spec = load(content);
-      } else {
-        spec = JSON.parse(content);
+    return this.loadFromContent(source, sourceType, fetched, cached, options);
+  }
+
+  private async loadFromContent(
+    source: string,
+    sourceType: 'file' | 'url',
+    fetched: SourceContent,
+    cached: CacheEntry | null,
+    options: LoadOptions = {}
+  ): Promise<LoadedSpec> {
+    const contentHash = hashContent(fetched.content);
+
+    // Unchanged sources skip parsing and dereferencing entirely, unless the entry predates reference
+    // graphs that follow external files or the record of shared objects
+    const complete = cached && !!cached.shared && (cached.specType !== 'openapi' || !!cached.references?.documents);
+    if (cached && complete && await this.cache.isFresh(cached, contentHash)) {
+      return {
+        ...this.fromCacheEntry(cached),
+        content: fetched.content,
+        etag: fetched.etag || cached.etag,
+        lastModified: fetched.lastModified || cached.lastModified
+      };
+    }
+
+    const loaded = { ...await this.buildSpec(source, sourceType, fetched, options), content: fetched.content };
+    if (!options.overlays?.length) {
+      await this.cache.put({ source, sourceType, contentHash, ...loaded });
+    }
+    return loaded;
+  }
+
+  private fromCacheEntry(entry: CacheEntry): LoadedSpec {
+    return {
+      spec: entry.spec,
+      specType: entry.specType,
+      asyncapi: entry.asyncapi,
+      files: entry.files,
+      references: entry.references,
+      content: entry.content,
+      etag: entry.etag,
+      lastModified: entry.lastModified
+    };
+  }
+
+  private async buildSpec(source: string, sourceType: 'file' | 'url', fetched: SourceContent, options: LoadOptions = {}): Promise<LoadedSpec> {
+    let spec = this.parseSpecContent(source, fetched.content);
+    const validators = { etag: fetched.etag, lastModified: fetched.lastModified };
+
+    // Overlays target the document as written, before $refs are resolved
+    const overlayFiles = (options.overlays || []).map(overlay => resolve(overlay));
+    for (const overlay of overlayFiles) {
+      await assertReadable(overlay);
+      try {
+        spec = applyOverlay(spec, this.parseSpecContent(overlay, await readFile(overlay, 'utf-8')));
+      } catch (error) {
+        throw new Error(`Failed to apply overlay ${overlay}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+    }
+
+    // Postman collections have no $refs to resolve, just a different shape
+    if (isPostmanCollection(spec)) {
+      const files = [...(sourceType === 'file' ? [resolve(source)] : []), ...overlayFiles];
+      const converted = convertPostmanCollection(spec);
+      return { spec: converted, specType: 'openapi', files, references: buildReferenceGraph(converted), ...validators };
+    }
+
+    // $refs are recorded from the documents as written, since dereferencing replaces them in place
+    const written = isAsyncAPIDocument(spec) ? undefined : structuredClone(spec);
+    const dereferenced = await this.dereferenceSpec(source, sourceType, spec, options.fetch);
+    const references = written && buildReferenceGraph(written, { url: this.toDocumentUrl(source, sourceType), documents: dereferenced.documents });
+    const files = [...dereferenced.files, ...overlayFiles];
+    if (isAsyncAPIDocument(spec)) {
+      const asyncapi: AsyncAPIDocument = dereferenced.document;
+      return { spec: toOpenAPIStub(asyncapi), specType: 'asyncapi', asyncapi, files, ...validators };
+    }
 
-      // Try to validate and dereference the OpenAPI spec
-      // If validation fails (e.g., for OpenAPI 3.1.0), fall back to using the raw spec
-      let dereferencedSpec: OpenAPIDocument;
+    return { spec: dereferenced.document, specType: 'openapi', files, references, ...validators };
+  }
+
+  // Documents are keyed by URL so refs written in any of them resolve with `new URL(ref, base)`
+  private toDocumentUrl(location: string, sourceType: 'file' | 'url'): string {
+    return sourceType === 'file' ? pathToFileURL(resolve(location)).href : location.split('#')[0];
+  }
+
+  /**
+   * External $refs go through the same sandbox and fetcher as the spec itself. The source's
+   * credentials are only sent to referenced URLs on the same origin. Every document read is
+   * parsed into `documents` as written, for the reference graph.
+   */
+  private getRefResolvers(source: string, sourceType: 'file' | 'url', settings: FetchSettings = {}, documents = new Map<string, any>()): any {
+    const origin = sourceType === 'url' ? new URL(source).origin : undefined;
+    // The parser only keeps the message of its own ResolverError, so denials are rethrown as one
+    const withReason = (read: (url: string) => Promise<string | Buffer>) => async (file: { url: string }) => {
+      try {
+        return await read(file.url);
+      } catch (error) {
+        throw new ($RefParser as any).ResolverError(error, file.url);
+      }
+    };
+    const keep = (url: string, content: string | Buffer) => {
       try {
-        dereferencedSpec = await (SwaggerParser as any).dereference(spec) as OpenAPIDocument;
-      } catch (parseError) {
-        console.error('Swagger validation failed, using raw spec:', parseError);
-        dereferencedSpec = spec as OpenAPIDocument;
+        documents.set(url, this.parseSpecContent(url, content.toString()));
+      } catch {
+        // Not every referenced file is YAML or JSON; those can't hold $refs anyway
+      }
+      return content;
+    };
+
+    return {
+      file: {
+        read: withReason(async url => {
+          const path = url.startsWith('file:') ? fileURLToPath(url) : decodeURI(url);
+          await assertReadable(path);
+          return keep(this.toDocumentUrl(path, 'file'), await readFile(path));
+        })
+      },
+      http: {
+        read: withReason(async url => {
+          const sameOrigin = new URL(url).origin === origin;
+          const fetched = await fetchUrl(url, sameOrigin ? settings : { timeoutMs: settings.timeoutMs, maxBytes: settings.maxBytes, retries: settings.retries });
+          return keep(this.toDocumentUrl(url, 'url'), fetched!.content);
+        })
+      }
+    };
+  }
+
+  private async dereferenceSpec(source: string, sourceType: 'file' | 'url', spec: any, settings?: FetchSettings): Promise<{ document: any; files: string[]; documents: Map<string, any> }> {
+    // External $refs are resolved relative to the source, so split specs work for both files and URLs
+    const basePath = sourceType === 'file' ? resolve(source) : source;
+
+    // Swagger Parser rejects OpenAPI 3.1, whose schemas need JSON Schema 2020-12 $id handling first
+    let parser: any = new (SwaggerParser as any)();
+    if (isOpenAPI31(spec)) {
+      rewriteSchemaIdRefs(spec, getBaseUri(source, sourceType));
+      parser = new $RefParser();
+    } else if (isAsyncAPIDocument(spec)) {
+      parser = new $RefParser();
+    }
+    const rootFiles = sourceType === 'file' ? [basePath] : [];
+    const documents = new Map<string, any>();
+
+    let dereferencedSpec: any;
+    try {
+      dereferencedSpec = await parser.dereference(basePath, spec, {
+        continueOnError: true,
+        resolve: this.getRefResolvers(source, sourceType, settings, documents)
+      }) as OpenAPIDocument;
+    } catch (error) {
+      const refErrors: any[] | undefined = (error as any)?.errors;
+      if (Array.isArray(refErrors) && refErrors.length > 0) {
+        const details = refErrors.map(refError => {
+          const location = Array.isArray(refError.path) && refError.path.length > 0
+            ? this.toJsonPointer(refError.path)
+            : refError.source;
+          const message = String(refError.message).replace(/\s+/g, ' ').trim();
+          return `  - ${location}: ${message}`;
+        });
+        throw new Error(`Unresolvable $ref(s) in ${source}:\n${details.join('\n')}`);
+      }
+
+      // Versions Swagger Parser doesn't recognize fall back to the raw spec
+      return { document: spec, files: rootFiles, documents };
+    }
+
+    this.breakCircularReferences(dereferencedSpec);
+
+    // Every local file the parser read, so edits to referenced files trigger a reload too
+    const files = sourceType === 'file' ? parser.$refs.paths('file') : rootFiles;
+
+    // Swagger 2.0 is normalized so every tool and transformer only has to understand OpenAPI 3
+    if (isSwagger2(dereferencedSpec)) {
+      return { document: convertSwagger2ToOpenAPI3(dereferencedSpec), files, documents };
+    }
+
+    return { document: dereferencedSpec, files, documents };
+  }
+
+  /**
+   * Dereferencing turns recursive schemas into cyclic objects, which can't be serialized.
+   * Replace each edge that closes a cycle with a $ref pointing back at the schema it came from.
+   */
+  private breakCircularReferences(spec: any): void {
+    const knownRefs = new Map<any, string>();
+    for (const [name, schema] of Object.entries(spec.components?.schemas || {})) {
+      knownRefs.set(schema, `#/components/schemas/${name}`);
+    }
+    for (const [name, schema] of Object.entries(spec.definitions || {})) {
+      knownRefs.set(schema, `#/definitions/${name}`);
+    }
+
+    const ancestors = new Map<any, string>();
+    const visited = new Set<any>();
+
+    const visit = (node: any, path: string[]) => {
+      visited.add(node);
+      ancestors.set(node, this.toJsonPointer(path));
+
+      for (const [key, value] of Object.entries(node)) {
+        if (!value || typeof value !== 'object') continue;
+
+        if (ancestors.has(value)) {
+          node[key] = { $ref: knownRefs.get(value) || ancestors.get(value) };
+        } else if (!visited.has(value)) {
+          visit(value, [...path, key]);
+        }
       }
+
+      ancestors.delete(node);
+    };
+
+    visit(spec, []);
+  }
+
+  private toJsonPointer(path: string[]): string {
+    return '#' + path.map(token => `/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+  }
+
+  async initializeSession(
+    source: string,
+    outputFormat?: OutputFormat,
+    options: { name?: string; aliases?: string[]; fetch?: FetchSettings } = {}
+  ): Promise<{ sessionId: string; reused: boolean }> {
+    const isUrl = this.isValidUrl(source);
+    const sourceType: 'file' | 'url' = isUrl ? 'url' : 'file';
+
+    // The same spec opened twice shares one session instead of piling up duplicates. Whoever opened
+    // it first keeps their name, output format and fetch settings; new names become extra aliases
+    const existingId = await this.findSessionIdBySource(source, sourceType);
+    if (existingId) {
+      const existing = await this.getSession(existingId);
+      if (existing) {
+        const known = [existing.name, ...(existing.aliases || [])];
+        const added = [options.name, ...(options.aliases || [])]
+          .filter((name): name is string => !!name && !known.includes(name));
+        if (added.length > 0) {
+          const name = existing.name ?? added.shift();
+          await this.renameSession(existing.id, name, [...(existing.aliases || []), ...added]);
+        }
+        return { sessionId: existing.id, reused: true };
+      }
+    }
+
+    await this.assertNamesAvailable([options.name, ...(options.aliases || [])]);
+
+    try {
+      const loaded = await this.loadSpec(source, sourceType, { fetch: options.fetch });
       
       const sessionId = uuidv4();
       const session: Session = {
         id: sessionId,
-        spec: dereferencedSpec,
+        name: options.name,
+        aliases: options.aliases,
+        ...loaded,
         source,
         sourceType,
         createdAt: new Date(),
-        outputFormat: outputFormat || getDefaultOutputFormat()
+        outputFormat: outputFormat || getDefaultOutputFormat(),
+        fetch: options.fetch
       };
 
       this.sessions.set(sessionId, session);
+      this.indexSession(session);
+      this.watchSessionFiles(session);
       await this.persistSession(session);
-      return sessionId;
+      return { sessionId, reused: false };
+    } catch (error) {
+      if (error instanceof SandboxError) throw error;
+      throw new Error(`Failed to ${error instanceof FetchError ? 'fetch' : 'parse'} API spec: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Open (or replace) a session declared in a workspace config under a stable ID. Workspace
+   * sessions aren't persisted, since the config recreates them at startup. If the spec fails
+   * to load, any session already open under the ID is kept.
+   */
+  async openWorkspaceSession(
+    sessionId: string,
+    source: string,
+    options: LoadOptions & { outputFormat?: OutputFormat; aliases?: string[] } = {}
+  ): Promise<Session> {
+    const sourceType: 'file' | 'url' = this.isValidUrl(source) ? 'url' : 'file';
+    await this.assertNamesAvailable([sessionId, ...(options.aliases || [])], sessionId);
+
+    let loaded: LoadedSpec;
+    try {
+      loaded = await this.loadSpec(source, sourceType, { fetch: options.fetch, overlays: options.overlays });
     } catch (error) {
-      throw new Error(`Failed to parse OpenAPI spec: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof SandboxError) throw error;
+      throw new Error(`Failed to ${error instanceof FetchError ? 'fetch' : 'parse'} API spec: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    const session: Session = {
+      id: sessionId,
+      aliases: options.aliases && options.aliases.length > 0 ? options.aliases : undefined,
+      ...loaded,
+      source,
+      sourceType,
+      createdAt: new Date(),
+      outputFormat: options.outputFormat || getDefaultOutputFormat(),
+      fetch: options.fetch,
+      overlays: options.overlays,
+      workspace: true
+    };
+
+    this.sessions.set(sessionId, session);
+    this.indexSession(session);
+    this.watchSessionFiles(session);
+    return session;
   }
 
-  async getSession(sessionId: string): Promise<Session | undefined> {
+  async getSession(sessionIdOrName: string): Promise<Session | undefined> {
+    const sessionId = await this.resolveSessionId(sessionIdOrName);
     let session = this.sessions.get(sessionId);
     
     if (!session) {
@@ -109,14 +527,120 @@ export class OpenAPIManager {
     return session;
   }
 
-  async removeSession(sessionId: string): Promise<boolean> {
-    const removed = this.sessions.delete(sessionId);
+  async removeSession(sessionIdOrName: string): Promise<boolean> {
+    const sessionId = await this.resolveSessionId(sessionIdOrName);
+    const persisted = (await this.readPersistedSessions()).some(s => s.id === sessionId);
+    const removed = this.sessions.delete(sessionId) || persisted;
+    this.unwatchSessionFiles(sessionId);
     if (removed) {
       await this.removePersistedSession(sessionId);
     }
     return removed;
   }
 
+  async renameSession(sessionIdOrName: string, name?: string, aliases?: string[]): Promise<Session> {
+    const session = await this.getSession(sessionIdOrName);
+    if (!session) throw new Error('Session not found');
+
+    await this.assertNamesAvailable([name, ...(aliases || [])], session.id);
+    session.name = name || undefined;
+    session.aliases = aliases && aliases.length > 0 ? aliases : undefined;
+    await this.persistSession(session);
+    return session;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+    const persistedSessions = await this.readPersistedSessions();
+
+    // Workspace sessions only exist in memory
+    for (const session of this.sessions.values()) {
+      if (!session.workspace) continue;
+      summaries.push({
+        id: session.id,
+        name: session.name,
+        aliases: session.aliases,
+        source: session.source,
+        sourceType: session.sourceType,
+        title: session.spec.info?.title,
+        version: session.spec.info?.version,
+        outputFormat: session.outputFormat,
+        createdAt: session.createdAt.toISOString(),
+        lastAccessed: session.createdAt.toISOString(),
+        loaded: true,
+        workspace: true
+      });
+    }
+
+    for (const persisted of persistedSessions) {
+      const session = this.sessions.get(persisted.id);
+      summaries.push({
+        id: persisted.id,
+        name: session?.name ?? persisted.name,
+        aliases: session?.aliases ?? persisted.aliases,
+        source: persisted.source,
+        sourceType: persisted.sourceType,
+        // Loaded sessions may have been hot-reloaded since they were persisted
+        title: session?.spec.info?.title ?? persisted.title,
+        version: session?.spec.info?.version ?? persisted.version,
+        outputFormat: session?.outputFormat ?? persisted.outputFormat,
+        createdAt: persisted.createdAt,
+        lastAccessed: persisted.lastAccessed,
+        loaded: !!session
+      });
+    }
+
+    return summaries;
+  }
+
+  // Session IDs win, then names, then aliases; unknown values are returned unchanged
+  private async resolveSessionId(sessionIdOrName: string): Promise<string> {
+    if (this.sessions.has(sessionIdOrName)) return sessionIdOrName;
+
+    const candidates: Array<{ id: string; name?: string; aliases?: string[] }> = [
+      ...this.sessions.values(),
+      ...(await this.readPersistedSessions())
+    ];
+    const match = candidates.find(s => s.id === sessionIdOrName)
+      || candidates.find(s => s.name === sessionIdOrName)
+      || candidates.find(s => s.aliases?.includes(sessionIdOrName));
+    return match ? match.id : sessionIdOrName;
+  }
+
+  private async findSessionIdBySource(source: string, sourceType: 'file' | 'url'): Promise<string | undefined> {
+    const normalize = (value: string, type: 'file' | 'url') => type === 'file' ? resolve(value) : value;
+    const target = normalize(source, sourceType);
+
+    const candidates: Array<{ id: string; source: string; sourceType: 'file' | 'url' }> = [
+      ...this.sessions.values(),
+      ...(await this.readPersistedSessions())
+    ];
+    return candidates.find(s => s.sourceType === sourceType && normalize(s.source, s.sourceType) === target)?.id;
+  }
+
+  private async assertNamesAvailable(names: Array<string | undefined>, ownerId?: string): Promise<void> {
+    const requested = names.filter((name): name is string => !!name);
+    for (const name of requested) {
+      if (!SESSION_NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid session name "${name}": use letters, digits, '.', '_' or '-'`);
+      }
+    }
+    if (new Set(requested).size !== requested.length) {
+      throw new Error('Session name and aliases must be distinct');
+    }
+
+    const others: Array<{ id: string; name?: string; aliases?: string[] }> = [
+      ...this.sessions.values(),
+      ...(await this.readPersistedSessions())
+    ].filter(s => s.id !== ownerId);
+    for (const name of requested) {
+      const owner = others.find(s => s.id === name || s.name === name || s.aliases?.includes(name));
+      if (owner) {
+        throw new Error(`Session name "${name}" is already used by session ${owner.id}`);
+      }
+    }
+  }
+
   async setSessionOutputFormat(sessionId: string, outputFormat: OutputFormat): Promise<boolean> {
     const session = await this.getSession(sessionId);
     if (!session) return false;
@@ -131,41 +655,137 @@ export class OpenAPIManager {
     return session?.outputFormat || null;
   }
 
-  async getSessionInfo(sessionId: string): Promise<{ title?: string; version?: string; description?: string; baseUrl?: string } | null> {
+  async getSessionInfo(sessionId: string): Promise<SessionInfo | null> {
     const session = await this.getSession(sessionId);
     if (!session) return null;
 
     const spec = session.spec;
-    return {
+    const info: SessionInfo = {
       title: spec.info?.title,
       version: spec.info?.version,
       description: spec.info?.description,
       baseUrl: this.getBaseUrl(spec)
     };
+    if (session.reloadedAt) info.reloadedAt = session.reloadedAt.toISOString();
+    if (session.reloadError) info.reloadError = session.reloadError;
+    return info;
+  }
+
+  /**
+   * Re-read a session's spec in place, keeping its ID and output format. URL sources are fetched
+   * conditionally and return false when unchanged. If the new spec fails to load, the error is
+   * recorded on the session and thrown, and the last good spec stays in use.
+   */
+  async reloadSession(sessionId: string): Promise<boolean> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (session.sourceType === 'url' && isOfflineMode()) {
+      throw new Error('Offline mode is enabled; URL sessions are served from the cache');
+    }
+
+    try {
+      const options: LoadOptions = { fetch: session.fetch, overlays: session.overlays };
+      const fetched = await this.readSource(session.source, session.sourceType, {
+        etag: session.etag,
+        lastModified: session.lastModified
+      }, options.fetch);
+      if (!fetched) {
+        session.reloadError = undefined;
+        return false;
+      }
+
+      const cached = options.overlays?.length ? null : await this.cache.get(session.source);
+      const loaded = await this.loadFromContent(session.source, session.sourceType, fetched, cached, options);
+      session.spec = loaded.spec;
+      session.specType = loaded.specType;
+      session.asyncapi = loaded.asyncapi;
+      session.files = loaded.files;
+      session.references = loaded.references;
+      session.content = loaded.content;
+      session.etag = loaded.etag;
+      session.lastModified = loaded.lastModified;
+      session.reloadedAt = new Date();
+      session.reloadError = undefined;
+    } catch (error) {
+      session.reloadError = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to reload ${session.source}, keeping the last good spec: ${session.reloadError}`);
+    }
+
+    this.indexSession(session);
+    // The set of referenced files may have changed with the edit
+    this.watchSessionFiles(session);
+    await this.persistSession(session);
+    return true;
+  }
+
+  // Built when a session is loaded, so the first search doesn't pay for it
+  private indexSession(session: Session): SearchIndex {
+    let index = this.searchIndexes.get(session.spec);
+    if (!index) {
+      index = new SearchIndex(session.spec);
+      this.searchIndexes.set(session.spec, index);
+    }
+    return index;
+  }
+
+  private watchSessionFiles(session: Session): void {
+    this.unwatchSessionFiles(session.id);
+    if (session.sourceType !== 'file' || session.files.length === 0) return;
+
+    const watcher: SessionWatcher = {
+      files: session.files,
+      listener: () => {
+        if (watcher.timer) clearTimeout(watcher.timer);
+        watcher.timer = setTimeout(() => {
+          watcher.timer = undefined;
+          // Failures are kept on the session and surface through get_session_info
+          this.reloadSession(session.id).catch(() => {});
+        }, RELOAD_DEBOUNCE_MS);
+      }
+    };
+
+    for (const file of watcher.files) {
+      watchFile(file, { interval: WATCH_INTERVAL_MS, persistent: false }, watcher.listener);
+    }
+    this.watchers.set(session.id, watcher);
+  }
+
+  private unwatchSessionFiles(sessionId: string): void {
+    const watcher = this.watchers.get(sessionId);
+    if (!watcher) return;
+
+    if (watcher.timer) clearTimeout(watcher.timer);
+    for (const file of watcher.files) {
+      unwatchFile(file, watcher.listener);
+    }
+    this.watchers.delete(sessionId);
   }
 
   private getBaseUrl(spec: any): string | undefined {
     if (spec.servers && spec.servers.length > 0) {
-      return spec.servers[0].url;
-    }
-    if (spec.host) {
-      const scheme = spec.schemes && spec.schemes.length > 0 ? spec.schemes[0] : 'https';
-      const basePath = spec.basePath || '';
-      return `${scheme}://${spec.host}${basePath}`;
+      const server = spec.servers[0];
+      // Fill in server variables such as {baseUrl} with their defaults
+      return server.url.replace(/\{([^}]+)\}/g, (match: string, name: string) => server.variables?.[name]?.default || match);
     }
     return undefined;
   }
 
+  // OpenAPI 3.1 webhooks are path items keyed by name, listed alongside the regular paths
+  private getPathItems(spec: OpenAPIDocument): Array<{ path: string; pathItem: any; webhook: boolean }> {
+    const pathItems = Object.entries(spec.paths || {}).map(([path, pathItem]) => ({ path, pathItem, webhook: false }));
+    const webhooks = Object.entries(spec.webhooks || {}).map(([path, pathItem]) => ({ path, pathItem, webhook: true }));
+    return [...pathItems, ...webhooks];
+  }
+
   async listEndpoints(sessionId: string, tags?: string[], methods?: string[]): Promise<EndpointSummary[]> {
     const session = await this.getSession(sessionId);
     if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
 
     const endpoints: EndpointSummary[] = [];
     const spec = session.spec;
 
-    if (!spec.paths) return endpoints;
-
-    for (const [path, pathItem] of Object.entries(spec.paths)) {
+    for (const { path, pathItem, webhook } of this.getPathItems(spec)) {
       if (!pathItem || typeof pathItem !== 'object') continue;
 
       const allMethods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
@@ -187,26 +807,109 @@ export class OpenAPIManager {
           }
         }
 
-        endpoints.push({
+        const endpoint: EndpointSummary = {
           path,
           method: method.toUpperCase(),
           operationId: operation.operationId,
           summary: operation.summary,
           description: operation.description,
           tags: operation.tags
-        });
+        };
+        if (webhook) endpoint.webhook = true;
+
+        endpoints.push(endpoint);
       }
     }
 
     return endpoints;
   }
 
+  async searchEndpoints(
+    sessionId: string,
+    query: string,
+    options: { tags?: string[]; methods?: string[]; limit?: number } = {}
+  ): Promise<SearchResult[]> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    return this.indexSession(session).search(query, options);
+  }
+
+  /**
+   * The path and method of the operation with this operationId. Generated clients often change
+   * the case or separators (`get_user`, `GetUser`), so an inexact match is accepted when only
+   * one operation fits it.
+   */
+  async findOperation(sessionId: string, operationId: string): Promise<{ path: string; method: string } | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    const normalize = (id: string) => id.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const loose: Array<{ path: string; method: string }> = [];
+
+    for (const { path, pathItem } of this.getPathItems(session.spec)) {
+      if (!pathItem || typeof pathItem !== 'object') continue;
+      for (const method of ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace']) {
+        const id = pathItem[method]?.operationId;
+        if (typeof id !== 'string') continue;
+        if (id === operationId) return { path, method: method.toUpperCase() };
+        if (normalize(id) === normalize(operationId)) loose.push({ path, method: method.toUpperCase() });
+      }
+    }
+
+    return loose.length === 1 ? loose[0] : null;
+  }
+
+  /**
+   * Match a concrete request such as `GET https://api.example.com/v1/users/42?limit=5` to the
+   * operation it calls, with the path and query parameter values it carries.
+   */
+  async matchRequest(sessionId: string, request: string, method?: string, options: QueryOptions = {}): Promise<RequestMatch | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    const parsed = parseRequestLine(request, method);
+    const match = matchRequestPath(session.spec, parsed.method, parsed.url, parsed.relative);
+    if (!match) return null;
+
+    const endpoint = await this.getEndpointDetails(sessionId, match.path, match.method, { ...options, includeParameters: true });
+    if (!endpoint) return null;
+
+    const declared = endpoint.parameters || [];
+    const result: RequestMatch = {
+      url: parsed.relative ? `${parsed.url.pathname}${parsed.url.search}` : parsed.url.toString(),
+      server: match.server,
+      pathParameters: match.pathParameters,
+      queryParameters: match.queryParameters,
+      endpoint
+    };
+
+    const undeclared = Object.keys(match.queryParameters)
+      .filter(name => !declared.some(param => param.in === 'query' && param.name === name));
+    if (undeclared.length > 0) result.undeclaredQueryParameters = undeclared;
+
+    const missing = declared
+      .filter(param => param.required && (param.in === 'query' || param.in === 'path'))
+      .filter(param => !(param.name in (param.in === 'path' ? match.pathParameters : match.queryParameters)))
+      .map(param => `${param.name} (${param.in})`);
+    if (missing.length > 0) result.missingParameters = missing;
+
+    if (!options.includeParameters) delete endpoint.parameters;
+    return result;
+  }
+
   async getEndpointDetails(sessionId: string, path: string, method: string, options: QueryOptions = {}): Promise<EndpointDetails | null> {
     const session = await this.getSession(sessionId);
     if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
 
     const spec = session.spec;
-    const pathItem = spec.paths?.[path];
+    // Webhooks are keyed by name rather than path, so fall back to them when no path matches
+    const webhook = !spec.paths?.[path] && !!spec.webhooks?.[path];
+    const pathItem = spec.paths?.[path] || spec.webhooks?.[path];
     if (!pathItem) return null;
 
     const operation = (pathItem as any)[method.toLowerCase()];
@@ -220,20 +923,26 @@ export class OpenAPIManager {
       description: operation.description,
       tags: operation.tags
     };
+    if (webhook) details.webhook = true;
 
     // Include parameters if requested
     if (options.includeParameters) {
       details.parameters = this.extractParameters(operation, pathItem);
     }
 
+    const schemas = spec.components?.schemas || {};
+    const generator = (direction: 'request' | 'response') => options.generateExamples
+      ? new ExampleGenerator(schemas, { seed: options.exampleSeed, direction })
+      : undefined;
+
     // Include request body if requested
     if (options.includeRequestBody && operation.requestBody) {
-      details.requestBody = this.extractRequestBody(operation.requestBody, options);
+      details.requestBody = this.extractRequestBody(operation.requestBody, options, generator('request'));
     }
 
     // Include responses if requested
     if (options.includeResponses && operation.responses) {
-      details.responses = this.extractResponses(operation.responses, options);
+      details.responses = this.extractResponses(operation.responses, options, generator('response'));
     }
 
     // Include security if requested
@@ -259,13 +968,10 @@ export class OpenAPIManager {
       };
 
       if (param.schema) {
-        paramInfo.type = param.schema.type;
+        // OpenAPI 3.1 allows type arrays such as ["string", "null"]
+        paramInfo.type = Array.isArray(param.schema.type) ? param.schema.type.join(' | ') : param.schema.type;
         paramInfo.schema = param.schema;
-        paramInfo.example = param.schema.example || param.example;
-      } else if (param.type) {
-        // OpenAPI 2.0 style
-        paramInfo.type = param.type;
-        paramInfo.example = param.example;
+        paramInfo.example = param.schema.example || param.example || param.schema.examples?.[0];
       }
 
       parameters.push(paramInfo);
@@ -274,32 +980,21 @@ export class OpenAPIManager {
     return parameters;
   }
 
-  private extractRequestBody(requestBody: any, options: QueryOptions): any {
+  private extractRequestBody(requestBody: any, options: QueryOptions, generator?: ExampleGenerator): any {
     const result: any = {
       required: requestBody.required
     };
 
     if (requestBody.content) {
-      // Get the first content type or a specific one
-      const contentTypes = Object.keys(requestBody.content);
-      const contentType = contentTypes[0]; // Default to first content type
-      
-      result.contentType = contentType;
-      
-      const content = requestBody.content[contentType];
-      if (options.includeSchemas && content.schema) {
-        result.schema = content.schema;
-      }
-      
-      if (options.includeExamples && content.examples) {
-        result.examples = content.examples;
-      }
+      const [primary, ...alternatives] = this.extractMediaTypes(requestBody.content, options, generator);
+      Object.assign(result, primary);
+      if (alternatives.length > 0) result.alternatives = alternatives;
     }
 
     return result;
   }
 
-  private extractResponses(responses: any, options: QueryOptions): ResponseInfo[] {
+  private extractResponses(responses: any, options: QueryOptions, generator?: ExampleGenerator): ResponseInfo[] {
     const responseList: ResponseInfo[] = [];
     
     for (const [statusCode, response] of Object.entries(responses)) {
@@ -314,19 +1009,13 @@ export class OpenAPIManager {
       };
 
       if ((response as any).content) {
-        const contentTypes = Object.keys((response as any).content);
-        const contentType = contentTypes[0]; // Default to first content type
-        
-        responseInfo.contentType = contentType;
-        
-        const content = (response as any).content[contentType];
-        if (options.includeSchemas && content.schema) {
-          responseInfo.schema = content.schema;
-        }
-        
-        if (options.includeExamples && content.examples) {
-          responseInfo.examples = content.examples;
-        }
+        const [primary, ...alternatives] = this.extractMediaTypes((response as any).content, options, generator);
+        Object.assign(responseInfo, primary);
+        if (alternatives.length > 0) responseInfo.alternatives = alternatives;
+      }
+
+      if (options.includeHeaders && (response as any).headers) {
+        responseInfo.headers = (response as any).headers;
       }
 
       responseList.push(responseInfo);
@@ -335,10 +1024,45 @@ export class OpenAPIManager {
     return responseList;
   }
 
+  /**
+   * Every media type of a `content` map. With preferred content types, only the matching ones
+   * are kept, in order of preference; when none match, all of them are, so nothing disappears.
+   * With a generator, media types whose schema comes without an example get a generated one.
+   */
+  private extractMediaTypes(content: Record<string, any>, options: QueryOptions, generator?: ExampleGenerator): MediaTypeInfo[] {
+    let contentTypes = Object.keys(content);
+
+    if (options.contentTypes?.length) {
+      const rank = (contentType: string) => options.contentTypes!.findIndex(preferred => matchesMediaType(contentType, preferred));
+      const preferred = contentTypes.filter(contentType => rank(contentType) !== -1);
+      if (preferred.length > 0) {
+        contentTypes = preferred.sort((a, b) => rank(a) - rank(b));
+      }
+    }
+
+    return contentTypes.map(contentType => {
+      const media = content[contentType] || {};
+      const info: MediaTypeInfo = { contentType };
+      if (options.includeSchemas && media.schema) info.schema = media.schema;
+      if (options.includeSchemas && media.encoding) info.encoding = media.encoding;
+      const includeExamples = options.includeExamples || !!generator;
+      if (includeExamples && media.example !== undefined) info.example = media.example;
+      if (includeExamples && media.examples) info.examples = media.examples;
+      if (generator && media.schema && media.example === undefined && !media.examples) {
+        info.generatedExample = generator.generate(media.schema);
+      }
+      return info;
+    });
+  }
+
   async getTags(sessionId: string): Promise<string[]> {
     const session = await this.getSession(sessionId);
     if (!session) throw new Error('Session not found');
 
+    if (session.asyncapi) {
+      return getAsyncTags(session.asyncapi);
+    }
+
     const spec = session.spec;
     const tags = new Set<string>();
 
@@ -350,17 +1074,15 @@ export class OpenAPIManager {
     }
 
     // Get tags from operations
-    if (spec.paths) {
-      for (const pathItem of Object.values(spec.paths)) {
-        if (!pathItem || typeof pathItem !== 'object') continue;
-        
-        const methods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
-        for (const method of methods) {
-          const operation = (pathItem as any)[method];
-          if (operation && operation.tags) {
-            for (const tag of operation.tags) {
-              tags.add(tag);
-            }
+    for (const { pathItem } of this.getPathItems(spec)) {
+      if (!pathItem || typeof pathItem !== 'object') continue;
+      
+      const methods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
+      for (const method of methods) {
+        const operation = (pathItem as any)[method];
+        if (operation && operation.tags) {
+          for (const tag of operation.tags) {
+            tags.add(tag);
           }
         }
       }
@@ -373,7 +1095,7 @@ export class OpenAPIManager {
     const session = await this.getSession(sessionId);
     if (!session) throw new Error('Session not found');
 
-    const components = session.spec.components || {};
+    const components = session.asyncapi?.components || session.spec.components || {};
     
     if (componentType) {
       return components[componentType] || {};
@@ -382,7 +1104,487 @@ export class OpenAPIManager {
     return components;
   }
 
+  /**
+   * One schema, expanded `depth` property levels deep: a component schema by name, or the body
+   * schema of an endpoint's request or response. Without either, the property path starts with
+   * the schema name, as in `Order.items[].product`.
+   */
+  async getSchema(sessionId: string, target: SchemaTarget, options: { propertyPath?: string; depth?: number } = {}): Promise<SchemaView> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+
+    const depth = options.depth ?? 2;
+    const { explorer, schema, source, propertyPath } = this.resolveSchemaTarget(session, target, options.propertyPath);
+    return {
+      source,
+      propertyPath,
+      depth,
+      schema: explorer.describe(schema, depth)
+    };
+  }
+
+  /**
+   * An example value for the same targets as getSchema. Endpoint bodies take their direction from
+   * the location; component schemas are treated as responses unless told otherwise.
+   */
+  async generateExample(
+    sessionId: string,
+    target: SchemaTarget,
+    options: { propertyPath?: string; seed?: number; direction?: 'request' | 'response' } = {}
+  ): Promise<GeneratedExample> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+
+    const { schema, source, propertyPath } = this.resolveSchemaTarget(session, target, options.propertyPath);
+    const components = session.asyncapi?.components || session.spec.components || {};
+    const endpoint = !!(target.path || target.method);
+    const direction = options.direction || (endpoint ? target.location || 'response' : 'response');
+    const seed = options.seed ?? 1;
+    const generator = new ExampleGenerator(components.schemas || {}, { seed, direction });
+
+    return { source, propertyPath, direction, seed, example: generator.generate(schema) };
+  }
+
+  /**
+   * Client code calling an operation in each language, using the first server as the base URL.
+   * Values come from the spec's examples, or are generated with the seed where it has none.
+   */
+  async generateSnippets(
+    sessionId: string,
+    path: string,
+    method: string,
+    options: { languages?: SnippetLanguage[]; seed?: number } = {}
+  ): Promise<EndpointSnippets> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    const details = await this.getEndpointDetails(sessionId, path, method, {
+      includeParameters: true,
+      includeRequestBody: true,
+      includeResponses: true,
+      includeSecurity: true,
+      includeSchemas: true,
+      includeExamples: true
+    });
+    const endpoint = `${method.toUpperCase()} ${path}`;
+    if (!details) throw new Error(`Endpoint not found: ${endpoint}`);
+
+    const spec = session.spec;
+    const generator = new ExampleGenerator(spec.components?.schemas || {}, { seed: options.seed ?? 1, direction: 'request' });
+    const snippets = generateSnippets(details, this.getBaseUrl(spec), spec.components?.securitySchemes || {}, generator, options.languages);
+    return { target: endpoint, operationId: details.operationId, snippets };
+  }
+
+  /**
+   * Check a request before sending it: every declared parameter against its schema (values may be
+   * strings, as they would be on the wire) and the body against the schema of its content type.
+   */
+  async validateRequest(sessionId: string, path: string, method: string, request: CandidateRequest): Promise<ValidationReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    const spec = session.spec;
+    const pathItem: any = spec.paths?.[path] || spec.webhooks?.[path];
+    const operation = pathItem?.[method.toLowerCase()];
+    const endpoint = `${method.toUpperCase()} ${path}`;
+    if (!operation) throw new Error(`Endpoint not found: ${endpoint}`);
+
+    const validator = this.getPayloadValidator(spec);
+    const errors: ValidationIssue[] = [];
+
+    // Operation parameters override path-level ones with the same name and location
+    const parameters = new Map<string, any>();
+    for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+      if (parameter?.name && parameter.in) parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+
+    for (const parameter of parameters.values()) {
+      const name: string = parameter.name;
+      // Content-Type, Accept and Authorization are described elsewhere and ignored as header parameters
+      if (parameter.in === 'header' && ['accept', 'content-type', 'authorization'].includes(name.toLowerCase())) continue;
+
+      const pointer = `/${parameter.in}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      const value = this.findParameterValue(request, parameter.in, name);
+      if (value === undefined) {
+        if (parameter.required || parameter.in === 'path') errors.push({ pointer, message: 'is required', keyword: 'required' });
+        continue;
+      }
+
+      const schema = parameter.schema || Object.values<any>(parameter.content || {})[0]?.schema;
+      if (!schema) continue;
+      const coerce = !!parameter.schema;
+      errors.push(...validator.validate(schema, coerce ? splitParameterValue(parameter, value) : value, { direction: 'request', pointer, coerce }));
+    }
+
+    const requestBody = operation.requestBody;
+    let contentType: string | undefined;
+    if (request.body === undefined) {
+      if (requestBody?.required) errors.push({ pointer: '/body', message: 'is required', keyword: 'required' });
+    } else if (!requestBody?.content) {
+      errors.push({ pointer: '/body', message: `is not accepted by ${endpoint}`, keyword: 'requestBody' });
+    } else {
+      const contentTypes = Object.keys(requestBody.content);
+      contentType = request.contentType
+        ? contentTypes.find(candidate => matchesMediaType(candidate, request.contentType!))
+        : contentTypes.find(candidate => /[/+]json\b/i.test(candidate)) || contentTypes[0];
+
+      const schema = contentType ? requestBody.content[contentType]?.schema : undefined;
+      if (!contentType) {
+        errors.push({ pointer: '/body', message: `cannot be sent as ${request.contentType}; ${endpoint} accepts ${contentTypes.join(', ')}`, keyword: 'contentType' });
+      } else if (schema) {
+        errors.push(...this.validateBody(validator, schema, request.body, contentType, 'request'));
+      }
+    }
+
+    return { target: `${endpoint} request`, contentType, valid: errors.length === 0, errors };
+  }
+
+  /** Check a received response against the entry its status code falls under. */
+  async validateResponse(sessionId: string, path: string, method: string, response: CapturedResponse): Promise<ValidationReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    return this.checkResponse(session.spec, path, method, response);
+  }
+
+  /**
+   * Check every response recorded in a HAR file, grouped by the operation each request matches.
+   * Issues repeated across exchanges are counted once per operation, status and location.
+   */
+  async validateHar(sessionId: string, harFile: string): Promise<ConformanceReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    await assertReadable(harFile);
+    let exchanges;
+    try {
+      exchanges = parseHar(await readFile(harFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid HAR file ${harFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const operations = new Map<string, OperationConformance>();
+    const report: ConformanceReport = { source: harFile, exchanges: exchanges.length, matched: 0, unmatched: [], operations: [] };
+
+    for (const exchange of exchanges) {
+      let match;
+      try {
+        match = matchRequestPath(session.spec, exchange.method, new URL(exchange.url));
+      } catch {
+        // Invalid URLs and paths that only support other methods count as unmatched
+        match = null;
+      }
+      if (!match) {
+        report.unmatched.push({ method: exchange.method, url: exchange.url });
+        continue;
+      }
+      report.matched++;
+
+      const key = `${match.method} ${match.path}`;
+      if (!operations.has(key)) operations.set(key, { operation: key, exchanges: 0, failed: 0, issues: [] });
+      const conformance = operations.get(key)!;
+      conformance.exchanges++;
+
+      const result = this.checkResponse(session.spec, match.path, match.method, exchange.response);
+      if (result.valid) continue;
+      conformance.failed++;
+
+      for (const error of result.errors) {
+        const pointer = error.pointer.replace(/\/\d+(?=\/|$)/g, '/*');
+        const existing = conformance.issues.find(issue =>
+          issue.statusCode === exchange.response.statusCode && issue.pointer === pointer && issue.message === error.message);
+        if (existing) {
+          existing.occurrences++;
+        } else {
+          conformance.issues.push({ statusCode: exchange.response.statusCode, pointer, message: error.message, keyword: error.keyword, occurrences: 1, example: exchange.url });
+        }
+      }
+    }
+
+    report.operations = [...operations.values()].sort((a, b) => b.failed - a.failed || a.operation.localeCompare(b.operation));
+    return report;
+  }
+
+  private checkResponse(spec: OpenAPIDocument, path: string, method: string, captured: CapturedResponse): ValidationReport {
+    const pathItem: any = spec.paths?.[path] || spec.webhooks?.[path];
+    const operation = pathItem?.[method.toLowerCase()];
+    const endpoint = `${method.toUpperCase()} ${path}`;
+    if (!operation) throw new Error(`Endpoint not found: ${endpoint}`);
+
+    const status = String(captured.statusCode);
+    const responses = this.extractResponses(operation.responses || {}, { includeSchemas: true, includeHeaders: true });
+    // An exact status wins over its range, such as 2XX, which wins over default
+    const documented = responses.find(response => response.statusCode === status)
+      || responses.find(response => response.statusCode.toUpperCase() === `${status[0]}XX`)
+      || responses.find(response => response.statusCode === 'default');
+    if (!documented) {
+      const codes = responses.map(response => response.statusCode).join(', ') || 'none';
+      const error = { pointer: '/status', message: `${status} is not documented; documented: ${codes}`, keyword: 'status' };
+      return { target: `${endpoint} response ${status}`, valid: false, errors: [error] };
+    }
+
+    const target = `${endpoint} response ${status}${documented.statusCode !== status ? ` (documented as ${documented.statusCode})` : ''}`;
+    const validator = this.getPayloadValidator(spec);
+    const errors: ValidationIssue[] = [];
+
+    for (const [name, header] of Object.entries<any>(documented.headers || {})) {
+      // Content-Type is described by the content map, not as a header
+      if (name.toLowerCase() === 'content-type') continue;
+      const pointer = `/header/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      const value = findHeader(captured.headers, name);
+      if (value === undefined) {
+        if (header?.required) errors.push({ pointer, message: 'is required', keyword: 'required' });
+        continue;
+      }
+      if (header?.schema) {
+        errors.push(...validator.validate(header.schema, splitParameterValue(header, value), { direction: 'response', pointer, coerce: true }));
+      }
+    }
+
+    let contentType: string | undefined;
+    if (captured.body !== undefined && captured.body !== '') {
+      const mediaTypes = [documented, ...(documented.alternatives || [])].filter(media => media.contentType) as MediaTypeInfo[];
+      const received = captured.contentType || findHeader(captured.headers, 'content-type');
+      const media = received
+        ? mediaTypes.find(candidate => matchesMediaType(String(received), candidate.contentType))
+        : mediaTypes.find(candidate => /[/+]json\b/i.test(candidate.contentType)) || mediaTypes[0];
+
+      if (mediaTypes.length === 0) {
+        errors.push({ pointer: '/body', message: `is not documented for ${documented.statusCode} responses`, keyword: 'content' });
+      } else if (!media) {
+        const documentedTypes = mediaTypes.map(candidate => candidate.contentType).join(', ');
+        errors.push({ pointer: '/header/Content-Type', message: `${received} is not documented for ${documented.statusCode} responses; documented: ${documentedTypes}`, keyword: 'contentType' });
+      } else {
+        contentType = media.contentType;
+        if (media.schema) errors.push(...this.validateBody(validator, media.schema, captured.body, media.contentType, 'response'));
+      }
+    }
+
+    return { target, contentType, valid: errors.length === 0, errors };
+  }
+
+  private validateBody(validator: PayloadValidator, schema: any, body: any, contentType: string, direction: 'request' | 'response'): ValidationIssue[] {
+    let value = body;
+    // A JSON body may come as the text that would be sent
+    if (typeof body === 'string' && /[/+]json\b/i.test(contentType) && !this.isStringSchema(schema)) {
+      try {
+        value = JSON.parse(body);
+      } catch (error) {
+        return [{ pointer: '/body', message: `is not valid JSON: ${(error as Error).message}`, keyword: 'json' }];
+      }
+    }
+    return validator.validate(schema, value, { direction, pointer: '/body' });
+  }
+
+  private isStringSchema(schema: any): boolean {
+    const types = Array.isArray(schema?.type) ? schema.type : [schema?.type];
+    return types.includes('string');
+  }
+
+  private findParameterValue(request: CandidateRequest, location: string, name: string): any {
+    const values = {
+      path: request.pathParameters,
+      query: request.queryParameters,
+      header: request.headers,
+      cookie: request.cookies
+    }[location];
+    if (location === 'header') return findHeader(values, name);
+    return values?.[name];
+  }
+
+  private resolveSchemaTarget(
+    session: Session,
+    target: SchemaTarget,
+    propertyPathOption?: string
+  ): { explorer: SchemaExplorer; schema: any; source: string; propertyPath?: string } {
+    const components = session.asyncapi?.components || session.spec.components || {};
+    const explorer = this.getSchemaExplorer(components.schemas || {});
+    let segments = propertyPathOption ? parsePropertyPath(propertyPathOption) : [];
+
+    let root: any;
+    let source: string;
+    if (target.path || target.method) {
+      if (!target.path || !target.method) throw new Error('Provide both path and method to explore an endpoint schema');
+      this.assertOpenAPISession(session);
+      ({ schema: root, source } = this.getBodySchema(session.spec, { ...target, path: target.path, method: target.method }));
+    } else {
+      const name = target.schema || segments[0];
+      if (!name || name === '[]') throw new Error('Provide a schema name, an endpoint, or a property path starting with a schema name');
+      // `schema: Order` with `propertyPath: Order.items` means the same as `propertyPath: items`
+      if (segments[0] === name) segments = segments.slice(1);
+      root = explorer.getSchema(name);
+      source = name;
+    }
+
+    const propertyPath = segments.join('.').replace(/\.\[\]/g, '[]');
+    const schema = propertyPath ? explorer.resolvePath(root, propertyPath, source) : root;
+    return { explorer, schema, source, propertyPath: propertyPath || undefined };
+  }
+
+  /**
+   * Operations and components that use a component schema, directly or through other schemas,
+   * from the $refs recorded when the spec was loaded.
+   */
+  async findSchemaUsages(sessionId: string, schema: string, transitive = true): Promise<SchemaUsageReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    this.assertOpenAPISession(session);
+
+    if (!session.spec.components?.schemas?.[schema]) {
+      throw new Error(`Schema not found: ${schema}`);
+    }
+    return findSchemaUsages(this.getReferenceGraph(session), schema, transitive);
+  }
+
+  /** Pointers to components that no operation reaches, such as `#/components/schemas/Legacy`. */
+  async getUnusedComponents(sessionId: string): Promise<string[]> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (session.specType !== 'openapi') return [];
+    return findUnusedComponents(this.getReferenceGraph(session));
+  }
+
+  private getReferenceGraph(session: Session): ReferenceGraph {
+    if (!session.references) {
+      throw new Error('Reference information is not available for this session; reload it to rebuild it');
+    }
+    return session.references;
+  }
+
+  private getPayloadValidator(spec: OpenAPIDocument): PayloadValidator {
+    let validator = this.payloadValidators.get(spec);
+    if (!validator) {
+      validator = new PayloadValidator(spec);
+      this.payloadValidators.set(spec, validator);
+    }
+    return validator;
+  }
+
+  private getSchemaExplorer(schemas: Record<string, any>): SchemaExplorer {
+    let explorer = this.schemaExplorers.get(schemas);
+    if (!explorer) {
+      explorer = new SchemaExplorer(schemas);
+      this.schemaExplorers.set(schemas, explorer);
+    }
+    return explorer;
+  }
+
+  private getBodySchema(
+    spec: OpenAPIDocument,
+    target: { path: string; method: string; location?: 'request' | 'response'; statusCode?: string; contentType?: string }
+  ): { schema: any; source: string } {
+    const pathItem: any = spec.paths?.[target.path] || spec.webhooks?.[target.path];
+    const operation = pathItem?.[target.method.toLowerCase()];
+    const endpoint = `${target.method.toUpperCase()} ${target.path}`;
+    if (!operation) throw new Error(`Endpoint not found: ${endpoint}`);
+
+    let content: Record<string, any> | undefined;
+    let source: string;
+    if ((target.location || 'response') === 'request') {
+      content = operation.requestBody?.content;
+      if (!content) throw new Error(`${endpoint} has no request body`);
+      source = `${endpoint} request`;
+    } else {
+      const statuses = Object.keys(operation.responses || {});
+      // The first success response unless a status is asked for
+      const status = target.statusCode || statuses.find(code => code.startsWith('2')) || statuses[0];
+      const response = status ? operation.responses[status] : undefined;
+      if (!response) {
+        throw new Error(`${endpoint} has no ${target.statusCode ? `${target.statusCode} ` : ''}response${statuses.length > 0 ? `; responses: ${statuses.join(', ')}` : ''}`);
+      }
+      content = response.content;
+      if (!content) throw new Error(`${endpoint} response ${status} has no body`);
+      source = `${endpoint} response ${status}`;
+    }
+
+    const contentTypes = Object.keys(content);
+    const contentType = target.contentType
+      ? contentTypes.find(candidate => matchesMediaType(candidate, target.contentType!))
+      : contentTypes[0];
+    if (!contentType) throw new Error(`${source} has no ${target.contentType} body; content types: ${contentTypes.join(', ')}`);
+    if (!content[contentType]?.schema) throw new Error(`${source} ${contentType} has no schema`);
+
+    return { schema: content[contentType].schema, source: `${source} ${contentType}` };
+  }
+
+  async getSessionSpecType(sessionId: string): Promise<SpecType | null> {
+    const session = await this.getSession(sessionId);
+    return session?.specType || null;
+  }
+
+  async listChannels(sessionId: string, tags?: string[]): Promise<ChannelSummary[]> {
+    const asyncapi = await this.getAsyncAPIDocument(sessionId);
+    return listAsyncChannels(asyncapi, tags);
+  }
+
+  async getMessages(sessionId: string, filter: MessageFilter = {}): Promise<MessageDetails[]> {
+    const asyncapi = await this.getAsyncAPIDocument(sessionId);
+    return getAsyncMessages(asyncapi, filter);
+  }
+
+  async listServers(sessionId: string): Promise<AsyncServerInfo[]> {
+    const asyncapi = await this.getAsyncAPIDocument(sessionId);
+    return listAsyncServers(asyncapi);
+  }
+
+  async lintSpec(sessionId: string, options: { rules?: string[]; rulesFile?: string } = {}): Promise<LintReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (session.specType === 'asyncapi') {
+      throw new Error('Linting is only supported for OpenAPI, Swagger and Postman sessions');
+    }
+
+    // Lint the spec as written rather than the dereferenced copy, so locations match the source;
+    // sessions from cache entries that predate keeping the source read it again
+    let document = session.content !== undefined
+      ? this.parseSpecContent(session.source, session.content)
+      : await this.readSpecDocument(session.source, session.sourceType, session.fetch);
+    if (isPostmanCollection(document)) {
+      document = convertPostmanCollection(document);
+    }
+
+    let settings: Record<string, LintRuleSetting> | undefined;
+    if (options.rulesFile) {
+      await assertReadable(options.rulesFile);
+      try {
+        settings = parseLintRuleSettings(load(await readFile(options.rulesFile, 'utf-8')));
+      } catch (error) {
+        throw new Error(`Invalid rules file ${options.rulesFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return lintDocument(document, { rules: options.rules, settings, references: session.references });
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    return this.cache.stats();
+  }
+
+  async purgeCache(source?: string): Promise<number> {
+    return this.cache.purge(source);
+  }
+
+  private async getAsyncAPIDocument(sessionId: string): Promise<AsyncAPIDocument> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (!session.asyncapi) {
+      throw new Error('Session is not an AsyncAPI session; use list_endpoints and get_endpoint_details instead');
+    }
+    return session.asyncapi;
+  }
+
+  private assertOpenAPISession(session: Session): void {
+    if (session.specType === 'asyncapi') {
+      throw new Error('Session is an AsyncAPI session; use list_channels, get_message and list_servers instead');
+    }
+  }
+
   private async loadPersistedSessions(): Promise<void> {
+    if (!this.persistenceEnabled) return;
     try {
       // Ensure config directory exists
       await mkdir(dirname(this.persistenceFile), { recursive: true });
@@ -413,6 +1615,9 @@ export class OpenAPIManager {
   }
 
   private async loadSessionFromPersistence(sessionId: string): Promise<void> {
+    if (!this.persistenceEnabled) return;
+    // Unreachable uncached URLs are usually a temporary outage, so those sessions stay persisted
+    let sourceUnavailable = false;
     try {
       const data = await readFile(this.persistenceFile, 'utf-8');
       const persistedSessions: PersistedSession[] = JSON.parse(data);
@@ -450,50 +1655,42 @@ export class OpenAPIManager {
         }
       }
       
-      // Reload the OpenAPI spec
-      let content: string;
-      if (sessionToUse.sourceType === 'url') {
-        content = await this.fetchUrlContent(sessionToUse.source);
-      } else {
-        content = await readFile(sessionToUse.source, 'utf-8');
-      }
-      
-      let spec: any;
-      
-      if (sessionToUse.source.endsWith('.yml') || sessionToUse.source.endsWith('.yaml') || this.isYamlContent(content)) {
-        spec = load(content);
-      } else {
-        spec = JSON.parse(content);
-      }
-      
-      // Try to validate and dereference the OpenAPI spec
-      // If validation fails (e.g., for OpenAPI 3.1.0), fall back to using the raw spec
-      let dereferencedSpec: OpenAPIDocument;
-      try {
-        dereferencedSpec = await (SwaggerParser as any).dereference(spec) as OpenAPIDocument;
-      } catch (parseError) {
-        console.error('Swagger validation failed, using raw spec:', parseError);
-        dereferencedSpec = spec as OpenAPIDocument;
-      }
+      // Reload the OpenAPI spec (from the cache when the source hasn't changed)
+      sourceUnavailable = sessionToUse.sourceType === 'url';
+      const loaded = await this.loadSpec(sessionToUse.source, sessionToUse.sourceType, { fetch: sessionToUse.fetch });
+      sourceUnavailable = false;
       
       const session: Session = {
         id: sessionId,
-        spec: dereferencedSpec,
+        name: sessionToUse.name,
+        aliases: sessionToUse.aliases,
+        ...loaded,
         source: sessionToUse.source,
         sourceType: sessionToUse.sourceType,
         createdAt: new Date(sessionToUse.createdAt),
-        outputFormat: sessionToUse.outputFormat
+        outputFormat: sessionToUse.outputFormat,
+        fetch: sessionToUse.fetch
       };
       
       this.sessions.set(sessionId, session);
+      this.indexSession(session);
+      this.watchSessionFiles(session);
       
     } catch (error) {
+      if (sourceUnavailable) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        // Rejected credentials or a moved spec won't fix themselves, but the session is kept so it works once they're fixed
+        throw new Error(isTransientFetchError(error)
+          ? `Session ${sessionId} is temporarily unavailable: ${message}`
+          : `Session ${sessionId} could not be loaded: ${message}`);
+      }
       // If can't load, remove from persistence
       await this.removePersistedSession(sessionId);
     }
   }
 
   private async persistSession(session: Session): Promise<void> {
+    if (!this.persistenceEnabled || session.workspace) return;
     try {
       // Load existing sessions
       let persistedSessions: PersistedSession[] = [];
@@ -508,11 +1705,17 @@ export class OpenAPIManager {
       const sessionIndex = persistedSessions.findIndex(s => s.id === session.id);
       const persistedSession: PersistedSession = {
         id: session.id,
+        name: session.name,
+        aliases: session.aliases,
+        title: session.spec.info?.title,
+        version: session.spec.info?.version,
         source: session.source,
         sourceType: session.sourceType,
         createdAt: session.createdAt.toISOString(),
         lastAccessed: new Date().toISOString(),
-        outputFormat: session.outputFormat
+        outputFormat: session.outputFormat,
+        // Literal secrets stay in memory; only ${NAME} references are written out
+        fetch: persistableFetchSettings(session.fetch)
       };
       
       if (sessionIndex >= 0) {
@@ -529,6 +1732,7 @@ export class OpenAPIManager {
   }
 
   private async updateLastAccessed(sessionId: string): Promise<void> {
+    if (!this.persistenceEnabled) return;
     try {
       const data = await readFile(this.persistenceFile, 'utf-8');
       const persistedSessions: PersistedSession[] = JSON.parse(data);
@@ -545,6 +1749,7 @@ export class OpenAPIManager {
   }
 
   private async removePersistedSession(sessionId: string): Promise<void> {
+    if (!this.persistenceEnabled) return;
     try {
       const data = await readFile(this.persistenceFile, 'utf-8');
       const persistedSessions: PersistedSession[] = JSON.parse(data);
@@ -557,6 +1762,16 @@ export class OpenAPIManager {
     }
   }
 
+  private async readPersistedSessions(): Promise<PersistedSession[]> {
+    if (!this.persistenceEnabled) return [];
+    try {
+      const data = await readFile(this.persistenceFile, 'utf-8');
+      return JSON.parse(data);
+    } catch {
+      return [];
+    }
+  }
+
   private async savePersistedSessions(sessions: PersistedSession[]): Promise<void> {
     await mkdir(dirname(this.persistenceFile), { recursive: true });
     await writeFile(this.persistenceFile, JSON.stringify(sessions, null, 2), 'utf-8');
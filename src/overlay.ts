@@ -0,0 +1,237 @@
+/**
+ * OpenAPI Overlay 1.0 support: each action selects nodes with a JSONPath `target` and either
+ * merges `update` into them or removes them. Only the JSONPath subset overlays use in practice
+ * is understood: `$`, `.name`, `['name']`, `[0]`, `*`, `..` and simple filters such as
+ * `[?(@.x-internal == true)]` or `[?@.deprecated]`.
+ */
+
+interface OverlayAction {
+  target: string;
+  description?: string;
+  update?: any;
+  remove?: boolean;
+}
+
+// A selected node, with its parent so it can be replaced or removed in place
+interface Match {
+  parent: any;
+  key: string | number;
+}
+
+type Segment =
+  | { type: 'child'; key: string | number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key?: string; self?: boolean }
+  | { type: 'filter'; path: string[]; operator?: '==' | '!='; value?: any };
+
+export function isOverlayDocument(document: any): boolean {
+  return !!document && typeof document === 'object' && typeof document.overlay === 'string' && Array.isArray(document.actions);
+}
+
+export function applyOverlay(document: any, overlay: any): any {
+  if (!isOverlayDocument(overlay)) {
+    throw new Error('Not an overlay document: expected "overlay" and "actions" fields');
+  }
+
+  // The root itself can be a target, so it is wrapped to give it a parent
+  const root = { $: document };
+  for (const action of overlay.actions as OverlayAction[]) {
+    if (typeof action.target !== 'string') {
+      throw new Error('Overlay action is missing a target');
+    }
+
+    const matches = select(root, parseJsonPath(action.target));
+    if (action.remove) {
+      // Remove from the end so array indexes stay valid
+      for (const { parent, key } of matches.reverse()) {
+        if (Array.isArray(parent)) parent.splice(key as number, 1);
+        else delete parent[key];
+      }
+    } else if (action.update !== undefined) {
+      for (const { parent, key } of matches) {
+        parent[key] = merge(parent[key], action.update);
+      }
+    }
+  }
+
+  return root.$;
+}
+
+// Objects are merged recursively, arrays get the update appended, anything else is replaced
+function merge(target: any, update: any): any {
+  if (Array.isArray(target)) {
+    return [...target, ...(Array.isArray(update) ? update : [update])];
+  }
+  if (isObject(target) && isObject(update)) {
+    for (const [key, value] of Object.entries(update)) {
+      target[key] = key in target ? merge(target[key], value) : value;
+    }
+    return target;
+  }
+  return update;
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function select(root: { $: any }, segments: Segment[]): Match[] {
+  let matches: Match[] = [{ parent: root, key: '$' }];
+
+  for (const segment of segments) {
+    const next: Match[] = [];
+    for (const match of matches) {
+      const node = match.parent[match.key];
+      if (!node || typeof node !== 'object') continue;
+
+      switch (segment.type) {
+        case 'child':
+          if (segment.key in node) next.push({ parent: node, key: segment.key });
+          break;
+        case 'wildcard':
+          next.push(...children(node));
+          break;
+        case 'descendant':
+          if (segment.self) next.push(match);
+          for (const descendant of descendants(node)) {
+            if (segment.key === undefined || descendant.key === segment.key) next.push(descendant);
+          }
+          break;
+        case 'filter':
+          next.push(...children(node).filter(child => matchesFilter(child.parent[child.key], segment)));
+          break;
+      }
+    }
+    matches = next;
+  }
+
+  return matches;
+}
+
+function children(node: any): Match[] {
+  return Array.isArray(node)
+    ? node.map((_, index) => ({ parent: node, key: index }))
+    : Object.keys(node).map(key => ({ parent: node, key }));
+}
+
+function descendants(node: any, seen = new Set<any>()): Match[] {
+  seen.add(node);
+  const result: Match[] = [];
+  for (const child of children(node)) {
+    result.push(child);
+    const value = child.parent[child.key];
+    if (value && typeof value === 'object' && !seen.has(value)) {
+      result.push(...descendants(value, seen));
+    }
+  }
+  return result;
+}
+
+function matchesFilter(value: any, filter: Extract<Segment, { type: 'filter' }>): boolean {
+  let current = value;
+  for (const key of filter.path) {
+    if (!current || typeof current !== 'object') return false;
+    current = current[key];
+  }
+
+  if (!filter.operator) return current !== undefined && current !== null && current !== false;
+  const equal = JSON.stringify(current) === JSON.stringify(filter.value);
+  return filter.operator === '==' ? equal : !equal;
+}
+
+function parseJsonPath(expression: string): Segment[] {
+  const path = expression.trim();
+  if (!path.startsWith('$')) {
+    throw new Error(`Unsupported overlay target "${expression}": JSONPath expressions must start with $`);
+  }
+
+  const segments: Segment[] = [];
+  let i = 1;
+  const fail = (): never => {
+    throw new Error(`Unsupported overlay target "${expression}" at position ${i}`);
+  };
+
+  while (i < path.length) {
+    if (path.startsWith('..', i)) {
+      i += 2;
+      const name = /^(\*|[A-Za-z0-9_$-]+)/.exec(path.slice(i));
+      if (name) {
+        segments.push(name[1] === '*' ? { type: 'descendant' } : { type: 'descendant', key: name[1] });
+        i += name[1].length;
+      } else if (path[i] === '[') {
+        // `$..[...]` applies the bracket to the children of the node and all its descendants
+        segments.push({ type: 'descendant', self: true });
+      } else {
+        fail();
+      }
+    } else if (path[i] === '.') {
+      i += 1;
+      const name = /^(\*|[A-Za-z0-9_$-]+)/.exec(path.slice(i)) ?? fail();
+      segments.push(name[1] === '*' ? { type: 'wildcard' } : { type: 'child', key: name[1] });
+      i += name[1].length;
+    } else if (path[i] === '[') {
+      const end = findClosingBracket(path, i) ?? fail();
+      segments.push(parseBracket(path.slice(i + 1, end).trim()) ?? fail());
+      i = end + 1;
+    } else {
+      fail();
+    }
+  }
+
+  return segments;
+}
+
+function findClosingBracket(path: string, start: number): number | undefined {
+  let quote: string | undefined;
+  let depth = 0;
+  for (let i = start; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+function parseBracket(content: string): Segment | undefined {
+  if (content === '*') return { type: 'wildcard' };
+  if (/^-?\d+$/.test(content)) return { type: 'child', key: Number(content) };
+
+  const quoted = parseQuoted(content);
+  if (quoted !== undefined) return { type: 'child', key: quoted };
+
+  if (!content.startsWith('?')) return undefined;
+  const expression = content.slice(1).trim().replace(/^\((.*)\)$/s, '$1').trim();
+  const filter = /^@((?:\.[A-Za-z0-9_$-]+|\[(?:'[^']*'|"[^"]*")\])+)\s*(?:(==|!=)\s*(.+))?$/s.exec(expression);
+  if (!filter) return undefined;
+
+  const path = [...filter[1].matchAll(/\.([A-Za-z0-9_$-]+)|\[('[^']*'|"[^"]*")\]/g)]
+    .map(part => part[1] ?? parseQuoted(part[2])!);
+  if (!filter[2]) return { type: 'filter', path };
+
+  const value = parseLiteral(filter[3].trim());
+  if (value === undefined) return undefined;
+  return { type: 'filter', path, operator: filter[2] as '==' | '!=', value: value.value };
+}
+
+function parseQuoted(text: string): string | undefined {
+  const match = /^(['"])(.*)\1$/s.exec(text);
+  return match ? match[2].replace(/\\(.)/g, '$1') : undefined;
+}
+
+function parseLiteral(text: string): { value: any } | undefined {
+  const quoted = parseQuoted(text);
+  if (quoted !== undefined) return { value: quoted };
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,321 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import { ValidationIssue } from './types.js';
+
+export type PayloadDirection = 'request' | 'response';
+
+// Identifiers would collide between compilations, since every schema is compiled on its own
+const IGNORED_KEYWORDS = new Set(['$id', '$schema', '$anchor', '$dynamicAnchor', '$defs', 'definitions', 'discriminator', 'example', 'examples', 'xml', 'externalDocs']);
+
+/**
+ * Validates values against OpenAPI schemas with Ajv. Schemas are translated to plain JSON Schema
+ * first: OpenAPI 3.0 `nullable` and boolean exclusive bounds, discriminators as if/then branches so
+ * only the chosen variant reports errors, and readOnly (or writeOnly) properties as keywords that
+ * always fail in the direction they aren't allowed. Compiled validators are kept per schema.
+ */
+export class PayloadValidator {
+  private ajv: Ajv;
+  private coercingAjv: Ajv;
+  private compiled = new Map<string, WeakMap<object, ValidateFunction>>();
+  private openapi31: boolean;
+
+  constructor(private document: any) {
+    this.openapi31 = typeof document?.openapi === 'string' && document.openapi.startsWith('3.1');
+    this.ajv = this.createAjv(false);
+    // Parameters arrive as strings, so `?limit=10` should pass an integer schema
+    this.coercingAjv = this.createAjv(true);
+  }
+
+  /**
+   * Errors for one value, with pointers under `pointer` (e.g. `/body`), so a missing property
+   * reads `/body/items/0/price: is required`.
+   */
+  validate(schema: any, value: any, options: { direction: PayloadDirection; pointer: string; coerce?: boolean }): ValidationIssue[] {
+    const validate = this.getValidator(schema, options.direction, !!options.coerce);
+    // Coercion rewrites the value in place
+    const data = options.coerce ? structuredClone(value) : value;
+    if (validate(data)) return [];
+    return simplifyErrors(validate.errors || []).map(error => describeError(error, options.pointer));
+  }
+
+  private getValidator(schema: any, direction: PayloadDirection, coerce: boolean): ValidateFunction {
+    const key = `${direction}:${coerce}`;
+    if (!this.compiled.has(key)) this.compiled.set(key, new WeakMap());
+    const cache = this.compiled.get(key)!;
+
+    let validate = cache.get(schema);
+    if (!validate) {
+      const definitions: Record<string, any> = {};
+      const root = new SchemaTranslator(this.document, direction, definitions, this.openapi31).translate(schema);
+      const definitionsKey = this.openapi31 ? '$defs' : 'definitions';
+      const compiled = typeof root === 'boolean' ? root : { ...root, [definitionsKey]: definitions };
+      validate = (coerce ? this.coercingAjv : this.ajv).compile(compiled as any);
+      cache.set(schema, validate);
+    }
+    return validate;
+  }
+
+  private createAjv(coerce: boolean): Ajv {
+    const options = { allErrors: true, strict: false, logger: false as const, coerceTypes: coerce ? 'array' as const : false };
+    const ajv: Ajv = this.openapi31 ? new Ajv2020(options) : new Ajv(options);
+    addFormats(ajv);
+    ajv.addKeyword({ keyword: 'x-read-only', schemaType: 'boolean', validate: () => false });
+    ajv.addKeyword({ keyword: 'x-write-only', schemaType: 'boolean', validate: () => false });
+    return ajv;
+  }
+}
+
+/**
+ * A query, header, path or cookie value as the schema expects it: comma-separated (or space or
+ * pipe delimited) strings become arrays for array schemas.
+ */
+export function splitParameterValue(parameter: any, value: any): any {
+  if (typeof value !== 'string' || !isArraySchema(parameter.schema)) return value;
+  const delimiter = parameter.style === 'spaceDelimited' ? ' ' : parameter.style === 'pipeDelimited' ? '|' : ',';
+  return value.split(delimiter);
+}
+
+class SchemaTranslator {
+  private translated = new Map<any, any>();
+  private names = new Map<any, string>();
+
+  constructor(private document: any, private direction: PayloadDirection, private definitions: Record<string, any>, private openapi31: boolean) {}
+
+  translate(schema: any): any {
+    if (!schema || typeof schema !== 'object') return schema ?? true;
+    if (typeof schema.$ref === 'string') return this.reference(schema.$ref);
+    if (this.translated.has(schema)) return this.translated.get(schema);
+
+    const result: any = {};
+    this.translated.set(schema, result);
+
+    for (const [key, value] of Object.entries<any>(schema)) {
+      if (IGNORED_KEYWORDS.has(key)) continue;
+      if (['properties', 'patternProperties', 'dependentSchemas'].includes(key) && value && typeof value === 'object') {
+        result[key] = Object.fromEntries(Object.entries<any>(value).map(([name, child]) => [name, this.translate(child)]));
+      } else if (['allOf', 'anyOf', 'oneOf', 'prefixItems'].includes(key) && Array.isArray(value)) {
+        result[key] = value.map(child => this.translate(child));
+      } else if (key === 'items' && Array.isArray(value)) {
+        result[key] = value.map(child => this.translate(child));
+      } else if (['items', 'additionalProperties', 'not', 'contains', 'propertyNames', 'if', 'then', 'else', 'unevaluatedProperties', 'unevaluatedItems'].includes(key)) {
+        result[key] = this.translate(value);
+      } else {
+        result[key] = value;
+      }
+    }
+
+    if (!this.openapi31) this.translateOpenAPI30(result);
+    this.excludeProperties(result);
+    if (schema.discriminator?.propertyName && Array.isArray(schema.oneOf || schema.anyOf)) {
+      this.translateDiscriminator(schema, result);
+    }
+    return result;
+  }
+
+  // OpenAPI 3.0 isn't quite JSON Schema: nullable instead of a null type, booleans for exclusive bounds
+  private translateOpenAPI30(result: any): void {
+    if (result.nullable === true) {
+      if (typeof result.type === 'string') result.type = [result.type, 'null'];
+      if (Array.isArray(result.enum) && !result.enum.includes(null)) result.enum = [...result.enum, null];
+      if (!result.type && (result.allOf || result.oneOf || result.anyOf || result.$ref)) {
+        const { nullable, ...rest } = result;
+        Object.keys(result).forEach(key => delete result[key]);
+        result.anyOf = [rest, { type: 'null' }];
+      }
+    }
+    delete result.nullable;
+
+    for (const [bound, exclusive] of [['minimum', 'exclusiveMinimum'], ['maximum', 'exclusiveMaximum']]) {
+      if (result[exclusive] === true && typeof result[bound] === 'number') {
+        result[exclusive] = result[bound];
+        delete result[bound];
+      } else if (typeof result[exclusive] === 'boolean') {
+        delete result[exclusive];
+      }
+    }
+  }
+
+  // Properties the direction doesn't allow may not appear at all, required or not
+  private excludeProperties(result: any): void {
+    if (!result.properties) return;
+    const excluded = this.direction === 'request' ? 'readOnly' : 'writeOnly';
+    const keyword = this.direction === 'request' ? 'x-read-only' : 'x-write-only';
+
+    for (const [name, property] of Object.entries<any>(result.properties)) {
+      if (!property || typeof property !== 'object' || property[excluded] !== true) continue;
+      result.properties[name] = { [keyword]: true };
+      if (Array.isArray(result.required)) result.required = result.required.filter((required: string) => required !== name);
+    }
+  }
+
+  /**
+   * Validates only the variant the discriminator selects, instead of reporting every variant's
+   * errors: `{ if: { kind: 'cat' }, then: Cat }` per value, plus the allowed values themselves.
+   */
+  private translateDiscriminator(schema: any, result: any): void {
+    const key = schema.oneOf ? 'oneOf' : 'anyOf';
+    const propertyName: string = schema.discriminator.propertyName;
+    const variants: any[] = schema[key];
+    const branches: Array<{ value: string; variant: any }> = [];
+
+    for (const [value, target] of Object.entries<any>(schema.discriminator.mapping || {})) {
+      const variant = variants.find(candidate => this.matchesReference(candidate, String(target)));
+      if (variant) branches.push({ value, variant });
+    }
+    for (const variant of variants) {
+      if (branches.some(branch => branch.variant === variant)) continue;
+      const values = this.tagValues(variant, propertyName);
+      if (values.length === 0) return;
+      values.forEach(value => branches.push({ value, variant }));
+    }
+
+    delete result[key];
+    const selectors = branches.map(({ value, variant }) => ({
+      if: { properties: { [propertyName]: { const: value } }, required: [propertyName] },
+      then: this.translate(variant)
+    }));
+    result.allOf = [
+      ...(result.allOf || []),
+      { required: [propertyName], properties: { [propertyName]: { enum: [...new Set(branches.map(branch => branch.value))] } } },
+      ...selectors
+    ];
+  }
+
+  // The values a variant declares for the discriminator property, or else its component name
+  private tagValues(variant: any, propertyName: string): string[] {
+    const resolved = typeof variant?.$ref === 'string' ? this.resolve(variant.$ref) : variant;
+    const property = resolved?.properties?.[propertyName];
+    if (property?.const !== undefined) return [String(property.const)];
+    if (Array.isArray(property?.enum)) return property.enum.map(String);
+    const name = typeof variant?.$ref === 'string' ? variant.$ref.split('/').pop() : this.componentName(resolved);
+    return name ? [name] : [];
+  }
+
+  private matchesReference(variant: any, target: string): boolean {
+    if (variant?.$ref === target) return true;
+    const pointer = target.includes('/') ? target : `#/components/schemas/${target}`;
+    const resolved = this.resolve(pointer);
+    if (!resolved) return false;
+    // Specs restored from the cache are copies, so fall back to comparing content
+    return resolved === variant || JSON.stringify(resolved) === JSON.stringify(variant);
+  }
+
+  private componentName(schema: any): string | undefined {
+    if (this.names.size === 0) {
+      for (const [name, component] of Object.entries<any>(this.document?.components?.schemas || {})) this.names.set(component, name);
+    }
+    const known = this.names.get(schema);
+    if (known) return known;
+    const serialized = JSON.stringify(schema);
+    for (const [component, name] of this.names) {
+      if (JSON.stringify(component) === serialized) return name;
+    }
+    return undefined;
+  }
+
+  // The $refs left behind where dereferencing broke a cycle become local definitions
+  private reference(ref: string): any {
+    const target = this.resolve(ref);
+    if (!target) return true;
+
+    let name = [...Object.entries(this.definitions)].find(([, value]) => value === this.translated.get(target))?.[0];
+    if (!name) {
+      name = `d${Object.keys(this.definitions).length}`;
+      this.definitions[name] = {};
+      this.definitions[name] = this.translate(target);
+    }
+    return { $ref: `#/${this.openapi31 ? '$defs' : 'definitions'}/${name}` };
+  }
+
+  private resolve(ref: string): any {
+    if (!ref.startsWith('#/')) return undefined;
+    const tokens = ref.slice(2).split('/').map(token => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'));
+    return tokens.reduce((current: any, token: string) => current?.[token], this.document);
+  }
+}
+
+function isArraySchema(schema: any): boolean {
+  const types = Array.isArray(schema?.type) ? schema.type : [schema?.type];
+  return types.includes('array');
+}
+
+/**
+ * A failed oneOf/anyOf reports every variant's errors. Keep only the variant that came closest,
+ * which is usually the one that was meant, and drop `if` noise from discriminator branches.
+ */
+function simplifyErrors(errors: ErrorObject[]): ErrorObject[] {
+  let result = errors.filter(error => error.keyword !== 'if');
+
+  for (const combinator of result.filter(error => error.keyword === 'oneOf' || error.keyword === 'anyOf')) {
+    const prefix = `${combinator.schemaPath}/`;
+    const byVariant = new Map<string, ErrorObject[]>();
+    for (const error of result) {
+      if (!error.schemaPath.startsWith(prefix)) continue;
+      const variant = error.schemaPath.slice(prefix.length).split('/')[0];
+      if (!byVariant.has(variant)) byVariant.set(variant, []);
+      byVariant.get(variant)!.push(error);
+    }
+    if (byVariant.size === 0) continue;
+
+    const closest = [...byVariant.values()].sort((a, b) => a.length - b.length)[0];
+    result = result.filter(error => !error.schemaPath.startsWith(prefix) || closest.includes(error));
+  }
+  return result;
+}
+
+function describeError(error: ErrorObject, pointer: string): ValidationIssue {
+  let path = `${pointer}${error.instancePath}`;
+  const params: any = error.params;
+  let message = error.message || 'is invalid';
+
+  switch (error.keyword) {
+    case 'required':
+      path += `/${escapePointer(params.missingProperty)}`;
+      message = 'is required';
+      break;
+    case 'additionalProperties':
+      path += `/${escapePointer(params.additionalProperty)}`;
+      message = 'is not allowed; the schema permits no other properties';
+      break;
+    case 'unevaluatedProperties':
+      path += `/${escapePointer(params.unevaluatedProperty)}`;
+      message = 'is not allowed; the schema permits no other properties';
+      break;
+    case 'x-read-only':
+      message = 'is read-only and must not be sent in a request';
+      break;
+    case 'x-write-only':
+      message = 'is write-only and must not appear in a response';
+      break;
+    case 'type':
+      message = `must be ${String(params.type).split(',').join(' or ')}`;
+      break;
+    case 'enum':
+      message = `must be one of: ${params.allowedValues.map((value: any) => JSON.stringify(value)).join(', ')}`;
+      break;
+    case 'const':
+      message = `must be ${JSON.stringify(params.allowedValue)}`;
+      break;
+    case 'format':
+      message = `must be a valid ${params.format}`;
+      break;
+    case 'oneOf':
+      message = params.passingSchemas
+        ? `must match exactly one of the allowed schemas, but matches ${params.passingSchemas.length}`
+        : 'must match exactly one of the allowed schemas';
+      break;
+    case 'anyOf':
+      message = 'must match at least one of the allowed schemas';
+      break;
+    case 'false schema':
+      message = 'is not allowed';
+      break;
+  }
+
+  return { pointer: path || '/', message, keyword: error.keyword };
+}
+
+function escapePointer(token: string): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,430 @@
+import { OpenAPIDocument } from './types.js';
+
+const VARIABLE_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+// Headers that OpenAPI models elsewhere (request body content type, security schemes)
+const IMPLICIT_HEADERS = ['content-type', 'accept', 'authorization'];
+
+interface ConversionContext {
+  variables: Record<string, string>;
+  paths: Record<string, any>;
+  tags: Array<{ name: string; description?: string }>;
+  servers: Map<string, any>;
+  securitySchemes: Record<string, any>;
+  operationIds: Set<string>;
+}
+
+export function isPostmanCollection(spec: any): boolean {
+  const schema = spec?.info?.schema;
+  return typeof schema === 'string' && schema.includes('schema.getpostman.com') && Array.isArray(spec.item);
+}
+
+/**
+ * Convert a Postman Collection (v2.0/v2.1) into an OpenAPI 3 document. Folders become tags,
+ * requests become operations, `{{variables}}` become path or server variables, and example
+ * bodies are used to infer request and response schemas.
+ */
+export function convertPostmanCollection(collection: any): OpenAPIDocument {
+  const context: ConversionContext = {
+    variables: collectVariables(collection.variable),
+    paths: {},
+    tags: [],
+    servers: new Map(),
+    securitySchemes: {},
+    operationIds: new Set()
+  };
+
+  const globalSecurity = convertAuth(collection.auth, context);
+  convertItems(collection.item, [], globalSecurity, context);
+
+  const document: any = {
+    openapi: '3.0.3',
+    info: {
+      title: collection.info.name || 'Postman Collection',
+      version: context.variables.version || '1.0.0',
+      description: getDescription(collection.info.description)
+    },
+    servers: Array.from(context.servers.values()),
+    paths: context.paths
+  };
+  if (context.tags.length > 0) document.tags = context.tags;
+  if (Object.keys(context.securitySchemes).length > 0) {
+    document.components = { securitySchemes: context.securitySchemes };
+  }
+  if (globalSecurity) document.security = globalSecurity;
+
+  return document as OpenAPIDocument;
+}
+
+function convertItems(items: any[], folders: string[], inheritedSecurity: any[] | undefined, context: ConversionContext): void {
+  for (const item of items || []) {
+    if (Array.isArray(item.item)) {
+      // Folders become tags; requests are tagged with their innermost folder
+      if (!context.tags.some(tag => tag.name === item.name)) {
+        const description = getDescription(item.description);
+        context.tags.push(description ? { name: item.name, description } : { name: item.name });
+      }
+      const security = item.auth ? convertAuth(item.auth, context) : inheritedSecurity;
+      convertItems(item.item, [...folders, item.name], security, context);
+    } else if (item.request) {
+      convertRequest(item, folders, inheritedSecurity, context);
+    }
+  }
+}
+
+function convertRequest(item: any, folders: string[], inheritedSecurity: any[] | undefined, context: ConversionContext): void {
+  const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+  const method = (request.method || 'GET').toLowerCase();
+  const url = parseUrl(request.url);
+
+  const parameters: any[] = [];
+  const pathSegments = url.path.map((segment: string) => {
+    // Both `:id` and `{{id}}` segments become templated path parameters
+    const match = segment.match(/^:(.+)$/) || segment.match(/^\{\{([^{}]+)\}\}$/);
+    if (!match) return segment;
+
+    const name = match[1];
+    const variable = (url.variable || []).find((v: any) => v.key === name);
+    const parameter: any = { name, in: 'path', required: true, schema: { type: 'string' } };
+    const description = getDescription(variable?.description);
+    if (description) parameter.description = description;
+    const example = variable?.value ?? context.variables[name];
+    if (example !== undefined && example !== '') parameter.example = example;
+    parameters.push(parameter);
+    return `{${name}}`;
+  });
+  const path = '/' + pathSegments.join('/');
+
+  // Postman can't express whether a query parameter or header is required, so they're all optional
+  for (const query of url.query || []) {
+    if (!query.key || query.disabled) continue;
+    const parameter: any = { name: query.key, in: 'query', schema: { type: 'string' } };
+    const description = getDescription(query.description);
+    if (description) parameter.description = description;
+    if (query.value !== undefined && query.value !== null) parameter.example = resolveVariables(query.value, context.variables);
+    parameters.push(parameter);
+  }
+
+  const headers = Array.isArray(request.header) ? request.header : [];
+  for (const header of headers) {
+    if (!header.key || header.disabled || IMPLICIT_HEADERS.includes(header.key.toLowerCase())) continue;
+    const parameter: any = { name: header.key, in: 'header', schema: { type: 'string' } };
+    const description = getDescription(header.description);
+    if (description) parameter.description = description;
+    if (header.value) parameter.example = resolveVariables(header.value, context.variables);
+    parameters.push(parameter);
+  }
+
+  const operation: any = { summary: item.name };
+  const description = getDescription(request.description);
+  if (description) operation.description = description;
+  if (folders.length > 0) operation.tags = [folders[folders.length - 1]];
+  if (parameters.length > 0) operation.parameters = parameters;
+
+  const contentType = headers.find((h: any) => !h.disabled && h.key?.toLowerCase() === 'content-type')?.value;
+  const requestBody = convertBody(request.body, contentType);
+  if (requestBody) operation.requestBody = requestBody;
+
+  operation.responses = convertResponses(item.response);
+
+  const security = request.auth ? convertAuth(request.auth, context) : inheritedSecurity;
+  if (security && security !== inheritedSecurity) operation.security = security;
+
+  const server = convertServer(url, context);
+  if (server && !context.servers.has(server.url)) {
+    context.servers.set(server.url, server);
+  }
+
+  context.paths[path] = context.paths[path] || {};
+  // OpenAPI allows one operation per method and path, so later requests are folded into the first
+  const existing = context.paths[path][method];
+  if (existing) {
+    mergeOperation(existing, operation);
+  } else {
+    context.paths[path][method] = {
+      operationId: createOperationId(item.name || `${method} ${path}`, context.operationIds),
+      ...operation
+    };
+  }
+}
+
+// Keeps the first request's summary, body and security, and adds whatever the duplicate documents on top
+function mergeOperation(target: any, source: any): void {
+  for (const parameter of source.parameters || []) {
+    target.parameters = target.parameters || [];
+    if (!target.parameters.some((p: any) => p.name === parameter.name && p.in === parameter.in)) {
+      target.parameters.push(parameter);
+    }
+  }
+  if (source.tags && !target.tags) target.tags = source.tags;
+  if (!target.description && source.description) target.description = source.description;
+  if (!target.requestBody) {
+    if (source.requestBody) target.requestBody = source.requestBody;
+  } else if (source.requestBody) {
+    for (const [mediaType, media] of Object.entries(source.requestBody.content || {})) {
+      target.requestBody.content[mediaType] = target.requestBody.content[mediaType] || media;
+    }
+  }
+
+  // A request without saved examples only carries the generic placeholder response
+  if (isPlaceholderResponses(target.responses)) {
+    target.responses = source.responses;
+  } else {
+    for (const [status, response] of Object.entries(source.responses)) {
+      target.responses[status] = target.responses[status] || response;
+    }
+  }
+}
+
+function isPlaceholderResponses(responses: Record<string, any>): boolean {
+  const statuses = Object.keys(responses);
+  return statuses.length === 1 && responses['200']?.description === 'Successful response' && !responses['200'].content;
+}
+
+function parseUrl(url: any): { host: string[]; path: string[]; protocol?: string; port?: string; query?: any[]; variable?: any[] } {
+  if (!url) return { host: [], path: [] };
+  if (typeof url !== 'string') {
+    return {
+      ...url,
+      host: typeof url.host === 'string' ? url.host.split('.') : url.host || [],
+      path: (typeof url.path === 'string' ? url.path.split('/') : url.path || []).filter((s: string) => s !== '')
+    };
+  }
+
+  // Raw URLs may contain {{variables}}, so split them by hand instead of using URL
+  const [withoutQuery, queryString] = url.split('?');
+  const protocolMatch = withoutQuery.match(/^([a-z]+):\/\//i);
+  const rest = protocolMatch ? withoutQuery.slice(protocolMatch[0].length) : withoutQuery;
+  const [host, ...path] = rest.split('/');
+  const query = (queryString || '').split('&').filter(Boolean).map((pair: string) => {
+    const [key, value] = pair.split('=');
+    return { key: decodeURIComponent(key), value: value !== undefined ? decodeURIComponent(value) : undefined };
+  });
+
+  return {
+    protocol: protocolMatch?.[1],
+    host: host ? host.split('.') : [],
+    path: path.filter((s: string) => s !== ''),
+    query
+  };
+}
+
+function convertServer(url: ReturnType<typeof parseUrl>, context: ConversionContext): any {
+  if (url.host.length === 0) return undefined;
+
+  const variables: Record<string, any> = {};
+  const host = url.host.join('.').replace(VARIABLE_PATTERN, (_match, name: string) => {
+    variables[name] = { default: context.variables[name] ?? '' };
+    return `{${name}}`;
+  });
+
+  // A host like {{baseUrl}} usually carries its own protocol
+  const protocol = url.protocol ? `${url.protocol}://` : '';
+  const port = url.port ? `:${url.port}` : '';
+  const server: any = { url: `${protocol}${host}${port}` };
+  if (Object.keys(variables).length > 0) server.variables = variables;
+  return server;
+}
+
+function convertBody(body: any, contentType?: string): any {
+  if (!body || body.disabled) return undefined;
+
+  switch (body.mode) {
+    case 'raw': {
+      if (!body.raw) return undefined;
+      const language = body.options?.raw?.language;
+      const mediaType = contentType || (language === 'json' ? 'application/json' : language === 'xml' ? 'application/xml' : 'text/plain');
+      const example = parseJson(body.raw);
+      const media: any = example !== undefined
+        ? { schema: inferSchema(example), example }
+        : { schema: { type: 'string' }, example: body.raw };
+      return { content: { [mediaType]: media } };
+    }
+    case 'urlencoded':
+      return { content: { 'application/x-www-form-urlencoded': { schema: convertFormFields(body.urlencoded) } } };
+    case 'formdata':
+      return { content: { 'multipart/form-data': { schema: convertFormFields(body.formdata) } } };
+    case 'graphql':
+      return {
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { query: { type: 'string' }, variables: { type: 'object' } },
+              required: ['query']
+            }
+          }
+        }
+      };
+    case 'file':
+      return { content: { [contentType || 'application/octet-stream']: { schema: { type: 'string', format: 'binary' } } } };
+    default:
+      return undefined;
+  }
+}
+
+function convertFormFields(fields: any[] = []): any {
+  const schema: any = { type: 'object', properties: {} };
+  for (const field of fields) {
+    if (!field.key || field.disabled) continue;
+    const property: any = field.type === 'file' ? { type: 'string', format: 'binary' } : { type: 'string' };
+    const description = getDescription(field.description);
+    if (description) property.description = description;
+    if (field.type !== 'file' && field.value !== undefined) property.example = field.value;
+    schema.properties[field.key] = property;
+  }
+  return schema;
+}
+
+function convertResponses(responses: any[] = []): Record<string, any> {
+  const converted: Record<string, any> = {};
+
+  for (const response of responses) {
+    const status = String(response.code || 200);
+    if (converted[status]) continue;
+
+    const result: any = { description: response.name || response.status || 'Example response' };
+    const headers = Array.isArray(response.header) ? response.header : [];
+    const contentType = headers.find((h: any) => h.key?.toLowerCase() === 'content-type')?.value?.split(';')[0]
+      || (response._postman_previewlanguage === 'json' ? 'application/json' : undefined);
+
+    if (response.body) {
+      const example = parseJson(response.body);
+      const mediaType = contentType || (example !== undefined ? 'application/json' : 'text/plain');
+      result.content = {
+        [mediaType]: example !== undefined
+          ? { schema: inferSchema(example), example }
+          : { schema: { type: 'string' }, example: response.body }
+      };
+    }
+
+    converted[status] = result;
+  }
+
+  if (Object.keys(converted).length === 0) {
+    converted['200'] = { description: 'Successful response' };
+  }
+
+  return converted;
+}
+
+function convertAuth(auth: any, context: ConversionContext): any[] | undefined {
+  if (!auth || !auth.type || auth.type === 'noauth') return auth?.type === 'noauth' ? [] : undefined;
+
+  const attributes = readAuthAttributes(auth[auth.type]);
+  let name: string;
+  let scheme: any;
+
+  switch (auth.type) {
+    case 'bearer':
+      name = 'bearerAuth';
+      scheme = { type: 'http', scheme: 'bearer' };
+      break;
+    case 'basic':
+      name = 'basicAuth';
+      scheme = { type: 'http', scheme: 'basic' };
+      break;
+    case 'apikey': {
+      const location = attributes.in === 'query' ? 'query' : 'header';
+      const keyName = attributes.key || 'X-API-Key';
+      name = `apiKey_${keyName}`;
+      scheme = { type: 'apiKey', in: location, name: keyName };
+      break;
+    }
+    case 'oauth2':
+      name = 'oauth2';
+      scheme = {
+        type: 'oauth2',
+        flows: {
+          authorizationCode: {
+            authorizationUrl: attributes.authUrl || '',
+            tokenUrl: attributes.accessTokenUrl || '',
+            scopes: {}
+          }
+        }
+      };
+      break;
+    default:
+      return undefined;
+  }
+
+  context.securitySchemes[name] = scheme;
+  return [{ [name]: [] }];
+}
+
+// v2.1 stores auth attributes as [{ key, value }], v2.0 as a plain object
+function readAuthAttributes(attributes: any): Record<string, any> {
+  if (Array.isArray(attributes)) {
+    return Object.fromEntries(attributes.map(attribute => [attribute.key, attribute.value]));
+  }
+  return attributes || {};
+}
+
+function collectVariables(variables: any[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const variable of variables) {
+    if (variable.key && !variable.disabled) {
+      result[variable.key] = variable.value;
+    }
+  }
+  return result;
+}
+
+function resolveVariables(value: string, variables: Record<string, string>): string {
+  return String(value).replace(VARIABLE_PATTERN, (match, name: string) => variables[name] ?? match);
+}
+
+function getDescription(description: any): string | undefined {
+  if (!description) return undefined;
+  return typeof description === 'string' ? description : description.content;
+}
+
+function createOperationId(name: string, existing: Set<string>): string {
+  const words = name.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const base = words
+    .map((word, index) => index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('') || 'operation';
+
+  let operationId = base;
+  for (let suffix = 2; existing.has(operationId); suffix++) {
+    operationId = `${base}${suffix}`;
+  }
+  existing.add(operationId);
+  return operationId;
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function inferSchema(value: any): any {
+  if (value === null) return { nullable: true };
+  if (Array.isArray(value)) {
+    return value.length > 0 ? { type: 'array', items: inferSchema(value[0]) } : { type: 'array', items: {} };
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'string':
+      if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return { type: 'string', format: 'date-time' };
+      if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return { type: 'string', format: 'uuid' };
+      return { type: 'string' };
+    case 'object': {
+      const properties: Record<string, any> = {};
+      for (const [key, property] of Object.entries(value)) {
+        properties[key] = inferSchema(property);
+      }
+      const required = Object.keys(value);
+      return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+    }
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,364 @@
+import { ReferenceEdge, ReferenceGraph, SchemaUsage, SchemaUsageReport } from './types.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
+
+// Swagger 2.0 keeps components at the top level; edges always use OpenAPI 3 pointers
+const SWAGGER2_COMPONENTS: Record<string, string> = {
+  definitions: 'schemas',
+  parameters: 'parameters',
+  responses: 'responses'
+};
+
+// Referenced by name from `security` requirements rather than by $ref, so never reported as unused
+const NAME_REFERENCED_KINDS = new Set(['securitySchemes']);
+
+const KIND_LABELS: Record<string, SchemaUsage['kind']> = {
+  schemas: 'schema',
+  parameters: 'parameter',
+  requestBodies: 'requestBody',
+  responses: 'response',
+  headers: 'header'
+};
+
+/** The documents a spec was resolved from, keyed by URL without a fragment. */
+export interface ReferenceSources {
+  url: string;
+  documents: Map<string, any>;
+}
+
+/**
+ * Record every $ref in a document before dereferencing inlines it: which component each
+ * operation and component points at, and where. With the external documents the parser read,
+ * refs inside split files are followed too and mapped back onto the root's components, so an
+ * operation in `paths/orders.yaml` that points at `../openapi.yaml#/components/schemas/Order`
+ * uses `Order`, and so does `Order: { $ref: ./schemas/order.yaml }` for whatever that file uses.
+ */
+export function buildReferenceGraph(document: any, sources?: ReferenceSources): ReferenceGraph {
+  const swagger2 = typeof document?.swagger === 'string' && document.swagger.startsWith('2.');
+  const components: string[] = [];
+  const edges: ReferenceEdge[] = [];
+  const ids = new Map<string, string>();
+  const rootUrl = sources?.url;
+  const documents = new Map<string, any>(rootUrl ? [[rootUrl, document]] : []);
+  for (const [url, external] of sources?.documents || []) documents.set(url, external);
+  // External locations that stand in for a root component, like `Order: { $ref: ./order.yaml }`
+  const aliases = new Map<string, string>();
+
+  const componentMaps: Array<[string, any]> = swagger2
+    ? Object.entries(SWAGGER2_COMPONENTS).map(([key, kind]) => [kind, document[key]])
+    : Object.entries(document?.components || {});
+
+  for (const [kind, map] of componentMaps) {
+    if (!map || typeof map !== 'object') continue;
+    for (const [name, component] of Object.entries<any>(map)) {
+      const pointer = componentPointer(kind, name);
+      components.push(pointer);
+      if (kind === 'schemas' && typeof component?.$id === 'string') ids.set(component.$id, pointer);
+      if (rootUrl && typeof component?.$ref === 'string' && !component.$ref.startsWith('#')) {
+        const location = resolveLocation(rootUrl, component.$ref);
+        if (location && !location.startsWith(`${rootUrl}#`)) aliases.set(location, pointer);
+      }
+    }
+  }
+
+  // The root component a ref points into, whichever file the ref was written in
+  const targetOf = (ref: string, base: string | undefined): string | undefined => {
+    if (base === rootUrl && (ref.startsWith('#') || ids.has(ref.split('#')[0]))) return normalizeRef(ref, swagger2, ids);
+    const location = base && resolveLocation(base, ref);
+    if (!location) return undefined;
+    if (location.startsWith(`${rootUrl}#`)) return normalizeRef(location.slice(rootUrl!.length), swagger2, ids);
+    for (const [alias, pointer] of aliases) {
+      if (location === alias || location.startsWith(`${alias.endsWith('#') ? alias : `${alias}/`}`)) return pointer;
+    }
+    return undefined;
+  };
+
+  // Refs to anything but another component are followed, so external files count as inline
+  const collect = (from: string, root: any, node: any, location: string[], base: string | undefined, visited: Set<any>) => {
+    if (!node || typeof node !== 'object' || visited.has(node)) return;
+    visited.add(node);
+
+    if (typeof node.$ref === 'string') {
+      const to = targetOf(node.$ref, base);
+      if (to) {
+        edges.push({ from, to, location: describeLocation(root, location, swagger2) });
+      } else if (base) {
+        const target = lookup(documents, resolveLocation(base, node.$ref));
+        if (target) collect(from, root, target.node, location, target.url, visited);
+      }
+    }
+    // Discriminator mappings point at schemas by ref or by bare name, without using $ref
+    const mapping = node.discriminator?.mapping;
+    if (mapping && typeof mapping === 'object') {
+      for (const value of Object.values<any>(mapping)) {
+        if (typeof value !== 'string') continue;
+        const to = value.includes('/') ? targetOf(value, base) : componentPointer('schemas', value);
+        if (to) edges.push({ from, to, location: describeLocation(root, [...location, 'discriminator'], swagger2) });
+      }
+    }
+    for (const [key, value] of Object.entries(node)) {
+      // Examples are data, whatever keys they happen to contain
+      if (key === 'example' || key === 'x-examples') continue;
+      collect(from, root, value, [...location, key], base, visited);
+    }
+  };
+
+  for (const [kind, map] of componentMaps) {
+    if (!map || typeof map !== 'object') continue;
+    for (const [name, component] of Object.entries<any>(map)) {
+      const pointer = componentPointer(kind, name);
+      const { root, location } = wrapComponent(kind, name, component);
+      // A component that is only a ref to another file is described by that file
+      const alias = rootUrl && typeof component?.$ref === 'string' ? resolveLocation(rootUrl, component.$ref) : undefined;
+      const target = alias && aliases.get(alias) === pointer ? lookup(documents, alias) : undefined;
+      collect(pointer, root, target ? target.node : component, location, target ? target.url : rootUrl, new Set());
+    }
+  }
+
+  const pathGroups: Array<[any, boolean]> = [[document?.paths, false], [document?.webhooks, true]];
+  for (const [paths, webhook] of pathGroups) {
+    for (const [path, rawPathItem] of Object.entries<any>(paths || {})) {
+      const { node: pathItem, url: base } = resolvePathItem(document, documents, rawPathItem, rootUrl);
+      if (!pathItem || typeof pathItem !== 'object') continue;
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) continue;
+        const from = `${method.toUpperCase()} ${webhook ? 'webhook ' : ''}${path}`;
+        const visited = new Set<any>();
+        if (pathItem !== rawPathItem) {
+          const to = targetOf(rawPathItem.$ref, rootUrl);
+          if (to) edges.push({ from, to, location: describeLocation(rawPathItem, ['pathItem'], swagger2) });
+        }
+        // Path-level parameters apply to every operation under the path
+        collect(from, pathItem, pathItem.parameters, ['parameters'], base, visited);
+        collect(from, operation, operation, [], base, visited);
+      }
+    }
+  }
+
+  return { components, edges, documents: [...documents.keys()] };
+}
+
+/**
+ * Everything that uses a component schema, nearest first. Transitive users carry the chain of
+ * components between them and the schema, so `POST /orders` reaches `Product` via
+ * `Order.items[]` and `LineItem.product`.
+ */
+export function findSchemaUsages(graph: ReferenceGraph, schema: string, transitive = true): SchemaUsageReport {
+  const target = componentPointer('schemas', schema);
+  const incoming = new Map<string, ReferenceEdge[]>();
+  for (const edge of graph.edges) {
+    if (!incoming.has(edge.to)) incoming.set(edge.to, []);
+    incoming.get(edge.to)!.push(edge);
+  }
+
+  const usages: SchemaUsage[] = [];
+  const chains = new Map<string, string[]>([[target, []]]);
+  const queue = [target];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const chain = chains.get(current)!;
+
+    for (const edge of incoming.get(current) || []) {
+      const component = parseComponentPointer(edge.from);
+      const usage: SchemaUsage = component
+        ? { kind: KIND_LABELS[component.kind] || 'component', name: component.name, location: edge.location }
+        : { kind: 'operation', name: edge.from, location: edge.location };
+      if (chain.length > 0) usage.via = chain;
+      usages.push(usage);
+
+      if (transitive && component && !chains.has(edge.from)) {
+        chains.set(edge.from, [describeHop(component, edge.location), ...chain]);
+        queue.push(edge.from);
+      }
+    }
+  }
+
+  const operations = [...new Set(usages.filter(usage => usage.kind === 'operation').map(usage => usage.name))];
+  return { schema, operations, usages };
+}
+
+/**
+ * Components no operation reaches, directly or through other components. A schema only used by
+ * an unused response is unused too.
+ */
+export function findUnusedComponents(graph: ReferenceGraph): string[] {
+  const outgoing = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (!outgoing.has(edge.from)) outgoing.set(edge.from, []);
+    outgoing.get(edge.from)!.push(edge.to);
+  }
+
+  const used = new Set<string>();
+  const pending = graph.edges.filter(edge => !edge.from.startsWith('#/')).map(edge => edge.to);
+  while (pending.length > 0) {
+    const pointer = pending.pop()!;
+    if (used.has(pointer)) continue;
+    used.add(pointer);
+    pending.push(...(outgoing.get(pointer) || []));
+  }
+
+  return graph.components.filter(pointer => {
+    const component = parseComponentPointer(pointer);
+    return !used.has(pointer) && !!component && !NAME_REFERENCED_KINDS.has(component.kind);
+  });
+}
+
+export function componentPointer(kind: string, name: string): string {
+  return `#/components/${kind}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+export function parseComponentPointer(pointer: string): { kind: string; name: string } | undefined {
+  const match = /^#\/components\/([^/]+)\/([^/]+)$/.exec(pointer);
+  return match ? { kind: match[1], name: match[2].replace(/~1/g, '/').replace(/~0/g, '~') } : undefined;
+}
+
+// Components are described as if they sat in an operation, so a component parameter reads like an inline one
+function wrapComponent(kind: string, name: string, component: any): { root: any; location: string[] } {
+  switch (kind) {
+    case 'schemas':
+      return { root: { schema: component }, location: ['schema'] };
+    case 'parameters':
+      return { root: { parameters: [component] }, location: ['parameters', '0'] };
+    case 'requestBodies':
+      return { root: { requestBody: component }, location: ['requestBody'] };
+    case 'responses':
+      return { root: { responses: { [name]: component } }, location: ['responses', name] };
+    default:
+      return { root: component, location: [] };
+  }
+}
+
+// Path items can be shared with a $ref, to another path, to components/pathItems or to another file
+function resolvePathItem(document: any, documents: Map<string, any>, node: any, rootUrl: string | undefined): { node: any; url: string | undefined } {
+  let url = rootUrl;
+  const seen = new Set<string>();
+  while (node && typeof node.$ref === 'string') {
+    const location = url ? resolveLocation(url, node.$ref) : node.$ref.startsWith('#/') ? node.$ref : undefined;
+    if (!location || seen.has(location)) break;
+    seen.add(location);
+    const target = url ? lookup(documents, location) : { node: resolvePointer(document, location.slice(1)), url };
+    if (!target) break;
+    ({ node, url } = target);
+  }
+  return { node, url };
+}
+
+// `./order.yaml#/properties/id` read from `file:///specs/openapi.yaml` is `file:///specs/order.yaml#/properties/id`
+function resolveLocation(base: string, ref: string): string | undefined {
+  const [file, fragment = ''] = ref.split('#');
+  try {
+    return `${file ? new URL(file, base).href : base}#${fragment}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function lookup(documents: Map<string, any>, location: string | undefined): { node: any; url: string } | undefined {
+  if (!location) return undefined;
+  const [url, fragment] = location.split('#');
+  const document = documents.get(url);
+  const node = document === undefined ? undefined : resolvePointer(document, fragment);
+  return node === undefined ? undefined : { node, url };
+}
+
+function resolvePointer(document: any, pointer: string): any {
+  const tokens = pointer.split('/').slice(1).map(token => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'));
+  return tokens.reduce((current: any, token: string) => current?.[token], document);
+}
+
+// The component a $ref points into: `#/components/schemas/Order/properties/id` is `Order`
+function normalizeRef(ref: string, swagger2: boolean, ids: Map<string, string>): string | undefined {
+  if (ref.startsWith('#/')) {
+    const tokens = ref.slice(2).split('/');
+    if (tokens[0] === 'components' && tokens.length >= 3) return `#/components/${tokens[1]}/${tokens[2]}`;
+    if (swagger2 && SWAGGER2_COMPONENTS[tokens[0]] && tokens.length >= 2) {
+      return `#/components/${SWAGGER2_COMPONENTS[tokens[0]]}/${tokens[1]}`;
+    }
+    return undefined;
+  }
+  return ids.get(ref.split('#')[0]);
+}
+
+function describeHop(component: { kind: string; name: string }, location: string): string {
+  if (component.kind === 'schemas') {
+    if (!location) return component.name;
+    return location.startsWith('[') || location.startsWith('(') ? `${component.name}${location}` : `${component.name}.${location}`;
+  }
+  return `${KIND_LABELS[component.kind] || component.kind} ${component.name}`;
+}
+
+/**
+ * Turn a JSON location inside an operation into words: `parameter limit (query)`,
+ * `request body application/json > items[].product`, `response 200 header X-Rate-Limit`.
+ */
+function describeLocation(root: any, location: string[], swagger2: boolean): string {
+  const [section, key, ...rest] = location;
+
+  if (section === 'schema') return schemaPath(location.slice(1));
+
+  if (section === 'parameters') {
+    const parameter = root?.parameters?.[Number(key)];
+    if (rest.length === 0 || !parameter || parameter.$ref) return 'parameter';
+    // Swagger 2.0 bodies are parameters
+    if (swagger2 && parameter.in === 'body') return withSchemaPath('request body', rest.slice(1));
+    return describeContent(`parameter ${parameter.name} (${parameter.in})`, rest);
+  }
+
+  if (section === 'requestBody') {
+    return describeContent('request body', location.slice(1));
+  }
+
+  if (section === 'responses' && key !== undefined) {
+    if (rest[0] === 'headers' && rest[1] !== undefined) {
+      return describeContent(`response ${key} header ${rest[1]}`, rest.slice(2));
+    }
+    return describeContent(`response ${key}`, rest);
+  }
+
+  if (section === 'callbacks' && key !== undefined) return `callback ${key}`;
+  if (section === 'pathItem') return 'path item';
+  return location.join('.');
+}
+
+// What follows a parameter, body or response: `content/<type>/schema/...` or a bare `schema/...`
+function describeContent(label: string, rest: string[]): string {
+  if (rest[0] === 'content' && rest[1] !== undefined) {
+    const media = `${label} ${rest[1]}`;
+    if (rest[2] === 'schema') return withSchemaPath(media, rest.slice(3));
+    if (rest[2] === 'examples') return `${media} example${rest[3] ? ` ${rest[3]}` : ''}`;
+    return media;
+  }
+  if (rest[0] === 'schema') return withSchemaPath(label, rest.slice(1));
+  if (rest[0] === 'examples' && rest[1] !== undefined) return `${label} example ${rest[1]}`;
+  return label;
+}
+
+function withSchemaPath(label: string, location: string[]): string {
+  const path = schemaPath(location);
+  return path ? `${label} > ${path}` : label;
+}
+
+// `properties/items/items/properties/product` → `items[].product`
+function schemaPath(location: string[]): string {
+  let path = '';
+  for (let i = 0; i < location.length; i++) {
+    const key = location[i];
+    if ((key === 'properties' || key === 'patternProperties') && location[i + 1] !== undefined) {
+      path += `.${location[++i]}`;
+    } else if (key === 'items') {
+      path += '[]';
+    } else if (key === 'prefixItems' && location[i + 1] !== undefined) {
+      path += `[${location[++i]}]`;
+    } else if (key === 'additionalProperties') {
+      path += '{}';
+    } else if (['allOf', 'oneOf', 'anyOf'].includes(key) && location[i + 1] !== undefined) {
+      path += `(${key})`;
+      i++;
+    } else {
+      path += `.${key}`;
+    }
+  }
+  return path.replace(/^\./, '');
+}
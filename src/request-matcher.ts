@@ -0,0 +1,242 @@
+import { OpenAPIDocument } from './types.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
+
+// How specific a template segment is: literal segments beat mixed ones like `{id}.json`, which beat bare parameters
+const LITERAL = 2;
+const MIXED = 1;
+const PARAMETER = 0;
+
+export interface PathMatch {
+  path: string;
+  method: string;
+  server?: string;
+  pathParameters: Record<string, string>;
+  queryParameters: Record<string, string | string[]>;
+}
+
+interface CompiledTemplate {
+  path: string;
+  pathItem: any;
+  segments: Array<{ pattern: RegExp; names: string[]; specificity: number }>;
+}
+
+interface ServerPrefix {
+  url: string;
+  host?: RegExp;
+  path?: RegExp; // Anchored at the start of the request path
+}
+
+/**
+ * Split "GET https://api.example.com/v1/users/42?limit=5" into its method and URL. The method
+ * can also be passed separately, and URLs without a scheme or host are treated as paths.
+ */
+export function parseRequestLine(request: string, method?: string): { method: string; url: URL; relative: boolean } {
+  let target = request.trim();
+  const line = /^([A-Za-z]+)\s+(\S+)/.exec(target);
+  if (line && HTTP_METHODS.includes(line[1].toLowerCase())) {
+    method = method || line[1];
+    target = line[2];
+  }
+  if (!method) {
+    throw new Error('No HTTP method given: pass method or start the request with one, e.g. "GET /users/42"');
+  }
+
+  let relative = false;
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(target)) {
+    // "api.example.com/v1/users" has a host, "users/42" doesn't
+    const first = target.split(/[/?#]/)[0];
+    if (/[.:]/.test(first) || first === 'localhost') {
+      target = `http://${target}`;
+    } else {
+      relative = true;
+      target = `http://localhost${target.startsWith('/') ? '' : '/'}${target}`;
+    }
+  }
+
+  try {
+    return { method: method.toUpperCase(), url: new URL(target), relative };
+  } catch {
+    throw new Error(`Invalid request URL: ${request}`);
+  }
+}
+
+/**
+ * Find the path template and operation a concrete request was made to. The server base URL is
+ * stripped first (the longest declared server path that prefixes the request), then the rest is
+ * matched against every path template, preferring literal segments over parameters from left to
+ * right, so `/users/me` wins over `/users/{id}`.
+ *
+ * Returns null when no template matches, and throws when templates match but none of them
+ * has an operation for the method.
+ */
+export function matchRequestPath(spec: OpenAPIDocument, method: string, url: URL, relative = false): PathMatch | null {
+  const templates = Object.entries(spec.paths || {})
+    .filter(([, pathItem]) => pathItem && typeof pathItem === 'object')
+    .map(([path, pathItem]) => compileTemplate(path, pathItem));
+  const requestSegments = splitPath(url.pathname);
+  const allowedMethods = new Set<string>();
+
+  for (const server of getServerPrefixes(spec, url, relative)) {
+    let remaining = requestSegments;
+    if (server.path) {
+      const prefix = server.path.exec(url.pathname);
+      if (!prefix) continue;
+      remaining = splitPath(url.pathname.slice(prefix[0].length));
+    }
+
+    let best: { template: CompiledTemplate; values: Record<string, string>; score: number[] } | undefined;
+    for (const template of templates) {
+      const values = matchSegments(template, remaining);
+      if (!values) continue;
+
+      const operation = template.pathItem[method.toLowerCase()];
+      if (!operation) {
+        HTTP_METHODS.filter(m => template.pathItem[m]).forEach(m => allowedMethods.add(m.toUpperCase()));
+        continue;
+      }
+
+      const score = template.segments.map(segment => segment.specificity);
+      if (!best || compareScores(score, best.score) > 0) {
+        best = { template, values, score };
+      }
+    }
+
+    if (best) {
+      return {
+        path: best.template.path,
+        method: method.toUpperCase(),
+        server: server.url || undefined,
+        pathParameters: best.values,
+        queryParameters: parseQuery(url.searchParams)
+      };
+    }
+  }
+
+  if (allowedMethods.size > 0) {
+    throw new Error(`No ${method.toUpperCase()} operation matches ${url.pathname}; the matching path supports ${[...allowedMethods].join(', ')}`);
+  }
+  return null;
+}
+
+function splitPath(pathname: string): string[] {
+  const segments = pathname.split('/').filter((segment, index) => index > 0 || segment !== '');
+  // A trailing slash doesn't change which template matches
+  while (segments.length > 0 && segments[segments.length - 1] === '') segments.pop();
+  return segments;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileTemplate(path: string, pathItem: any): CompiledTemplate {
+  const segments = splitPath(path).map(segment => {
+    const names: string[] = [];
+    const parts = segment.split(/(\{[^}]+\})/).filter(Boolean);
+    const source = parts.map(part => {
+      const parameter = /^\{([^}]+)\}$/.exec(part);
+      if (!parameter) return escapeRegExp(part);
+      names.push(parameter[1]);
+      return '([^/]+?)';
+    }).join('');
+
+    const specificity = names.length === 0 ? LITERAL : parts.length > names.length ? MIXED : PARAMETER;
+    return { pattern: new RegExp(`^${source}$`), names, specificity };
+  });
+  return { path, pathItem, segments };
+}
+
+function matchSegments(template: CompiledTemplate, segments: string[]): Record<string, string> | null {
+  if (template.segments.length !== segments.length) return null;
+
+  const values: Record<string, string> = {};
+  for (let i = 0; i < segments.length; i++) {
+    const match = template.segments[i].pattern.exec(segments[i]);
+    if (!match) return null;
+    template.segments[i].names.forEach((name, index) => {
+      values[name] = decode(match[index + 1]);
+    });
+  }
+  return values;
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Repeated keys (`?tag=a&tag=b`) become arrays
+function parseQuery(params: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of params) {
+    const existing = query[key];
+    query[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  return query;
+}
+
+/**
+ * Server URLs the request may have been made against, most specific first: servers on the
+ * request's host before others, then longer base paths before shorter ones. A final entry
+ * without a prefix covers requests made straight to the path.
+ */
+function getServerPrefixes(spec: OpenAPIDocument, url: URL, relative: boolean): ServerPrefix[] {
+  const servers = new Map<string, any>();
+  const addServers = (list: any) => {
+    for (const server of Array.isArray(list) ? list : []) {
+      if (typeof server?.url === 'string' && !servers.has(server.url)) servers.set(server.url, server);
+    }
+  };
+  addServers(spec.servers);
+  for (const pathItem of Object.values<any>(spec.paths || {})) {
+    addServers(pathItem?.servers);
+    for (const method of HTTP_METHODS) addServers(pathItem?.[method]?.servers);
+  }
+
+  const prefixes: Array<ServerPrefix & { length: number; sameHost: boolean }> = [];
+  for (const server of servers.values()) {
+    const absolute = /^([a-z][a-z0-9+.-]*:)?\/\/([^/]*)(.*)$/i.exec(server.url);
+    const host = absolute ? absolute[2] : undefined;
+    const basePath = (absolute ? absolute[3] : server.url.replace(/^\/?/, '/')).replace(/\/+$/, '');
+
+    const prefix: ServerPrefix & { length: number; sameHost: boolean } = {
+      url: server.url,
+      length: basePath.length,
+      sameHost: false
+    };
+    if (host) {
+      prefix.host = new RegExp(`^${templateToPattern(host, server.variables, '[^/]+')}$`, 'i');
+      prefix.sameHost = !relative && prefix.host.test(url.host);
+    }
+    if (basePath) {
+      prefix.path = new RegExp(`^${templateToPattern(basePath, server.variables, '[^/]+')}(?=/|$)`);
+    }
+    prefixes.push(prefix);
+  }
+
+  prefixes.sort((a, b) => Number(b.sameHost) - Number(a.sameHost) || b.length - a.length);
+  return [...prefixes.filter(prefix => prefix.path), { url: '' }];
+}
+
+// Server variables with an enum only match those values; others match any segment text
+function templateToPattern(template: string, variables: any, wildcard: string): string {
+  return template.split(/(\{[^}]+\})/).filter(Boolean).map(part => {
+    const variable = /^\{([^}]+)\}$/.exec(part);
+    if (!variable) return escapeRegExp(part);
+    const values = variables?.[variable[1]]?.enum;
+    return Array.isArray(values) && values.length > 0
+      ? `(?:${values.map((value: any) => escapeRegExp(String(value))).join('|')})`
+      : wildcard;
+  }).join('');
+}
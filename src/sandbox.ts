@@ -0,0 +1,211 @@
+import { realpath } from 'fs/promises';
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { isIP, LookupFunction } from 'net';
+import { basename, delimiter, dirname, isAbsolute, join, relative, resolve } from 'path';
+
+/**
+ * Limits on what spec sources and generated files may touch, for deployments where the agent
+ * shouldn't be able to read or write arbitrary paths or reach internal services:
+ *
+ * - JANUS_READ_ROOTS: directories spec, overlay, rules and HAR files may be read from
+ * - JANUS_WRITE_ROOTS: directories generated documentation and changelogs may be written to
+ * - JANUS_URL_ALLOWLIST / JANUS_URL_DENYLIST: comma-separated hosts, `*.example.com` for subdomains
+ * - JANUS_ALLOW_PRIVATE_URLS: allow loopback, private and link-local addresses, which are blocked
+ *   by default unless the host is on the allowlist
+ *
+ * Root lists use the platform path delimiter (`:` or `;`). Unset lists don't restrict anything.
+ */
+export class SandboxError extends Error {
+  constructor(message: string) {
+    super(`Access denied: ${message}`);
+    this.name = 'SandboxError';
+  }
+}
+
+interface UrlPolicy {
+  allow: string[];
+  deny: string[];
+  allowPrivate: boolean;
+}
+
+function readList(name: string, separator: string): string[] {
+  return (process.env[name] || '').split(separator).map(entry => entry.trim()).filter(Boolean);
+}
+
+function getRoots(name: string): string[] {
+  return readList(name, delimiter).map(root => resolve(root));
+}
+
+function getUrlPolicy(): UrlPolicy {
+  const allowPrivate = process.env.JANUS_ALLOW_PRIVATE_URLS?.toLowerCase();
+  return {
+    allow: readList('JANUS_URL_ALLOWLIST', ',').map(host => host.toLowerCase()),
+    deny: readList('JANUS_URL_DENYLIST', ',').map(host => host.toLowerCase()),
+    allowPrivate: allowPrivate === 'true' || allowPrivate === '1'
+  };
+}
+
+function isWithin(path: string, root: string): boolean {
+  const relativePath = relative(root, path);
+  return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+}
+
+// Symlinks are resolved so a link inside a root can't point outside it
+async function resolveRealPath(path: string): Promise<string> {
+  const absolute = resolve(path);
+  try {
+    return await realpath(absolute);
+  } catch {
+    // Not created yet: resolve the closest existing ancestor instead
+    const parent = dirname(absolute);
+    return parent === absolute ? absolute : join(await resolveRealPath(parent), basename(absolute));
+  }
+}
+
+async function isUnderRoots(path: string, roots: string[]): Promise<boolean> {
+  const real = await resolveRealPath(path);
+  for (const root of roots) {
+    if (isWithin(real, await resolveRealPath(root))) return true;
+  }
+  return false;
+}
+
+export async function assertReadable(path: string): Promise<void> {
+  const roots = getRoots('JANUS_READ_ROOTS');
+  if (roots.length > 0 && !(await isUnderRoots(path, roots))) {
+    throw new SandboxError(`${resolve(path)} is outside the readable roots (JANUS_READ_ROOTS: ${roots.join(delimiter)})`);
+  }
+}
+
+// Filenames are names, not paths: separators and `..` would let a write escape the output directory
+export function assertSafeFilename(filename: string): void {
+  if (!filename || filename === '.' || filename === '..' || /[/\\\0]/.test(filename) || basename(filename) !== filename) {
+    throw new SandboxError(`invalid filename "${filename}"; use a plain file name and pass the directory as outputDirectory`);
+  }
+}
+
+/**
+ * Where to write `filename` in `outputDirectory`, after checking the name and that the
+ * directory is inside a writable root.
+ */
+export async function resolveOutputPath(outputDirectory: string, filename: string): Promise<string> {
+  assertSafeFilename(filename);
+
+  const roots = getRoots('JANUS_WRITE_ROOTS');
+  const filePath = join(resolve(outputDirectory), filename);
+  if (roots.length > 0 && !(await isUnderRoots(filePath, roots))) {
+    throw new SandboxError(`${resolve(outputDirectory)} is outside the writable roots (JANUS_WRITE_ROOTS: ${roots.join(delimiter)})`);
+  }
+  return filePath;
+}
+
+function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.') || pattern.startsWith('.')) {
+    const suffix = pattern.replace(/^\*?\./, '');
+    return host === suffix || host.endsWith(`.${suffix}`);
+  }
+  return host === pattern;
+}
+
+/** Loopback, private, link-local (including cloud metadata), CGNAT, unspecified and multicast addresses. */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 100 && b >= 64 && b <= 127);
+  }
+
+  if (isIP(ip) === 6) {
+    const bytes = ipv6Bytes(ip);
+
+    // IPv4-mapped (::ffff:0:0/96), NAT64 (64:ff9b::/96) and IPv4-compatible (::/96) addresses reach
+    // the IPv4 address in their last four bytes, however the URL parser wrote them; :: and ::1 are
+    // in ::/96 as 0.0.0.0 and 0.0.0.1
+    const prefix = bytes.slice(0, 12).join('.');
+    if (prefix === '0.0.0.0.0.0.0.0.0.0.255.255' || prefix === '0.100.255.155.0.0.0.0.0.0.0.0' || prefix === '0.0.0.0.0.0.0.0.0.0.0.0') {
+      return isPrivateAddress(bytes.slice(12).join('.'));
+    }
+    return (bytes[0] & 0xfe) === 0xfc || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || bytes[0] === 0xff;
+  }
+
+  return false;
+}
+
+// The 16 bytes of a valid IPv6 address, expanding `::` and a dotted IPv4 tail
+function ipv6Bytes(ip: string): number[] {
+  const address = ip.replace(/%.*$/, '').replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) =>
+    `${((+a << 8) | +b).toString(16)}:${((+c << 8) | +d).toString(16)}`);
+
+  const [head, tail] = address.split('::');
+  const groups = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const before = groups(head);
+  const after = groups(tail);
+  const words = tail === undefined ? before : [...before, ...Array(8 - before.length - after.length).fill(0), ...after];
+  return words.flatMap(word => [word >> 8, word & 0xff]);
+}
+
+function privateAddressError(host: string, address: string): SandboxError {
+  return new SandboxError(`${host} resolves to the private address ${address}; add it to JANUS_URL_ALLOWLIST or set JANUS_ALLOW_PRIVATE_URLS=true`);
+}
+
+function requiresPublicAddress(host: string, policy: UrlPolicy): boolean {
+  return !policy.allowPrivate && !policy.allow.some(pattern => matchesHost(host, pattern));
+}
+
+/**
+ * Check a URL against the host allowlist and denylist, and unless private addresses are allowed
+ * for it, check what the host resolves to. Called for every request, including each redirect.
+ */
+export async function assertUrlAllowed(url: URL): Promise<void> {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const policy = getUrlPolicy();
+
+  if (policy.deny.some(pattern => matchesHost(host, pattern))) {
+    throw new SandboxError(`${host} is on the URL denylist (JANUS_URL_DENYLIST)`);
+  }
+  if (policy.allow.length > 0 && !policy.allow.some(pattern => matchesHost(host, pattern))) {
+    throw new SandboxError(`${host} is not on the URL allowlist (JANUS_URL_ALLOWLIST)`);
+  }
+  if (!requiresPublicAddress(host, policy)) return;
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = await new Promise<string[]>((resolveAddresses, reject) => {
+        dnsLookup(host, { all: true }, (error, results) => error ? reject(error) : resolveAddresses(results.map(result => result.address)));
+      });
+    } catch {
+      // Unresolvable hosts fail when the request is made, with a clearer network error
+      return;
+    }
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) throw privateAddressError(host, blocked);
+}
+
+/**
+ * A DNS lookup for direct connections that refuses private addresses, so a host can't pass
+ * assertUrlAllowed and then resolve somewhere internal when the connection is made.
+ */
+export function getGuardedLookup(url: URL): LookupFunction | undefined {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!requiresPublicAddress(host, getUrlPolicy())) return undefined;
+
+  return ((hostname: string, options: any, callback: (...args: any[]) => void) => {
+    dnsLookup(hostname, options, (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => {
+      if (error) return callback(error, address, family);
+      const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+      const blocked = addresses.find(isPrivateAddress);
+      if (blocked) return callback(privateAddressError(hostname, blocked), address, family);
+      callback(null, address, family);
+    });
+  }) as LookupFunction;
+}
@@ -0,0 +1,223 @@
+import { SchemaConstraints, SchemaNode } from './types.js';
+import { formatSchemaType } from './transformers.js';
+
+const CONSTRAINT_KEYWORDS: Array<keyof SchemaConstraints> = [
+  'enum', 'const', 'format', 'pattern', 'default',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'minLength', 'maxLength', 'minItems', 'maxItems', 'uniqueItems', 'minProperties', 'maxProperties',
+  'nullable', 'readOnly', 'writeOnly', 'deprecated'
+];
+
+const COMPONENT_REF = /^#\/(?:components\/schemas|definitions)\/([^/]+)$/;
+
+/**
+ * Walks dereferenced schemas a piece at a time instead of dumping whole component maps.
+ * Dereferenced specs share one object per component schema, and the cache restores that sharing,
+ * so named components are recognized by identity. The $refs breakCircularReferences leaves behind
+ * are followed by name.
+ */
+export class SchemaExplorer {
+  private names = new Map<any, string>();
+
+  constructor(private schemas: Record<string, any>) {
+    for (const [name, schema] of Object.entries(schemas)) {
+      if (schema && typeof schema === 'object') this.names.set(schema, name);
+    }
+  }
+
+  getSchema(name: string): any {
+    const schema = this.schemas[name];
+    if (!schema) {
+      const names = Object.keys(this.schemas);
+      const similar = names.filter(candidate => candidate.toLowerCase().includes(name.toLowerCase()));
+      const suggestions = (similar.length > 0 ? similar : names).slice(0, 20);
+      throw new Error(`Schema not found: ${name}${suggestions.length > 0 ? `. ${similar.length > 0 ? 'Similar' : 'Available'}: ${suggestions.join(', ')}` : ''}`);
+    }
+    return schema;
+  }
+
+  /**
+   * Follow a property path such as `items[].product.price` down from a schema. `[]` steps into
+   * array items; properties are looked up through allOf and, failing that, oneOf/anyOf variants.
+   */
+  resolvePath(schema: any, propertyPath: string, label: string): any {
+    let current = schema;
+    let location = label;
+
+    for (const segment of parsePropertyPath(propertyPath)) {
+      current = this.resolveRef(current);
+      if (segment === '[]') {
+        const items = current?.items ?? current?.prefixItems?.[0];
+        if (!items) throw new Error(`${location} is not an array`);
+        current = items;
+        location += '[]';
+        continue;
+      }
+
+      const property = this.findProperty(current, segment);
+      if (!property) {
+        const available = this.listProperties(current);
+        throw new Error(`Property "${segment}" not found in ${location}${available.length > 0 ? `; available properties: ${available.join(', ')}` : ''}`);
+      }
+      current = property;
+      location += `.${segment}`;
+    }
+
+    return current;
+  }
+
+  describe(schema: any, depth: number): SchemaNode {
+    return this.describeNode(schema, depth, new Set());
+  }
+
+  private describeNode(schema: any, depth: number, ancestors: Set<any>, name?: string, required?: boolean): SchemaNode {
+    const resolved = this.resolveRef(schema) || {};
+    const merged = this.mergeAllOf(resolved);
+
+    const node: SchemaNode = { type: this.formatType(resolved) };
+    if (name !== undefined) node.name = name;
+    const ref = this.nameOf(resolved);
+    if (ref) node.ref = ref;
+    if (required) node.required = true;
+    if (merged.description) node.description = merged.description;
+    const constraints = this.extractConstraints(merged);
+    if (constraints) node.constraints = constraints;
+
+    const key = ref || resolved;
+    if (ancestors.has(key)) {
+      node.circular = true;
+      return node;
+    }
+
+    const properties = Object.entries<any>(merged.properties || {});
+    const additional = merged.additionalProperties && typeof merged.additionalProperties === 'object' ? merged.additionalProperties : undefined;
+    const items = merged.items ?? merged.prefixItems?.[0];
+    const oneOf: any[] | undefined = Array.isArray(merged.oneOf) ? merged.oneOf : undefined;
+    const anyOf: any[] | undefined = Array.isArray(merged.anyOf) ? merged.anyOf : undefined;
+    if (properties.length === 0 && !additional && !items && !oneOf && !anyOf) return node;
+
+    if (depth <= 0) {
+      // Arrays of plain values have nothing more to show
+      if (properties.length > 0 || additional || oneOf || anyOf || this.hasStructure(items)) node.truncated = true;
+      return node;
+    }
+
+    const nested = new Set(ancestors).add(key);
+    const requiredNames: string[] = Array.isArray(merged.required) ? merged.required : [];
+    if (properties.length > 0) {
+      node.properties = properties.map(([propertyName, property]) =>
+        this.describeNode(property, depth - 1, nested, propertyName, requiredNames.includes(propertyName)));
+    }
+    if (additional) {
+      node.additionalProperties = this.describeNode(additional, depth - 1, nested);
+    }
+    // Array items and variants describe the schema itself, so they don't use up a level
+    if (items) {
+      const itemNode = this.describeNode(items, depth, nested);
+      if (Object.keys(itemNode).length > 1) node.items = itemNode;
+    }
+    if (oneOf) node.oneOf = oneOf.map(variant => this.describeNode(variant, depth, nested));
+    if (anyOf) node.anyOf = anyOf.map(variant => this.describeNode(variant, depth, nested));
+
+    return node;
+  }
+
+  /** The component name of a schema, if it is one of the named component schemas. */
+  nameOf(schema: any): string | undefined {
+    if (!schema || typeof schema !== 'object') return undefined;
+    return this.names.get(schema);
+  }
+
+  private resolveRef(schema: any): any {
+    if (!schema || typeof schema !== 'object' || typeof schema.$ref !== 'string') return schema;
+    const match = COMPONENT_REF.exec(schema.$ref);
+    const name = match ? decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~') : undefined;
+    return (name && this.schemas[name]) || schema;
+  }
+
+  // allOf members are folded into one schema so their properties can be listed together
+  private mergeAllOf(schema: any): any {
+    if (!Array.isArray(schema?.allOf)) return schema;
+
+    const merged: any = { ...schema, properties: { ...(schema.properties || {}) }, required: [...(schema.required || [])] };
+    delete merged.allOf;
+    for (const member of schema.allOf) {
+      const part = this.mergeAllOf(this.resolveRef(member) || {});
+      Object.assign(merged.properties, part.properties || {});
+      merged.required.push(...(part.required || []));
+      for (const [key, value] of Object.entries(part)) {
+        if (!(key in merged)) merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  private findProperty(schema: any, name: string): any {
+    const merged = this.mergeAllOf(schema || {});
+    if (merged.properties?.[name]) return merged.properties[name];
+    for (const variant of [...(merged.oneOf || []), ...(merged.anyOf || [])]) {
+      const property = this.findProperty(this.resolveRef(variant), name);
+      if (property) return property;
+    }
+    return undefined;
+  }
+
+  private listProperties(schema: any): string[] {
+    const merged = this.mergeAllOf(schema || {});
+    const names = new Set(Object.keys(merged.properties || {}));
+    for (const variant of [...(merged.oneOf || []), ...(merged.anyOf || [])]) {
+      this.listProperties(this.resolveRef(variant)).forEach(name => names.add(name));
+    }
+    return [...names];
+  }
+
+  // Named components show by name, so `Product[]` rather than `object[]`
+  private formatType(schema: any): string {
+    const name = this.nameOf(schema);
+    if (name) return name;
+    if (schema?.$ref) return formatSchemaType(schema);
+
+    const types: string[] = Array.isArray(schema?.type) ? schema.type : [schema?.type];
+    if (types.includes('array') && schema.items) {
+      const itemType = this.formatType(this.resolveRef(schema.items));
+      const array = itemType.includes(' | ') ? `(${itemType})[]` : `${itemType}[]`;
+      const others = types.filter(type => type !== 'array');
+      if (schema.nullable && !others.includes('null')) others.push('null');
+      return [array, ...others].join(' | ');
+    }
+    const variants = schema?.oneOf || schema?.anyOf;
+    if (!schema?.type && Array.isArray(variants) && variants.length > 0) {
+      return variants.map((variant: any) => this.formatType(this.resolveRef(variant))).join(' | ');
+    }
+    return formatSchemaType(schema);
+  }
+
+  private hasStructure(schema: any): boolean {
+    const resolved = this.mergeAllOf(this.resolveRef(schema) || {});
+    return !!(resolved.properties || resolved.items || resolved.oneOf || resolved.anyOf || resolved.enum);
+  }
+
+  private extractConstraints(schema: any): SchemaConstraints | undefined {
+    const constraints: any = {};
+    for (const keyword of CONSTRAINT_KEYWORDS) {
+      if (schema[keyword] !== undefined && schema[keyword] !== false) constraints[keyword] = schema[keyword];
+    }
+    // A type-level const is already the type, e.g. "card"
+    if (constraints.const !== undefined && formatSchemaType(schema) === JSON.stringify(constraints.const)) delete constraints.const;
+    return Object.keys(constraints).length > 0 ? constraints : undefined;
+  }
+}
+
+/** `Order.items[].product` → ['Order', 'items', '[]', 'product'] */
+export function parsePropertyPath(propertyPath: string): string[] {
+  const segments: string[] = [];
+  for (const part of propertyPath.split('.')) {
+    const match = /^([^[\]]*)((?:\[\])*)$/.exec(part.trim());
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`Invalid property path "${propertyPath}": use dots between properties and [] for array items, e.g. Order.items[].price`);
+    }
+    if (match[1]) segments.push(match[1]);
+    for (let i = 0; i < match[2].length / 2; i++) segments.push('[]');
+  }
+  return segments;
+}
@@ -0,0 +1,101 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+// Keywords whose values are instance data rather than schemas, so any $id/$ref inside them is literal
+const DATA_KEYWORDS = new Set(['example', 'const', 'enum', 'default']);
+
+export function isOpenAPI31(spec: any): boolean {
+  return typeof spec?.openapi === 'string' && spec.openapi.startsWith('3.1');
+}
+
+export function getBaseUri(source: string, sourceType: 'file' | 'url'): string {
+  return sourceType === 'file' ? pathToFileURL(resolve(source)).href : source;
+}
+
+/**
+ * OpenAPI 3.1 schemas are JSON Schema 2020-12, where `$id` changes the base URI that `$ref`s
+ * resolve against and can itself be the target of a `$ref`. The ref parser only understands
+ * plain URLs and JSON Pointers, so rewrite every `$ref` that lands on an embedded `$id` or
+ * `$anchor` into a pointer from the document root, and make other refs inside an `$id`
+ * scope absolute so they are fetched relative to the right base.
+ */
+export function rewriteSchemaIdRefs(spec: any, baseUri: string): void {
+  const rootUri = stripFragment(baseUri);
+  const resources = new Map<string, string>([[rootUri, '']]);
+  const anchors = new Map<string, string>();
+
+  walk(spec, '', rootUri, (node, pointer, base) => {
+    if (typeof node.$id === 'string') {
+      resources.set(base, pointer);
+    }
+    if (typeof node.$anchor === 'string') {
+      anchors.set(`${base}#${node.$anchor}`, pointer);
+    }
+  });
+
+  walk(spec, '', rootUri, (node, _pointer, base) => {
+    if (typeof node.$ref !== 'string') return;
+
+    let target: URL;
+    try {
+      target = new URL(node.$ref, base);
+    } catch {
+      return;
+    }
+
+    const documentUri = stripFragment(target.href);
+    const fragment = decodeURIComponent(target.hash.slice(1));
+    const resourcePointer = resources.get(documentUri);
+
+    if (resourcePointer !== undefined) {
+      if (fragment === '' || fragment.startsWith('/')) {
+        node.$ref = `#${resourcePointer}${fragment}`;
+        return;
+      }
+      const anchorPointer = anchors.get(`${documentUri}#${fragment}`);
+      if (anchorPointer !== undefined) {
+        node.$ref = `#${anchorPointer}`;
+      }
+      return;
+    }
+
+    if (base !== rootUri) {
+      node.$ref = target.href;
+    }
+  });
+}
+
+function walk(node: any, pointer: string, base: string, visitor: (node: any, pointer: string, base: string) => void): void {
+  if (!node || typeof node !== 'object') return;
+
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => walk(item, `${pointer}/${index}`, base, visitor));
+    return;
+  }
+
+  let scope = base;
+  if (typeof node.$id === 'string') {
+    try {
+      scope = stripFragment(new URL(node.$id, base).href);
+    } catch {
+      // Leave malformed ids in the enclosing scope
+    }
+  }
+
+  visitor(node, pointer, scope);
+
+  for (const [key, value] of Object.entries(node)) {
+    if (DATA_KEYWORDS.has(key)) continue;
+    if (key === 'examples' && Array.isArray(value)) continue;
+    walk(value, `${pointer}/${escapePointerToken(key)}`, scope, visitor);
+  }
+}
+
+function stripFragment(uri: string): string {
+  const hashIndex = uri.indexOf('#');
+  return hashIndex >= 0 ? uri.slice(0, hashIndex) : uri;
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
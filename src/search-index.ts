@@ -0,0 +1,265 @@
+import { OpenAPIDocument, SearchMatch, SearchResult } from './types.js';
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+// Query words that aren't in the index also match longer terms they are a prefix of, at a discount
+const PREFIX_MIN_LENGTH = 3;
+const PREFIX_WEIGHT = 0.5;
+const SNIPPET_RADIUS = 60;
+const MAX_SCHEMA_DEPTH = 4;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'which', 'with', 'endpoint', 'api'
+]);
+
+type Field = SearchMatch['field'];
+
+// How much a term counts depending on where it appears (BM25F-style field weighting)
+const FIELD_WEIGHTS: Record<Field, number> = {
+  operationId: 3,
+  path: 2,
+  summary: 2,
+  tags: 1.5,
+  parameters: 1.5,
+  properties: 1,
+  description: 1
+};
+
+interface IndexedOperation {
+  path: string;
+  method: string;
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  webhook: boolean;
+  fields: Record<Field, string[]>; // Original text of each field, used for highlighting
+  termFrequencies: Map<string, number>; // Field-weighted
+  length: number; // Field-weighted
+}
+
+/**
+ * Splits identifiers and prose into lowercase, lightly stemmed terms, so `refundInvoice`,
+ * `refund_invoice` and "refunds an invoice" all index the same words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(ss|sh|ch|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  return word;
+}
+
+export class SearchIndex {
+  private operations: IndexedOperation[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(spec: OpenAPIDocument) {
+    const pathItems = [
+      ...Object.entries(spec.paths || {}).map(([path, pathItem]) => ({ path, pathItem, webhook: false })),
+      ...Object.entries(spec.webhooks || {}).map(([path, pathItem]) => ({ path, pathItem, webhook: true }))
+    ];
+
+    for (const { path, pathItem, webhook } of pathItems) {
+      if (!pathItem || typeof pathItem !== 'object') continue;
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (operation) this.addOperation(path, method, operation, pathItem, webhook);
+      }
+    }
+
+    const totalLength = this.operations.reduce((sum, operation) => sum + operation.length, 0);
+    this.averageLength = this.operations.length > 0 ? totalLength / this.operations.length : 0;
+  }
+
+  search(query: string, options: { tags?: string[]; methods?: string[]; limit?: number } = {}): SearchResult[] {
+    const queryTerms = this.expandQuery(query);
+    if (queryTerms.size === 0) return [];
+
+    const methods = options.methods?.map(method => method.toUpperCase());
+    const results: SearchResult[] = [];
+
+    for (const operation of this.operations) {
+      if (methods?.length && !methods.includes(operation.method)) continue;
+      if (options.tags?.length && !options.tags.some(tag => operation.tags?.includes(tag))) continue;
+
+      let score = 0;
+      for (const [term, weight] of queryTerms) {
+        const frequency = operation.termFrequencies.get(term);
+        if (!frequency) continue;
+        const normalized = frequency * (K1 + 1)
+          / (frequency + K1 * (1 - B + B * operation.length / (this.averageLength || 1)));
+        score += weight * this.idf(term) * normalized;
+      }
+      if (score <= 0) continue;
+
+      const result: SearchResult = {
+        path: operation.path,
+        method: operation.method,
+        operationId: operation.operationId,
+        summary: operation.summary,
+        tags: operation.tags,
+        score: Math.round(score * 1000) / 1000,
+        matches: this.highlight(operation, new Set(queryTerms.keys()))
+      };
+      if (operation.webhook) result.webhook = true;
+      results.push(result);
+    }
+
+    results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  private addOperation(path: string, method: string, operation: any, pathItem: any, webhook: boolean): void {
+    const parameters = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+      .map((parameter: any) => parameter?.name)
+      .filter((name: any): name is string => typeof name === 'string');
+
+    const properties = new Set<string>();
+    const schemas: any[] = [];
+    for (const media of Object.values<any>(operation.requestBody?.content || {})) {
+      schemas.push(media?.schema);
+    }
+    for (const response of Object.values<any>(operation.responses || {})) {
+      for (const media of Object.values<any>(response?.content || {})) {
+        schemas.push(media?.schema);
+      }
+    }
+    const visited = new Set<any>();
+    for (const schema of schemas) {
+      this.collectPropertyNames(schema, properties, visited, 0);
+    }
+
+    const fields: Record<Field, string[]> = {
+      path: [path],
+      operationId: operation.operationId ? [operation.operationId] : [],
+      summary: operation.summary ? [operation.summary] : [],
+      description: operation.description ? [operation.description] : [],
+      tags: operation.tags || [],
+      parameters: [...new Set(parameters)],
+      properties: [...properties]
+    };
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    for (const [field, values] of Object.entries(fields) as Array<[Field, string[]]>) {
+      const weight = FIELD_WEIGHTS[field];
+      for (const term of values.flatMap(tokenize)) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    }
+
+    this.operations.push({
+      path,
+      method: method.toUpperCase(),
+      operationId: operation.operationId,
+      summary: operation.summary,
+      tags: operation.tags,
+      webhook,
+      fields,
+      termFrequencies,
+      length
+    });
+  }
+
+  private collectPropertyNames(schema: any, names: Set<string>, visited: Set<any>, depth: number): void {
+    if (!schema || typeof schema !== 'object' || visited.has(schema) || depth > MAX_SCHEMA_DEPTH) return;
+    visited.add(schema);
+
+    for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+      names.add(name);
+      this.collectPropertyNames(property, names, visited, depth + 1);
+    }
+    this.collectPropertyNames(schema.items, names, visited, depth + 1);
+    for (const key of ['allOf', 'oneOf', 'anyOf']) {
+      for (const member of schema[key] || []) {
+        this.collectPropertyNames(member, names, visited, depth);
+      }
+    }
+  }
+
+  private idf(term: string): number {
+    const frequency = this.documentFrequencies.get(term) || 0;
+    return Math.log(1 + (this.operations.length - frequency + 0.5) / (frequency + 0.5));
+  }
+
+  // Query terms with their weights; unknown words fall back to indexed terms they prefix
+  private expandQuery(query: string): Map<string, number> {
+    const terms = new Map<string, number>();
+    for (const term of tokenize(query)) {
+      if (this.documentFrequencies.has(term)) {
+        terms.set(term, Math.max(terms.get(term) || 0, 1));
+        continue;
+      }
+      if (term.length < PREFIX_MIN_LENGTH) continue;
+      for (const indexed of this.documentFrequencies.keys()) {
+        if (indexed.startsWith(term)) {
+          terms.set(indexed, Math.max(terms.get(indexed) || 0, PREFIX_WEIGHT));
+        }
+      }
+    }
+    return terms;
+  }
+
+  private highlight(operation: IndexedOperation, terms: Set<string>): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+
+    for (const [field, values] of Object.entries(operation.fields) as Array<[Field, string[]]>) {
+      const matched = values.filter(value => tokenize(value).some(term => terms.has(term)));
+      if (matched.length === 0) continue;
+
+      const text = field === 'summary' || field === 'description'
+        ? snippet(matched[0], terms)
+        : matched.map(value => emphasize(value, terms)).join(', ');
+      matches.push({ field, text });
+    }
+
+    return matches.sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field]);
+  }
+}
+
+// Wraps matching words in ** **; identifiers are split the same way tokenize() splits them
+function emphasize(text: string, terms: Set<string>): string {
+  return text.replace(/[A-Za-z0-9]+/g, word => {
+    const parts = word.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2').split(' ');
+    return parts.map(part => terms.has(stem(part.toLowerCase())) ? `**${part}**` : part).join('');
+  }).replace(/\*\*\*\*/g, ''); // Adjacent matches read as one, e.g. **refundInvoice**
+}
+
+// A window of prose around the first matching word
+function snippet(text: string, terms: Set<string>): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  let first = -1;
+  for (const match of flat.matchAll(/[A-Za-z0-9]+/g)) {
+    if (terms.has(stem(match[0].toLowerCase()))) {
+      first = match.index!;
+      break;
+    }
+  }
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, Math.max(first, 0) + SNIPPET_RADIUS * 2);
+  const window = flat.slice(start, end);
+  return `${start > 0 ? '…' : ''}${emphasize(window, terms)}${end < flat.length ? '…' : ''}`;
+}
@@ -0,0 +1,382 @@
+import { CodeSnippet, EndpointDetails, MediaTypeInfo, SnippetLanguage } from './types.js';
+import { ExampleGenerator } from './example-generator.js';
+import { exampleOf } from './transformers.js';
+
+export const SNIPPET_LANGUAGES: Record<SnippetLanguage, string> = {
+  curl: 'cURL',
+  fetch: 'JavaScript (fetch)',
+  axios: 'Node.js (axios)',
+  python: 'Python (requests)',
+  go: 'Go (net/http)'
+};
+
+// Used when the spec has no servers, or only a relative one
+const PLACEHOLDER_ORIGIN = 'https://api.example.com';
+
+type SnippetBody =
+  | { kind: 'json'; contentType: string; value: any }
+  | { kind: 'form'; contentType: string; fields: Array<[string, string]> }
+  | { kind: 'multipart'; fields: Array<{ name: string; value: string; file?: boolean }> }
+  | { kind: 'text'; contentType: string; text: string };
+
+// A concrete request, independent of the language it ends up written in
+interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Array<[string, string]>;
+  basicAuth?: { username: string; password: string };
+  body?: SnippetBody;
+  response: 'json' | 'text' | 'none';
+}
+
+/**
+ * Code that sends a request to an operation, for each language asked for. Required parameters
+ * get their example values, or generated ones; credentials are placeholders such as
+ * `YOUR_API_KEY` in whichever header, query parameter or cookie the security scheme names.
+ */
+export function generateSnippets(
+  details: EndpointDetails,
+  baseUrl: string | undefined,
+  securitySchemes: Record<string, any>,
+  generator: ExampleGenerator,
+  languages: SnippetLanguage[] = Object.keys(SNIPPET_LANGUAGES) as SnippetLanguage[]
+): CodeSnippet[] {
+  const request = buildRequest(details, baseUrl, securitySchemes, generator);
+  return languages.map(language => ({ language, label: SNIPPET_LANGUAGES[language], code: RENDERERS[language](request) }));
+}
+
+function buildRequest(details: EndpointDetails, baseUrl: string | undefined, securitySchemes: Record<string, any>, generator: ExampleGenerator): HttpRequest {
+  const headers: Array<[string, string]> = [];
+  const query: Array<[string, string]> = [];
+  const cookies: Array<[string, string]> = [];
+  let path = details.path;
+
+  for (const parameter of details.parameters || []) {
+    if (!parameter.required && parameter.in !== 'path') continue;
+    let value = parameter.example ?? generator.generate(parameter.schema);
+    if (value === undefined) value = parameter.in === 'path' ? `{${parameter.name}}` : `YOUR_${parameter.name.replace(/\W+/g, '_').toUpperCase()}`;
+
+    switch (parameter.in) {
+      case 'path':
+        path = path.replace(`{${parameter.name}}`, encodeURIComponent(serialize(value)));
+        break;
+      case 'query':
+        // Arrays explode into repeated parameters, the default form style
+        for (const item of Array.isArray(value) ? value : [value]) query.push([parameter.name, serialize(item)]);
+        break;
+      case 'header':
+        headers.push([parameter.name, serialize(value)]);
+        break;
+      case 'cookie':
+        cookies.push([parameter.name, serialize(value)]);
+        break;
+    }
+  }
+
+  const request: HttpRequest = { method: details.method.toUpperCase(), url: '', headers, response: 'none' };
+  applySecurity(request, details.security, securitySchemes, query, cookies);
+
+  if (details.requestBody?.contentType) {
+    const media = preferredMedia([details.requestBody as MediaTypeInfo, ...(details.requestBody.alternatives || [])]);
+    request.body = buildBody(media, generator);
+    if (request.body.kind !== 'multipart') headers.push(['Content-Type', request.body.contentType]);
+  }
+
+  const success = (details.responses || []).find(response => /^2/.test(response.statusCode) && response.contentType);
+  if (success) {
+    const media = preferredMedia([success as MediaTypeInfo, ...(success.alternatives || [])]);
+    headers.push(['Accept', media.contentType]);
+    request.response = isJson(media.contentType) ? 'json' : 'text';
+  } else if ((details.responses || []).some(response => /^2/.test(response.statusCode))) {
+    request.response = 'none';
+  } else {
+    request.response = 'text';
+  }
+
+  if (cookies.length > 0) headers.push(['Cookie', cookies.map(([name, value]) => `${name}=${value}`).join('; ')]);
+
+  const origin = !baseUrl ? PLACEHOLDER_ORIGIN : /^[a-z][a-z0-9+.-]*:\/\//i.test(baseUrl) ? baseUrl : `${PLACEHOLDER_ORIGIN}${baseUrl.startsWith('/') ? '' : '/'}${baseUrl}`;
+  const search = query.length > 0 ? `?${new URLSearchParams(query).toString()}` : '';
+  request.url = `${origin.replace(/\/+$/, '')}${path}${search}`;
+  return request;
+}
+
+// The first requirement is used; an empty one means the operation can be called anonymously
+function applySecurity(request: HttpRequest, security: any[] | undefined, schemes: Record<string, any>, query: Array<[string, string]>, cookies: Array<[string, string]>): void {
+  const requirement = Array.isArray(security) ? security[0] : undefined;
+  if (!requirement || typeof requirement !== 'object') return;
+
+  for (const name of Object.keys(requirement)) {
+    const scheme = schemes[name];
+    if (!scheme) continue;
+
+    if (scheme.type === 'apiKey' && scheme.name) {
+      const entry: [string, string] = [scheme.name, 'YOUR_API_KEY'];
+      if (scheme.in === 'query') query.push(entry);
+      else if (scheme.in === 'cookie') cookies.push(entry);
+      else request.headers.push(entry);
+    } else if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic') {
+      request.basicAuth = { username: 'YOUR_USERNAME', password: 'YOUR_PASSWORD' };
+    } else if (scheme.type === 'http' && scheme.scheme && String(scheme.scheme).toLowerCase() !== 'bearer') {
+      request.headers.push(['Authorization', `${scheme.scheme} YOUR_CREDENTIALS`]);
+    } else if (['http', 'oauth2', 'openIdConnect'].includes(scheme.type)) {
+      request.headers.push(['Authorization', 'Bearer YOUR_ACCESS_TOKEN']);
+    }
+  }
+}
+
+function buildBody(media: MediaTypeInfo, generator: ExampleGenerator): SnippetBody {
+  const example = exampleOf(media);
+  const value = example ? example.value : media.schema ? generator.generate(media.schema) : undefined;
+  const contentType = media.contentType;
+
+  if (/^multipart\/form-data/i.test(contentType)) {
+    const properties = media.schema?.properties || {};
+    const names = value && typeof value === 'object' ? Object.keys(value) : Object.keys(properties);
+    return {
+      kind: 'multipart',
+      fields: names.map(name => {
+        const file = ['binary', 'base64'].includes(properties[name]?.format) || properties[name]?.contentMediaType !== undefined;
+        return { name, value: file ? `${name}.bin` : serialize(value?.[name] ?? ''), file };
+      })
+    };
+  }
+  if (/^application\/x-www-form-urlencoded/i.test(contentType)) {
+    const fields = value && typeof value === 'object' ? Object.entries<any>(value).map(([name, field]): [string, string] => [name, serialize(field)]) : [];
+    return { kind: 'form', contentType, fields };
+  }
+  if (isJson(contentType)) {
+    return { kind: 'json', contentType, value: value ?? {} };
+  }
+  return { kind: 'text', contentType, text: value === undefined ? '' : serialize(value) };
+}
+
+function preferredMedia(mediaTypes: MediaTypeInfo[]): MediaTypeInfo {
+  return mediaTypes.find(media => isJson(media.contentType)) || mediaTypes[0];
+}
+
+function isJson(contentType: string): boolean {
+  return /[/+]json\b/i.test(contentType);
+}
+
+function serialize(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+const RENDERERS: Record<SnippetLanguage, (request: HttpRequest) => string> = {
+  curl: renderCurl,
+  fetch: renderFetch,
+  axios: renderAxios,
+  python: renderPython,
+  go: renderGo
+};
+
+function renderCurl(request: HttpRequest): string {
+  const lines = [request.method === 'GET' ? `curl ${shellQuote(request.url)}` : `curl -X ${request.method} ${shellQuote(request.url)}`];
+  if (request.basicAuth) lines.push(`-u ${shellQuote(`${request.basicAuth.username}:${request.basicAuth.password}`)}`);
+  lines.push(...request.headers.map(([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`));
+
+  const body = request.body;
+  if (body?.kind === 'json') lines.push(`--data ${shellQuote(JSON.stringify(body.value, null, 2))}`);
+  if (body?.kind === 'form') lines.push(...body.fields.map(([name, value]) => `--data-urlencode ${shellQuote(`${name}=${value}`)}`));
+  if (body?.kind === 'multipart') lines.push(...body.fields.map(field => `-F ${shellQuote(`${field.name}=${field.file ? '@' : ''}${field.value}`)}`));
+  if (body?.kind === 'text') lines.push(`--data ${shellQuote(body.text)}`);
+
+  return lines.join(' \\\n  ');
+}
+
+function renderFetch(request: HttpRequest): string {
+  const lines: string[] = [];
+  const options = [`  method: ${JSON.stringify(request.method)}`];
+  const headers = request.headers.map(([name, value]) => `    ${jsKey(name)}: ${JSON.stringify(value)}`);
+  if (request.basicAuth) {
+    headers.push(`    Authorization: "Basic " + btoa(${JSON.stringify(`${request.basicAuth.username}:${request.basicAuth.password}`)})`);
+  }
+  if (headers.length > 0) options.push(`  headers: {\n${headers.join(',\n')}\n  }`);
+
+  const body = request.body;
+  if (body?.kind === 'multipart') lines.push(...jsFormData(body.fields), '');
+  if (body) options.push(`  body: ${jsBody(body, '  ')}`);
+
+  lines.push(`const response = await fetch(${JSON.stringify(request.url)}, {\n${options.join(',\n')}\n});`);
+  if (request.response === 'json') lines.push('const data = await response.json();', 'console.log(data);');
+  else if (request.response === 'text') lines.push('const data = await response.text();', 'console.log(data);');
+  else lines.push('console.log(response.status);');
+  return lines.join('\n');
+}
+
+function renderAxios(request: HttpRequest): string {
+  const lines = ["import axios from 'axios';", ''];
+  const config = [`  method: ${JSON.stringify(request.method.toLowerCase())}`, `  url: ${JSON.stringify(request.url)}`];
+  if (request.headers.length > 0) {
+    config.push(`  headers: {\n${request.headers.map(([name, value]) => `    ${jsKey(name)}: ${JSON.stringify(value)}`).join(',\n')}\n  }`);
+  }
+  if (request.basicAuth) {
+    config.push(`  auth: { username: ${JSON.stringify(request.basicAuth.username)}, password: ${JSON.stringify(request.basicAuth.password)} }`);
+  }
+
+  const body = request.body;
+  if (body?.kind === 'multipart') lines.push(...jsFormData(body.fields), '');
+  if (body?.kind === 'json') config.push(`  data: ${indentLines(JSON.stringify(body.value, null, 2), '  ')}`);
+  else if (body) config.push(`  data: ${jsBody(body, '  ')}`);
+  if (request.response === 'text') config.push(`  responseType: "text"`);
+
+  lines.push(`const response = await axios({\n${config.join(',\n')}\n});`);
+  lines.push(request.response === 'none' ? 'console.log(response.status);' : 'console.log(response.data);');
+  return lines.join('\n');
+}
+
+function renderPython(request: HttpRequest): string {
+  const method = request.method.toLowerCase();
+  const call = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method) ? `requests.${method}` : undefined;
+  const args = [`    ${JSON.stringify(request.url)}`];
+  if (request.headers.length > 0) args.push(`    headers=${pythonLiteral(Object.fromEntries(request.headers), '    ')}`);
+  if (request.basicAuth) args.push(`    auth=(${JSON.stringify(request.basicAuth.username)}, ${JSON.stringify(request.basicAuth.password)})`);
+
+  const body = request.body;
+  if (body?.kind === 'json') args.push(`    json=${pythonLiteral(body.value, '    ')}`);
+  if (body?.kind === 'form') args.push(`    data=${pythonLiteral(Object.fromEntries(body.fields), '    ')}`);
+  if (body?.kind === 'text') args.push(`    data=${JSON.stringify(body.text)}`);
+  if (body?.kind === 'multipart') {
+    const data = body.fields.filter(field => !field.file);
+    const files = body.fields.filter(field => field.file);
+    if (data.length > 0) args.push(`    data=${pythonLiteral(Object.fromEntries(data.map(field => [field.name, field.value])), '    ')}`);
+    if (files.length > 0) {
+      const entries = files.map(field => `        ${JSON.stringify(field.name)}: open(${JSON.stringify(field.value)}, "rb")`);
+      args.push(`    files={\n${entries.join(',\n')}\n    }`);
+    }
+  }
+
+  const lines = ['import requests', ''];
+  lines.push(call
+    ? `response = ${call}(\n${args.join(',\n')}\n)`
+    : `response = requests.request(\n    ${JSON.stringify(request.method)},\n${args.join(',\n')}\n)`);
+  lines.push('response.raise_for_status()');
+  if (request.response === 'json') lines.push('print(response.json())');
+  else if (request.response === 'text') lines.push('print(response.text)');
+  else lines.push('print(response.status_code)');
+  return lines.join('\n');
+}
+
+function renderGo(request: HttpRequest): string {
+  const imports = new Set(['fmt', 'net/http']);
+  const body: string[] = [];
+  let reader = 'nil';
+
+  switch (request.body?.kind) {
+    case 'json':
+      imports.add('strings');
+      body.push(`body := strings.NewReader(${goString(JSON.stringify(request.body.value, null, 2))})`);
+      reader = 'body';
+      break;
+    case 'form':
+      imports.add('strings');
+      body.push(`body := strings.NewReader(${goString(new URLSearchParams(request.body.fields).toString())})`);
+      reader = 'body';
+      break;
+    case 'text':
+      imports.add('strings');
+      body.push(`body := strings.NewReader(${goString(request.body.text)})`);
+      reader = 'body';
+      break;
+    case 'multipart':
+      imports.add('bytes');
+      imports.add('mime/multipart');
+      body.push('var body bytes.Buffer', 'writer := multipart.NewWriter(&body)');
+      let files = 0;
+      for (const field of request.body.fields) {
+        if (field.file) {
+          imports.add('os');
+          const suffix = files++ === 0 ? '' : String(files);
+          body.push(
+            `file${suffix}, err := os.ReadFile(${goString(field.value)})`,
+            'if err != nil {', '\tpanic(err)', '}',
+            `part${suffix}, err := writer.CreateFormFile(${goString(field.name)}, ${goString(field.value)})`,
+            'if err != nil {', '\tpanic(err)', '}',
+            `part${suffix}.Write(file${suffix})`
+          );
+        } else {
+          body.push(`writer.WriteField(${goString(field.name)}, ${goString(field.value)})`);
+        }
+      }
+      body.push('writer.Close()', '');
+      reader = '&body';
+      break;
+  }
+
+  body.push(
+    `req, err := http.NewRequest(${goString(request.method)}, ${goString(request.url)}, ${reader})`,
+    'if err != nil {', '\tpanic(err)', '}'
+  );
+  body.push(...request.headers.map(([name, value]) => `req.Header.Set(${goString(name)}, ${goString(value)})`));
+  if (request.body?.kind === 'multipart') body.push('req.Header.Set("Content-Type", writer.FormDataContentType())');
+  if (request.basicAuth) body.push(`req.SetBasicAuth(${goString(request.basicAuth.username)}, ${goString(request.basicAuth.password)})`);
+
+  body.push('', 'resp, err := http.DefaultClient.Do(req)', 'if err != nil {', '\tpanic(err)', '}', 'defer resp.Body.Close()', '');
+  if (request.response === 'none') {
+    body.push('fmt.Println(resp.Status)');
+  } else {
+    imports.add('io');
+    body.push('data, err := io.ReadAll(resp.Body)', 'if err != nil {', '\tpanic(err)', '}', 'fmt.Println(resp.Status)', 'fmt.Println(string(data))');
+  }
+
+  const code = body.map(line => (line ? `\t${line}` : ''));
+  const importBlock = [...imports].sort().map(name => `\t"${name}"`).join('\n');
+  return `package main\n\nimport (\n${importBlock}\n)\n\nfunc main() {\n${code.join('\n')}\n}`;
+}
+
+function jsFormData(fields: Array<{ name: string; value: string; file?: boolean }>): string[] {
+  return [
+    'const form = new FormData();',
+    ...fields.map(field => field.file
+      ? `form.append(${JSON.stringify(field.name)}, new Blob(["file contents"]), ${JSON.stringify(field.value)});`
+      : `form.append(${JSON.stringify(field.name)}, ${JSON.stringify(field.value)});`)
+  ];
+}
+
+function jsBody(body: SnippetBody, indent: string): string {
+  switch (body.kind) {
+    case 'json':
+      return `JSON.stringify(${indentLines(JSON.stringify(body.value, null, 2), indent)})`;
+    case 'form':
+      return `new URLSearchParams(${indentLines(JSON.stringify(Object.fromEntries(body.fields), null, 2), indent)})`;
+    case 'multipart':
+      return 'form';
+    case 'text':
+      return JSON.stringify(body.text);
+  }
+}
+
+function jsKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// JSON with Python's spellings of true, false and null
+function pythonLiteral(value: any, indent: string): string {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'string' || typeof value === 'number') return JSON.stringify(value);
+
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${pythonLiteral(item, inner)}`).join(',\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${pythonLiteral(item, inner)}`).join(',\n')}\n${indent}}`;
+}
+
+// Raw strings keep JSON readable; anything a raw string can't hold is quoted instead
+function goString(value: string): string {
+  return /[`\r]/.test(value) || !value.includes('\n') ? JSON.stringify(value) : `\`${value}\``;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').map((line, index) => (index === 0 ? line : `${indent}${line}`)).join('\n');
+}
@@ -0,0 +1,173 @@
+import { readFile, writeFile, mkdir, readdir, stat, rm } from 'fs/promises';
+import { createHash } from 'crypto';
+import { join, resolve } from 'path';
+import { AsyncAPIDocument, CacheStats, OpenAPIDocument, ReferenceGraph, SpecType } from './types.js';
+
+// Where an object shared by dereferencing turns up again, and where it first appears, as paths of keys
+type SharedLink = [string[], string[]];
+
+export interface CacheEntry {
+  source: string;
+  sourceType: 'file' | 'url';
+  contentHash: string; // Hash of the root document as read from the source
+  fileHashes: Record<string, string>; // Hashes of other local files the spec references
+  cachedAt: string; // ISO string
+  etag?: string;
+  lastModified?: string;
+  specType: SpecType;
+  spec: OpenAPIDocument;
+  asyncapi?: AsyncAPIDocument;
+  files: string[];
+  references?: ReferenceGraph;
+  content?: string; // The source as read, so linting needn't fetch it again
+  shared?: { spec: SharedLink[]; asyncapi?: SharedLink[] };
+}
+
+export function isOfflineMode(): boolean {
+  const offline = process.env.JANUS_OFFLINE?.toLowerCase();
+  return offline === 'true' || offline === '1';
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Resolved specs on disk, one JSON file per source. An entry is only reused while the
+ * source's content hash (and those of any referenced local files) still matches.
+ */
+export class SpecCache {
+  constructor(private directory: string) {}
+
+  async get(source: string): Promise<CacheEntry | null> {
+    try {
+      const data = await readFile(this.getEntryPath(source), 'utf-8');
+      const entry = JSON.parse(data) as CacheEntry;
+      if (entry.shared) {
+        relinkSharedObjects(entry.spec, entry.shared.spec);
+        if (entry.asyncapi) relinkSharedObjects(entry.asyncapi, entry.shared.asyncapi || []);
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  async put(entry: Omit<CacheEntry, 'fileHashes' | 'cachedAt' | 'shared'>): Promise<void> {
+    try {
+      const fileHashes: Record<string, string> = {};
+      for (const file of entry.files) {
+        if (entry.sourceType === 'file' && file === resolve(entry.source)) continue;
+        fileHashes[file] = hashContent(await readFile(file, 'utf-8'));
+      }
+
+      await mkdir(this.directory, { recursive: true });
+      // JSON turns the objects dereferencing shares into copies, so where they repeat is written down
+      const shared = { spec: findSharedObjects(entry.spec), ...(entry.asyncapi ? { asyncapi: findSharedObjects(entry.asyncapi) } : {}) };
+      const cached: CacheEntry = { ...entry, fileHashes, shared, cachedAt: new Date().toISOString() };
+      await writeFile(this.getEntryPath(entry.source), JSON.stringify(cached), 'utf-8');
+    } catch (error) {
+      // Caching failure shouldn't break the main functionality
+    }
+  }
+
+  async isFresh(entry: CacheEntry, contentHash: string): Promise<boolean> {
+    if (entry.contentHash !== contentHash) return false;
+
+    for (const [file, hash] of Object.entries(entry.fileHashes || {})) {
+      try {
+        if (hashContent(await readFile(file, 'utf-8')) !== hash) return false;
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const stats: CacheStats = {
+      directory: this.directory,
+      offline: isOfflineMode(),
+      count: 0,
+      totalBytes: 0,
+      entries: []
+    };
+
+    for (const name of await this.listEntryFiles()) {
+      try {
+        const path = join(this.directory, name);
+        const { size } = await stat(path);
+        const entry: CacheEntry = JSON.parse(await readFile(path, 'utf-8'));
+        stats.entries.push({
+          source: entry.source,
+          sourceType: entry.sourceType,
+          specType: entry.specType,
+          title: entry.spec.info?.title,
+          contentHash: entry.contentHash,
+          cachedAt: entry.cachedAt,
+          bytes: size
+        });
+        stats.totalBytes += size;
+      } catch {
+        // Skip unreadable entries
+      }
+    }
+
+    stats.count = stats.entries.length;
+    return stats;
+  }
+
+  async purge(source?: string): Promise<number> {
+    if (source) {
+      const existed = (await this.get(source)) !== null;
+      await rm(this.getEntryPath(source), { force: true });
+      return existed ? 1 : 0;
+    }
+
+    const names = await this.listEntryFiles();
+    for (const name of names) {
+      await rm(join(this.directory, name), { force: true });
+    }
+    return names.length;
+  }
+
+  private async listEntryFiles(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter(name => name.endsWith('.json'));
+    } catch {
+      return [];
+    }
+  }
+
+  private getEntryPath(source: string): string {
+    return join(this.directory, `${hashContent(source)}.json`);
+  }
+}
+
+// Every place an object appears after its first, which is the one descended into
+function findSharedObjects(document: any): SharedLink[] {
+  const seen = new Map<object, string[]>();
+  const links: SharedLink[] = [];
+  const walk = (value: any, path: string[]) => {
+    if (!value || typeof value !== 'object') return;
+    const first = seen.get(value);
+    if (first) {
+      links.push([path, first]);
+      return;
+    }
+    seen.set(value, path);
+    for (const [key, child] of Object.entries(value)) walk(child, [...path, key]);
+  };
+  walk(document, []);
+  return links;
+}
+
+// Points each repeat back at the first occurrence, so the document shares objects as it did when cached
+function relinkSharedObjects(document: any, links: SharedLink[]): void {
+  const at = (path: string[]) => path.reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), document);
+  for (const [path, first] of links) {
+    const parent = at(path.slice(0, -1));
+    const target = at(first);
+    if (parent && typeof parent === 'object' && target !== undefined) parent[path[path.length - 1]] = target;
+  }
+}
@@ -0,0 +1,508 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { OpenAPIManager } from './openapi-manager.js';
+import { EndpointDetails, EndpointSummary, ParameterInfo, ResponseInfo, SemverBump, SpecChange, SpecDiff } from './types.js';
+import { formatSchemaType } from './transformers.js';
+import { resolveOutputPath } from './sandbox.js';
+
+// Which side of the exchange a schema describes decides whether a change breaks clients
+type Direction = 'request' | 'response';
+
+const MAX_SCHEMA_DEPTH = 10;
+
+export interface ChangelogOptions {
+  outputDirectory?: string;
+  filename?: string;
+}
+
+export class SpecDiffer {
+  constructor(private manager: OpenAPIManager) {}
+
+  async diffSpecs(baseSessionId: string, headSessionId: string): Promise<SpecDiff> {
+    const baseInfo = await this.manager.getSessionInfo(baseSessionId);
+    const headInfo = await this.manager.getSessionInfo(headSessionId);
+    if (!baseInfo) throw new Error(`Session not found: ${baseSessionId}`);
+    if (!headInfo) throw new Error(`Session not found: ${headSessionId}`);
+
+    const baseEndpoints = this.indexEndpoints(await this.manager.listEndpoints(baseSessionId));
+    const headEndpoints = this.indexEndpoints(await this.manager.listEndpoints(headSessionId));
+    const changes: SpecChange[] = [];
+
+    for (const [key, base] of baseEndpoints) {
+      if (!headEndpoints.has(key)) {
+        changes.push({
+          kind: 'removed',
+          breaking: true,
+          category: 'operation',
+          endpoint: this.describeEndpoint(base),
+          message: 'Operation removed'
+        });
+      }
+    }
+
+    for (const [key, head] of headEndpoints) {
+      const base = baseEndpoints.get(key);
+      if (!base) {
+        changes.push({
+          kind: 'added',
+          breaking: false,
+          category: 'operation',
+          endpoint: this.describeEndpoint(head),
+          message: 'Operation added'
+        });
+        continue;
+      }
+
+      const baseDetails = await this.getFullDetails(baseSessionId, base);
+      const headDetails = await this.getFullDetails(headSessionId, head);
+      if (baseDetails && headDetails) {
+        changes.push(...this.diffEndpoint(baseDetails, headDetails));
+      }
+    }
+
+    const breaking = changes.filter(change => change.breaking).length;
+    return {
+      base: { title: baseInfo.title, version: baseInfo.version },
+      head: { title: headInfo.title, version: headInfo.version },
+      breaking,
+      nonBreaking: changes.length - breaking,
+      recommendedBump: this.recommendBump(changes),
+      changes
+    };
+  }
+
+  async writeChangelog(diff: SpecDiff, options: ChangelogOptions = {}): Promise<string> {
+    let filename = options.filename;
+    if (!filename) {
+      const title = diff.head.title?.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase() || 'api';
+      filename = `${title}-changelog.md`;
+    } else if (!filename.endsWith('.md')) {
+      filename = `${filename}.md`;
+    }
+
+    // Same default location as generate_documentation, so the changelog lands next to the docs
+    const filePath = await resolveOutputPath(options.outputDirectory || process.cwd(), filename);
+    await mkdir(dirname(filePath), { recursive: true });
+
+    await writeFile(filePath, this.generateChangelogContent(diff), 'utf-8');
+    return filePath;
+  }
+
+  private generateChangelogContent(diff: SpecDiff): string {
+    const title = diff.head.title || diff.base.title || 'API';
+    const from = diff.base.version || 'base';
+    const to = diff.head.version || 'head';
+
+    let content = `# ${title} Changelog\n\n`;
+    content += `## ${from} → ${to}\n\n`;
+    content += `**Recommended version bump:** ${diff.recommendedBump}\n\n`;
+
+    if (diff.changes.length === 0) {
+      return content + 'No changes.\n';
+    }
+
+    const sections: Array<[string, SpecChange[]]> = [
+      ['Breaking Changes', diff.changes.filter(change => change.breaking)],
+      ['Added', diff.changes.filter(change => !change.breaking && change.kind === 'added')],
+      ['Changed', diff.changes.filter(change => !change.breaking && change.kind === 'changed')],
+      ['Removed', diff.changes.filter(change => !change.breaking && change.kind === 'removed')]
+    ];
+
+    for (const [heading, changes] of sections) {
+      if (changes.length === 0) continue;
+      content += `### ${heading}\n\n`;
+      for (const change of changes) {
+        const location = change.location ? ` ${change.location}:` : '';
+        content += `- \`${change.endpoint}\`${location} ${change.message}\n`;
+      }
+      content += '\n';
+    }
+
+    return content;
+  }
+
+  // Path parameter names don't change the operation, so /pets/{id} and /pets/{petId} are matched
+  private indexEndpoints(endpoints: EndpointSummary[]): Map<string, EndpointSummary> {
+    return new Map(endpoints.map(endpoint => {
+      const path = endpoint.path.replace(/\{[^}]+\}/g, '{}');
+      return [`${endpoint.webhook ? 'webhook' : 'path'} ${endpoint.method} ${path}`, endpoint];
+    }));
+  }
+
+  private describeEndpoint(endpoint: { method: string; path: string; webhook?: boolean }): string {
+    return endpoint.webhook ? `webhook ${endpoint.path} (${endpoint.method})` : `${endpoint.method} ${endpoint.path}`;
+  }
+
+  private async getFullDetails(sessionId: string, endpoint: EndpointSummary): Promise<EndpointDetails | null> {
+    return this.manager.getEndpointDetails(sessionId, endpoint.path, endpoint.method, {
+      includeParameters: true,
+      includeRequestBody: true,
+      includeResponses: true,
+      includeSecurity: true,
+      includeSchemas: true
+    });
+  }
+
+  private diffEndpoint(base: EndpointDetails, head: EndpointDetails): SpecChange[] {
+    const endpoint = this.describeEndpoint(head);
+    const changes: SpecChange[] = [];
+    // Webhooks reverse the roles: the API sends the request and the subscriber sends the response
+    const requestDirection: Direction = head.webhook ? 'response' : 'request';
+    const responseDirection: Direction = head.webhook ? 'request' : 'response';
+
+    changes.push(...this.diffParameters(endpoint, base, head));
+    changes.push(...this.diffRequestBody(endpoint, base.requestBody, head.requestBody, requestDirection));
+    changes.push(...this.diffResponses(endpoint, base.responses || [], head.responses || [], responseDirection));
+    changes.push(...this.diffSecurity(endpoint, base.security, head.security));
+
+    return changes;
+  }
+
+  private diffParameters(endpoint: string, base: EndpointDetails, head: EndpointDetails): SpecChange[] {
+    const changes: SpecChange[] = [];
+    // Path parameters are matched by position, since renaming one doesn't change the URL clients call
+    const key = (details: EndpointDetails, parameter: ParameterInfo) => {
+      if (parameter.in !== 'path') return `${parameter.in}:${parameter.name}`;
+      const placeholders: string[] = details.path.match(/\{[^}]+\}/g) || [];
+      const position = placeholders.indexOf(`{${parameter.name}}`);
+      return position >= 0 ? `path:#${position}` : `path:${parameter.name}`;
+    };
+    const baseParameters = new Map((base.parameters || []).map(parameter => [key(base, parameter), parameter]));
+    const headParameters = new Map((head.parameters || []).map(parameter => [key(head, parameter), parameter]));
+
+    for (const [name, parameter] of baseParameters) {
+      if (!headParameters.has(name)) {
+        changes.push({
+          kind: 'removed',
+          breaking: true,
+          category: 'parameter',
+          endpoint,
+          location: `${parameter.in} parameter ${parameter.name}`,
+          message: 'Parameter removed'
+        });
+      }
+    }
+
+    for (const [name, parameter] of headParameters) {
+      const location = `${parameter.in} parameter ${parameter.name}`;
+      const previous = baseParameters.get(name);
+
+      if (!previous) {
+        changes.push({
+          kind: 'added',
+          breaking: !!parameter.required,
+          category: 'parameter',
+          endpoint,
+          location,
+          message: parameter.required ? 'Required parameter added' : 'Optional parameter added'
+        });
+        continue;
+      }
+
+      if (!!previous.required !== !!parameter.required) {
+        changes.push({
+          kind: 'changed',
+          breaking: !!parameter.required,
+          category: 'parameter',
+          endpoint,
+          location,
+          message: parameter.required ? 'Parameter became required' : 'Parameter became optional'
+        });
+      }
+
+      changes.push(...this.diffSchema(endpoint, location, previous.schema, parameter.schema, 'request', 0));
+    }
+
+    return changes;
+  }
+
+  private diffRequestBody(
+    endpoint: string,
+    base: EndpointDetails['requestBody'],
+    head: EndpointDetails['requestBody'],
+    direction: Direction
+  ): SpecChange[] {
+    const location = 'request body';
+
+    if (!base && !head) return [];
+    if (!head) {
+      return [{ kind: 'removed', breaking: true, category: 'requestBody', endpoint, location, message: 'Request body removed' }];
+    }
+    if (!base) {
+      return [{
+        kind: 'added',
+        breaking: !!head.required,
+        category: 'requestBody',
+        endpoint,
+        location,
+        message: head.required ? 'Required request body added' : 'Optional request body added'
+      }];
+    }
+
+    const changes: SpecChange[] = [];
+    if (!!base.required !== !!head.required) {
+      changes.push({
+        kind: 'changed',
+        breaking: !!head.required,
+        category: 'requestBody',
+        endpoint,
+        location,
+        message: head.required ? 'Request body became required' : 'Request body became optional'
+      });
+    }
+    if (base.contentType && head.contentType && base.contentType !== head.contentType) {
+      changes.push({
+        kind: 'changed',
+        breaking: true,
+        category: 'requestBody',
+        endpoint,
+        location,
+        message: `Content type changed from ${base.contentType} to ${head.contentType}`
+      });
+    }
+
+    changes.push(...this.diffSchema(endpoint, location, base.schema, head.schema, direction, 0));
+    return changes;
+  }
+
+  private diffResponses(endpoint: string, base: ResponseInfo[], head: ResponseInfo[], direction: Direction): SpecChange[] {
+    const changes: SpecChange[] = [];
+    const baseResponses = new Map(base.map(response => [response.statusCode, response]));
+    const headResponses = new Map(head.map(response => [response.statusCode, response]));
+
+    for (const [status] of baseResponses) {
+      if (!headResponses.has(status)) {
+        // Clients rely on documented success responses; dropping an error response only narrows what can go wrong
+        const success = status.startsWith('2');
+        changes.push({
+          kind: 'removed',
+          breaking: success,
+          category: 'response',
+          endpoint,
+          location: `response ${status}`,
+          message: 'Response removed'
+        });
+      }
+    }
+
+    for (const [status, response] of headResponses) {
+      const location = `response ${status}`;
+      const previous = baseResponses.get(status);
+
+      if (!previous) {
+        changes.push({ kind: 'added', breaking: false, category: 'response', endpoint, location, message: 'Response added' });
+        continue;
+      }
+
+      if (previous.contentType && response.contentType && previous.contentType !== response.contentType) {
+        changes.push({
+          kind: 'changed',
+          breaking: true,
+          category: 'response',
+          endpoint,
+          location,
+          message: `Content type changed from ${previous.contentType} to ${response.contentType}`
+        });
+      }
+
+      changes.push(...this.diffSchema(endpoint, `${location} body`, previous.schema, response.schema, direction, 0));
+    }
+
+    return changes;
+  }
+
+  private diffSecurity(endpoint: string, base: any[] | undefined, head: any[] | undefined): SpecChange[] {
+    // Each requirement object is one accepted alternative, e.g. "oauth2[read,write] + apiKey"
+    const normalize = (requirements: any[] | undefined) => new Set((requirements || []).map(requirement =>
+      Object.entries<any>(requirement)
+        .map(([scheme, scopes]) => Array.isArray(scopes) && scopes.length > 0 ? `${scheme}[${[...scopes].sort().join(',')}]` : scheme)
+        .sort()
+        .join(' + ') || 'anonymous'
+    ));
+    const baseAlternatives = normalize(base);
+    const headAlternatives = normalize(head);
+    const changes: SpecChange[] = [];
+
+    if (baseAlternatives.size > 0 && headAlternatives.size === 0) {
+      return [{ kind: 'removed', breaking: false, category: 'security', endpoint, message: 'Security requirements removed' }];
+    }
+    if (baseAlternatives.size === 0 && headAlternatives.size > 0) {
+      return [{
+        kind: 'added',
+        breaking: true,
+        category: 'security',
+        endpoint,
+        message: `Security required: ${Array.from(headAlternatives).join(' or ')}`
+      }];
+    }
+
+    for (const alternative of baseAlternatives) {
+      if (!headAlternatives.has(alternative)) {
+        changes.push({ kind: 'removed', breaking: true, category: 'security', endpoint, message: `Security option removed: ${alternative}` });
+      }
+    }
+    for (const alternative of headAlternatives) {
+      if (!baseAlternatives.has(alternative)) {
+        changes.push({ kind: 'added', breaking: false, category: 'security', endpoint, message: `Security option added: ${alternative}` });
+      }
+    }
+
+    return changes;
+  }
+
+  private diffSchema(endpoint: string, location: string, base: any, head: any, direction: Direction, depth: number): SpecChange[] {
+    if (!base || !head || depth > MAX_SCHEMA_DEPTH) return [];
+
+    // Recursive schemas are left as $refs after dereferencing; the same ref means the same schema
+    if (base.$ref || head.$ref) {
+      if (base.$ref === head.$ref) return [];
+      return [this.schemaChange(endpoint, location, `Type changed from ${formatSchemaType(base)} to ${formatSchemaType(head)}`, true)];
+    }
+
+    const changes: SpecChange[] = [];
+    const baseType = formatSchemaType(base);
+    const headType = formatSchemaType(head);
+
+    const withoutNull = (type: string) => type.split(' | ').filter(part => part !== 'null').join(' | ');
+    if (baseType !== headType && withoutNull(baseType) === withoutNull(headType)) {
+      // Accepting null is harmless for requests, but clients reading a response now have to handle it
+      const nowNullable = headType.split(' | ').includes('null');
+      changes.push(this.schemaChange(
+        endpoint,
+        location,
+        nowNullable ? 'Became nullable' : 'No longer nullable',
+        direction === 'request' ? !nowNullable : nowNullable
+      ));
+    } else if (baseType !== headType) {
+      // A property-by-property comparison would only repeat the same story
+      return [this.schemaChange(endpoint, location, `Type changed from ${baseType} to ${headType}`, true)];
+    }
+
+    if (base.format !== head.format) {
+      changes.push(this.schemaChange(endpoint, location, `Format changed from ${base.format || 'none'} to ${head.format || 'none'}`, true));
+    }
+
+    changes.push(...this.diffEnum(endpoint, location, base.enum, head.enum, direction));
+
+    if (base.properties || head.properties) {
+      changes.push(...this.diffProperties(endpoint, location, base, head, direction, depth));
+    }
+
+    if (base.items && head.items) {
+      changes.push(...this.diffSchema(endpoint, `${location}[]`, base.items, head.items, direction, depth + 1));
+    }
+
+    return changes;
+  }
+
+  private diffProperties(endpoint: string, location: string, base: any, head: any, direction: Direction, depth: number): SpecChange[] {
+    const changes: SpecChange[] = [];
+    const baseProperties = base.properties || {};
+    const headProperties = head.properties || {};
+    const baseRequired = new Set<string>(base.required || []);
+    const headRequired = new Set<string>(head.required || []);
+
+    for (const name of Object.keys(baseProperties)) {
+      if (!(name in headProperties)) {
+        // Clients may read a response property; a dropped request property is just ignored
+        changes.push({
+          kind: 'removed',
+          breaking: direction === 'response',
+          category: 'schema',
+          endpoint,
+          location: `${location}.${name}`,
+          message: 'Property removed'
+        });
+      }
+    }
+
+    for (const [name, schema] of Object.entries<any>(headProperties)) {
+      const propertyLocation = `${location}.${name}`;
+
+      if (!(name in baseProperties)) {
+        const required = headRequired.has(name);
+        changes.push({
+          kind: 'added',
+          breaking: direction === 'request' && required,
+          category: 'schema',
+          endpoint,
+          location: propertyLocation,
+          message: required ? 'Required property added' : 'Optional property added'
+        });
+        continue;
+      }
+
+      if (baseRequired.has(name) !== headRequired.has(name)) {
+        const nowRequired = headRequired.has(name);
+        // Requests break when a field becomes required; responses break when a field may now be missing
+        changes.push({
+          kind: 'changed',
+          breaking: direction === 'request' ? nowRequired : !nowRequired,
+          category: 'schema',
+          endpoint,
+          location: propertyLocation,
+          message: nowRequired ? 'Property became required' : 'Property became optional'
+        });
+      }
+
+      changes.push(...this.diffSchema(endpoint, propertyLocation, baseProperties[name], schema, direction, depth + 1));
+    }
+
+    return changes;
+  }
+
+  private diffEnum(endpoint: string, location: string, base: any[] | undefined, head: any[] | undefined, direction: Direction): SpecChange[] {
+    if (!base && !head) return [];
+
+    // An enum appearing restricts the allowed values; one disappearing lifts the restriction
+    if (!base || !head) {
+      return [{
+        kind: 'changed',
+        breaking: direction === 'request' ? !base : !head,
+        category: 'enum',
+        endpoint,
+        location,
+        message: base ? 'Enum restriction removed' : `Values restricted to ${head!.map(value => JSON.stringify(value)).join(', ')}`
+      }];
+    }
+
+    const changes: SpecChange[] = [];
+    const removed = base.filter(value => !head.some(candidate => JSON.stringify(candidate) === JSON.stringify(value)));
+    const added = head.filter(value => !base.some(candidate => JSON.stringify(candidate) === JSON.stringify(value)));
+
+    // Requests break when a value is no longer accepted; responses break when clients see a value they don't know
+    if (removed.length > 0) {
+      changes.push({
+        kind: 'removed',
+        breaking: direction === 'request',
+        category: 'enum',
+        endpoint,
+        location,
+        message: `Enum values removed: ${removed.map(value => JSON.stringify(value)).join(', ')}`
+      });
+    }
+    if (added.length > 0) {
+      changes.push({
+        kind: 'added',
+        breaking: direction === 'response',
+        category: 'enum',
+        endpoint,
+        location,
+        message: `Enum values added: ${added.map(value => JSON.stringify(value)).join(', ')}`
+      });
+    }
+
+    return changes;
+  }
+
+  private schemaChange(endpoint: string, location: string, message: string, breaking: boolean): SpecChange {
+    return { kind: 'changed', breaking, category: 'schema', endpoint, location, message };
+  }
+
+  private recommendBump(changes: SpecChange[]): SemverBump {
+    if (changes.some(change => change.breaking)) return 'major';
+    if (changes.some(change => change.kind === 'added')) return 'minor';
+    if (changes.length > 0) return 'patch';
+    return 'none';
+  }
+}
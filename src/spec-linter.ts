@@ -0,0 +1,379 @@
+import { LintFinding, LintReport, LintSeverity, ReferenceGraph } from './types.js';
+import { buildReferenceGraph, findUnusedComponents, parseComponentPointer } from './reference-graph.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'];
+
+const SEVERITY_ORDER: LintSeverity[] = ['error', 'warn', 'info'];
+
+export type LintRuleSetting = LintSeverity | 'off';
+
+interface OperationEntry {
+  path: string;
+  method: string;
+  operation: any;
+  pathItem: any;
+  location: string[];
+  webhook: boolean;
+}
+
+interface LintContext {
+  document: any;
+  operations: OperationEntry[];
+  references: ReferenceGraph;
+}
+
+interface RuleViolation {
+  message: string;
+  location: string[];
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  check(context: LintContext): RuleViolation[];
+}
+
+export interface LintOptions {
+  rules?: string[]; // Only run these rules
+  settings?: Record<string, LintRuleSetting>; // Severity overrides, usually from a rules file
+  references?: ReferenceGraph; // The session's graph, which also follows $refs in external files
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'operation-id-required',
+    description: 'Every operation has an operationId',
+    severity: 'warn',
+    check: ({ operations }) => operations
+      .filter(entry => !entry.operation.operationId)
+      .map(entry => ({
+        message: `${describeOperation(entry)} has no operationId`,
+        location: entry.location
+      }))
+  },
+  {
+    id: 'operation-id-unique',
+    description: 'operationIds are unique across the spec',
+    severity: 'error',
+    check: ({ operations }) => {
+      const violations: RuleViolation[] = [];
+      const seen = new Map<string, OperationEntry>();
+      for (const entry of operations) {
+        const operationId = entry.operation.operationId;
+        if (!operationId) continue;
+
+        const first = seen.get(operationId);
+        if (first) {
+          violations.push({
+            message: `Duplicate operationId "${operationId}" (also used by ${describeOperation(first)})`,
+            location: [...entry.location, 'operationId']
+          });
+        } else {
+          seen.set(operationId, entry);
+        }
+      }
+      return violations;
+    }
+  },
+  {
+    id: 'parameter-description',
+    description: 'Parameters have a description',
+    severity: 'warn',
+    check: ({ document, operations }) => {
+      const violations: RuleViolation[] = [];
+      const reported = new Set<string>();
+      const pathItems = new Set<any>();
+
+      const checkParameters = (parameters: any, location: string[]) => {
+        if (!Array.isArray(parameters)) return;
+        parameters.forEach((parameter, index) => {
+          // Shared parameters are reported once, where they are defined
+          const resolved = resolveLocalRef(document, parameter, [...location, String(index)]);
+          const key = resolved.location.join('/');
+          if (!resolved.node || resolved.node.description || reported.has(key)) return;
+
+          reported.add(key);
+          violations.push({
+            message: `Parameter "${resolved.node.name}" (${resolved.node.in}) has no description`,
+            location: resolved.location
+          });
+        });
+      };
+
+      for (const entry of operations) {
+        if (!pathItems.has(entry.pathItem)) {
+          pathItems.add(entry.pathItem);
+          checkParameters(entry.pathItem.parameters, [...entry.location.slice(0, -1), 'parameters']);
+        }
+        checkParameters(entry.operation.parameters, [...entry.location, 'parameters']);
+      }
+      return violations;
+    }
+  },
+  {
+    id: 'response-schema',
+    description: 'Responses that return a body declare its schema',
+    severity: 'warn',
+    check: ({ document, operations }) => {
+      const violations: RuleViolation[] = [];
+      for (const entry of operations) {
+        // HEAD responses never carry a body
+        if (entry.method === 'head') continue;
+
+        for (const [status, rawResponse] of Object.entries<any>(entry.operation.responses || {})) {
+          if (/^(1\d\d|1XX|204|304)$/i.test(status)) continue;
+
+          const { node: response, location } = resolveLocalRef(document, rawResponse, [...entry.location, 'responses', status]);
+          if (!response || typeof response !== 'object' || response.$ref) continue;
+
+          if (isSwagger2(document)) {
+            if (!response.schema) {
+              violations.push({ message: `Response ${status} of ${describeOperation(entry)} has no schema`, location });
+            }
+            continue;
+          }
+
+          const content = response.content || {};
+          if (Object.keys(content).length === 0) {
+            violations.push({ message: `Response ${status} of ${describeOperation(entry)} has no content schema`, location });
+            continue;
+          }
+          for (const [mediaType, media] of Object.entries<any>(content)) {
+            if (!media?.schema) {
+              violations.push({
+                message: `Response ${status} of ${describeOperation(entry)} has no schema for ${mediaType}`,
+                location: [...location, 'content', mediaType]
+              });
+            }
+          }
+        }
+      }
+      return violations;
+    }
+  },
+  {
+    id: 'unused-component-schema',
+    description: 'Every component schema is used by an operation, directly or through other components',
+    severity: 'warn',
+    check: ({ document, references }) => findUnusedComponents(references)
+      .map(pointer => parseComponentPointer(pointer)!)
+      .filter(component => component.kind === 'schemas')
+      .map(component => ({
+        message: `Schema "${component.name}" is not used by any operation`,
+        location: componentLocation(document, component)
+      }))
+  },
+  {
+    id: 'unused-component',
+    description: 'Every reusable parameter, request body, response, header and example is used by an operation',
+    severity: 'warn',
+    check: ({ document, references }) => findUnusedComponents(references)
+      .map(pointer => parseComponentPointer(pointer)!)
+      .filter(component => component.kind !== 'schemas')
+      .map(component => ({
+        message: `Component ${component.kind}/${component.name} is not used by any operation`,
+        location: componentLocation(document, component)
+      }))
+  },
+  {
+    id: 'path-casing',
+    description: 'Path segments use one casing style consistently',
+    severity: 'warn',
+    check: ({ document }) => {
+      const segments = Object.keys(document.paths || {}).map(path => ({
+        path,
+        styles: path.split('/').filter(segment => segment && !segment.startsWith('{')).map(getCasingStyle)
+      }));
+
+      const counts = new Map<string, number>();
+      for (const { styles } of segments) {
+        for (const style of styles) {
+          if (style) counts.set(style, (counts.get(style) || 0) + 1);
+        }
+      }
+      if (counts.size < 2) return [];
+
+      const dominant = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      return segments
+        .filter(({ styles }) => styles.some(style => style && style !== dominant))
+        .map(({ path, styles }) => ({
+          message: `Path ${path} uses ${styles.find(style => style && style !== dominant)}, but most paths use ${dominant}`,
+          location: ['paths', path]
+        }));
+    }
+  },
+  {
+    id: 'operation-4xx-response',
+    description: 'Operations document at least one 4xx response',
+    severity: 'warn',
+    check: ({ operations }) => operations
+      // Webhook responses are what the receiver sends back, so client errors are not the spec's to describe
+      .filter(entry => !entry.webhook)
+      .filter(entry => !Object.keys(entry.operation.responses || {}).some(status => /^4(\d\d|XX)$/i.test(status)))
+      .map(entry => ({
+        message: `${describeOperation(entry)} has no 4xx response`,
+        location: entry.operation.responses ? [...entry.location, 'responses'] : entry.location
+      }))
+  },
+  {
+    id: 'operation-tag-defined',
+    description: 'Operation tags are declared in the top-level tags list',
+    severity: 'warn',
+    check: ({ document, operations }) => {
+      const declared = new Set<string>((document.tags || []).map((tag: any) => tag?.name));
+      const violations: RuleViolation[] = [];
+      for (const entry of operations) {
+        (entry.operation.tags || []).forEach((tag: string, index: number) => {
+          if (!declared.has(tag)) {
+            violations.push({
+              message: `Tag "${tag}" on ${describeOperation(entry)} is not declared in tags`,
+              location: [...entry.location, 'tags', String(index)]
+            });
+          }
+        });
+      }
+      return violations;
+    }
+  }
+];
+
+/**
+ * Run lint rules over an OpenAPI 3.x or Swagger 2.0 document as written, before dereferencing,
+ * so finding locations point into the source and unreferenced components are still visible.
+ * Only the root document is linted; external files pulled in by $ref are not followed, except by
+ * the usage rules when the session's reference graph is passed in.
+ */
+export function lintDocument(document: any, options: LintOptions = {}): LintReport {
+  const settings = options.settings || {};
+  assertKnownRules([...(options.rules || []), ...Object.keys(settings)]);
+
+  // Rules named explicitly always run; otherwise a rules file can switch them off
+  const rules = options.rules && options.rules.length > 0
+    ? LINT_RULES.filter(rule => options.rules!.includes(rule.id))
+    : LINT_RULES.filter(rule => settings[rule.id] !== 'off');
+
+  const context: LintContext = { document, operations: collectOperations(document), references: options.references || buildReferenceGraph(document) };
+  const findings: LintFinding[] = [];
+
+  for (const rule of rules) {
+    const setting = settings[rule.id];
+    const severity = setting && setting !== 'off' ? setting : rule.severity;
+    for (const violation of rule.check(context)) {
+      findings.push({
+        rule: rule.id,
+        severity,
+        message: violation.message,
+        path: toJsonPointer(violation.location)
+      });
+    }
+  }
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return {
+    count: findings.length,
+    errors: findings.filter(finding => finding.severity === 'error').length,
+    warnings: findings.filter(finding => finding.severity === 'warn').length,
+    infos: findings.filter(finding => finding.severity === 'info').length,
+    rules: rules.map(rule => rule.id),
+    findings
+  };
+}
+
+/**
+ * Read rule settings from a parsed rules file of the form
+ * `{ rules: { "operation-id-required": "error", "path-casing": "off" } }`.
+ */
+export function parseLintRuleSettings(config: any): Record<string, LintRuleSetting> {
+  if (!config || typeof config !== 'object' || !config.rules || typeof config.rules !== 'object') {
+    throw new Error('Rules file must contain a "rules" object mapping rule IDs to severities');
+  }
+
+  const settings: Record<string, LintRuleSetting> = {};
+  for (const [id, value] of Object.entries<any>(config.rules)) {
+    // Allow both `rule: warn` and `rule: { severity: warn }`
+    const setting = value && typeof value === 'object' ? value.severity : value;
+    if (!['error', 'warn', 'info', 'off'].includes(setting)) {
+      throw new Error(`Invalid severity for lint rule "${id}": expected error, warn, info or off`);
+    }
+    settings[id] = setting;
+  }
+
+  assertKnownRules(Object.keys(settings));
+  return settings;
+}
+
+function assertKnownRules(ids: string[]): void {
+  const unknown = ids.filter(id => !LINT_RULES.some(rule => rule.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown lint rule(s): ${unknown.join(', ')}. Available rules: ${LINT_RULES.map(rule => rule.id).join(', ')}`);
+  }
+}
+
+function collectOperations(document: any): OperationEntry[] {
+  const operations: OperationEntry[] = [];
+  for (const [section, webhook] of [['paths', false], ['webhooks', true]] as const) {
+    for (const [path, rawPathItem] of Object.entries<any>(document[section] || {})) {
+      const { node: pathItem, location } = resolveLocalRef(document, rawPathItem, [section, path]);
+      if (!pathItem || typeof pathItem !== 'object') continue;
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation || typeof operation !== 'object') continue;
+        operations.push({ path, method, operation, pathItem, location: [...location, method], webhook });
+      }
+    }
+  }
+  return operations;
+}
+
+function describeOperation(entry: OperationEntry): string {
+  return entry.webhook ? `webhook ${entry.path} (${entry.method.toUpperCase()})` : `${entry.method.toUpperCase()} ${entry.path}`;
+}
+
+function isSwagger2(document: any): boolean {
+  return typeof document?.swagger === 'string';
+}
+
+// Swagger 2.0 keeps schemas under `definitions`, and parameters and responses at the top level
+function componentLocation(document: any, component: { kind: string; name: string }): string[] {
+  if (!isSwagger2(document)) return ['components', component.kind, component.name];
+  return [component.kind === 'schemas' ? 'definitions' : component.kind, component.name];
+}
+
+// Follow local "#/..." references so findings land where the fix belongs
+function resolveLocalRef(document: any, node: any, location: string[]): { node: any; location: string[] } {
+  const seen = new Set<string>();
+  while (node && typeof node.$ref === 'string' && node.$ref.startsWith('#/') && !seen.has(node.$ref)) {
+    seen.add(node.$ref);
+    const tokens = node.$ref.slice(2).split('/').map(unescapePointerToken);
+    const target = tokens.reduce((current: any, token: string) => current?.[token], document);
+    if (target === undefined) break;
+    node = target;
+    location = tokens;
+  }
+  return { node, location };
+}
+
+function getCasingStyle(segment: string): string | undefined {
+  const name = segment.replace(/\.[a-z0-9]+$/i, '');
+  if (name.includes('-')) return 'kebab-case';
+  if (name.includes('_')) return 'snake_case';
+  if (/^[A-Z]/.test(name)) return 'PascalCase';
+  if (/[a-z][A-Z]/.test(name)) return 'camelCase';
+  // Single lowercase words fit every style
+  return undefined;
+}
+
+function toJsonPointer(location: string[]): string {
+  return '#' + location.map(token => `/${escapePointerToken(token)}`).join('');
+}
+
+function escapePointerToken(token: string): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointerToken(token: string): string {
+  return decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+}
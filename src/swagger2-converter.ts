@@ -0,0 +1,348 @@
+import { OpenAPIDocument } from './types.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+
+// Swagger 2.0 parameter keywords that live under `schema` in OpenAPI 3
+const SCHEMA_KEYWORDS = [
+  'type', 'format', 'items', 'enum', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+  'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'multipleOf'
+];
+
+const REF_PREFIXES: Array<[string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/']
+];
+
+export function isSwagger2(spec: any): boolean {
+  return typeof spec?.swagger === 'string' && spec.swagger.startsWith('2.');
+}
+
+/**
+ * Convert a dereferenced Swagger 2.0 document into the OpenAPI 3.0 shape, so the rest of
+ * Janus only ever deals with `servers`, `requestBody.content` and `response.content`.
+ */
+export function convertSwagger2ToOpenAPI3(spec: any): OpenAPIDocument {
+  const globalConsumes: string[] = spec.consumes || [];
+  const globalProduces: string[] = spec.produces || [];
+
+  const paths: Record<string, any> = {};
+  for (const [path, pathItem] of Object.entries<any>(spec.paths || {})) {
+    if (!pathItem || typeof pathItem !== 'object') continue;
+
+    const pathParameters: any[] = pathItem.parameters || [];
+    const converted: any = {};
+
+    for (const [key, value] of Object.entries<any>(pathItem)) {
+      if (key === 'parameters') {
+        const parameters = pathParameters.filter(isPlainParameter).map(convertParameter);
+        if (parameters.length > 0) converted.parameters = parameters;
+      } else if (HTTP_METHODS.includes(key)) {
+        converted[key] = convertOperation(value, pathParameters, globalConsumes, globalProduces);
+      } else {
+        converted[key] = value;
+      }
+    }
+
+    paths[path] = converted;
+  }
+
+  const components: Record<string, any> = {};
+  if (spec.definitions) {
+    components.schemas = spec.definitions;
+  }
+  if (spec.parameters) {
+    const parameters: Record<string, any> = {};
+    const requestBodies: Record<string, any> = {};
+    for (const [name, parameter] of Object.entries<any>(spec.parameters)) {
+      if (isPlainParameter(parameter)) {
+        parameters[name] = convertParameter(parameter);
+      } else {
+        requestBodies[name] = convertRequestBody([parameter], globalConsumes);
+      }
+    }
+    if (Object.keys(parameters).length > 0) components.parameters = parameters;
+    if (Object.keys(requestBodies).length > 0) components.requestBodies = requestBodies;
+  }
+  if (spec.responses) {
+    components.responses = Object.fromEntries(
+      Object.entries<any>(spec.responses).map(([name, response]) => [name, convertResponse(response, globalProduces)])
+    );
+  }
+  if (spec.securityDefinitions) {
+    components.securitySchemes = Object.fromEntries(
+      Object.entries<any>(spec.securityDefinitions).map(([name, scheme]) => [name, convertSecurityScheme(scheme)])
+    );
+  }
+
+  const document: any = {
+    openapi: '3.0.3',
+    info: spec.info,
+    servers: convertServers(spec),
+    paths
+  };
+  if (Object.keys(components).length > 0) document.components = components;
+  if (spec.security) document.security = spec.security;
+  if (spec.tags) document.tags = spec.tags;
+  if (spec.externalDocs) document.externalDocs = spec.externalDocs;
+  for (const [key, value] of Object.entries(spec)) {
+    if (key.startsWith('x-')) document[key] = value;
+  }
+
+  convertSchemas(document);
+  // Circular schemas are left as $refs by dereferencing, and those still use 2.0 locations
+  rewriteRefs(document, new Set());
+
+  return document as OpenAPIDocument;
+}
+
+function convertServers(spec: any): Array<{ url: string }> {
+  const basePath = spec.basePath || '';
+  if (!spec.host) {
+    return basePath ? [{ url: basePath }] : [];
+  }
+
+  const schemes: string[] = spec.schemes && spec.schemes.length > 0 ? spec.schemes : ['https'];
+  return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${basePath}` }));
+}
+
+function convertOperation(operation: any, pathParameters: any[], globalConsumes: string[], globalProduces: string[]): any {
+  const { consumes, produces, parameters: operationParameters, responses, ...rest } = operation;
+  const converted: any = { ...rest };
+
+  // Operation-level parameters override path-level ones with the same name and location
+  const parameters: any[] = [...(operationParameters || [])];
+  for (const pathParameter of pathParameters) {
+    if (!parameters.some(p => p.name === pathParameter.name && p.in === pathParameter.in)) {
+      // Plain path-level parameters stay on the path item; only bodies need to move onto each operation
+      if (!isPlainParameter(pathParameter)) parameters.push(pathParameter);
+    }
+  }
+
+  const plainParameters = parameters.filter(isPlainParameter).map(convertParameter);
+  if (plainParameters.length > 0) {
+    converted.parameters = plainParameters;
+  }
+
+  const bodyParameters = parameters.filter(p => !isPlainParameter(p));
+  if (bodyParameters.length > 0) {
+    converted.requestBody = convertRequestBody(bodyParameters, consumes || globalConsumes);
+  }
+
+  if (responses) {
+    converted.responses = Object.fromEntries(
+      Object.entries<any>(responses).map(([status, response]) => [status, convertResponse(response, produces || globalProduces)])
+    );
+  }
+
+  return converted;
+}
+
+function isPlainParameter(parameter: any): boolean {
+  return parameter.in !== 'body' && parameter.in !== 'formData';
+}
+
+function convertParameter(parameter: any): any {
+  const converted: any = {};
+  const schema: any = {};
+
+  for (const [key, value] of Object.entries(parameter)) {
+    if (SCHEMA_KEYWORDS.includes(key)) {
+      schema[key] = value;
+    } else if (key === 'collectionFormat') {
+      Object.assign(converted, convertCollectionFormat(value as string, parameter.in));
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  if (Object.keys(schema).length > 0) {
+    converted.schema = schema;
+  }
+
+  return converted;
+}
+
+function convertCollectionFormat(collectionFormat: string, location: string): any {
+  switch (collectionFormat) {
+    case 'multi':
+      return { style: 'form', explode: true };
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false };
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false };
+    case 'csv':
+    default:
+      return location === 'query' || location === 'cookie'
+        ? { style: 'form', explode: false }
+        : { style: 'simple', explode: false };
+  }
+}
+
+function convertRequestBody(parameters: any[], consumes: string[]): any {
+  const body = parameters.find(p => p.in === 'body');
+  if (body) {
+    const mediaTypes = consumes.length > 0 ? consumes : ['application/json'];
+    const requestBody: any = {
+      content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema: body.schema }]))
+    };
+    if (body.description) requestBody.description = body.description;
+    if (body.required) requestBody.required = true;
+    return requestBody;
+  }
+
+  // formData parameters become the properties of a single form schema
+  const schema: any = { type: 'object', properties: {} };
+  const required: string[] = [];
+  for (const parameter of parameters) {
+    const property = convertParameter(parameter).schema || {};
+    if (parameter.description) property.description = parameter.description;
+    schema.properties[parameter.name] = property;
+    if (parameter.required) required.push(parameter.name);
+  }
+  if (required.length > 0) schema.required = required;
+
+  const formTypes = consumes.filter(mediaType => mediaType === 'multipart/form-data' || mediaType === 'application/x-www-form-urlencoded');
+  const hasFile = parameters.some(p => p.type === 'file');
+  const mediaTypes = formTypes.length > 0
+    ? formTypes
+    : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+  const requestBody: any = {
+    content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }]))
+  };
+  if (required.length > 0) requestBody.required = true;
+  return requestBody;
+}
+
+function convertResponse(response: any, produces: string[]): any {
+  if (!response || typeof response !== 'object') return response;
+
+  const { schema, examples, headers, ...rest } = response;
+  const converted: any = { ...rest };
+
+  if (headers) {
+    converted.headers = Object.fromEntries(
+      Object.entries<any>(headers).map(([name, header]) => [name, convertParameter(header)])
+    );
+  }
+
+  if (schema) {
+    const mediaTypes = produces.length > 0 ? produces : ['application/json'];
+    converted.content = Object.fromEntries(mediaTypes.map(mediaType => {
+      const media: any = { schema };
+      if (examples && examples[mediaType] !== undefined) {
+        media.example = examples[mediaType];
+      }
+      return [mediaType, media];
+    }));
+  }
+
+  return converted;
+}
+
+function convertSecurityScheme(scheme: any): any {
+  const description = scheme.description ? { description: scheme.description } : {};
+
+  switch (scheme.type) {
+    case 'basic':
+      return { type: 'http', scheme: 'basic', ...description };
+    case 'apiKey':
+      return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+    case 'oauth2': {
+      const scopes = scheme.scopes || {};
+      const flows: Record<string, any> = {
+        implicit: { implicit: { authorizationUrl: scheme.authorizationUrl, scopes } },
+        password: { password: { tokenUrl: scheme.tokenUrl, scopes } },
+        application: { clientCredentials: { tokenUrl: scheme.tokenUrl, scopes } },
+        accessCode: { authorizationCode: { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes } }
+      };
+      return { type: 'oauth2', flows: flows[scheme.flow] || {}, ...description };
+    }
+    default:
+      return scheme;
+  }
+}
+
+// Every schema position in the converted document, so inline schemas get the same treatment as definitions
+function convertSchemas(document: any): void {
+  const visited = new Set<any>();
+  const convertContent = (content: any) => {
+    for (const media of Object.values<any>(content || {})) convertSchema(media?.schema, visited);
+  };
+  const convertParameters = (parameters: any) => {
+    for (const parameter of Object.values<any>(parameters || {})) convertSchema(parameter?.schema, visited);
+  };
+  const convertResponses = (responses: any) => {
+    for (const response of Object.values<any>(responses || {})) {
+      convertContent(response?.content);
+      convertParameters(response?.headers);
+    }
+  };
+
+  const components = document.components || {};
+  for (const schema of Object.values<any>(components.schemas || {})) convertSchema(schema, visited);
+  convertParameters(components.parameters);
+  for (const requestBody of Object.values<any>(components.requestBodies || {})) convertContent(requestBody?.content);
+  convertResponses(components.responses);
+
+  for (const pathItem of Object.values<any>(document.paths || {})) {
+    convertParameters(pathItem.parameters);
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      convertParameters(operation.parameters);
+      convertContent(operation.requestBody?.content);
+      convertResponses(operation.responses);
+    }
+  }
+}
+
+function convertSchema(schema: any, visited: Set<any>): void {
+  if (!schema || typeof schema !== 'object' || visited.has(schema)) return;
+  visited.add(schema);
+
+  if (schema['x-nullable'] === true) {
+    schema.nullable = true;
+    delete schema['x-nullable'];
+  }
+  if (schema.type === 'file') {
+    schema.type = 'string';
+    schema.format = 'binary';
+  }
+  // Array parameters' items can carry their own collectionFormat, which OpenAPI 3 has no place for
+  delete schema.collectionFormat;
+  if (typeof schema.discriminator === 'string') {
+    schema.discriminator = { propertyName: schema.discriminator };
+  }
+
+  for (const key of ['properties', 'patternProperties']) {
+    for (const property of Object.values(schema[key] || {})) {
+      convertSchema(property, visited);
+    }
+  }
+  for (const key of ['items', 'additionalProperties']) {
+    convertSchema(schema[key], visited);
+  }
+  for (const subschema of schema.allOf || []) {
+    convertSchema(subschema, visited);
+  }
+}
+
+function rewriteRefs(node: any, visited: Set<any>): void {
+  if (!node || typeof node !== 'object' || visited.has(node)) return;
+  visited.add(node);
+
+  if (typeof node.$ref === 'string') {
+    for (const [from, to] of REF_PREFIXES) {
+      if (node.$ref.startsWith(from)) {
+        node.$ref = to + node.$ref.slice(from.length);
+        break;
+      }
+    }
+  }
+
+  for (const value of Object.values(node)) {
+    rewriteRefs(value, visited);
+  }
+}
@@ -1,34 +1,240 @@
-import { ResponseTransformer, EndpointSummary, EndpointDetails, OutputFormat } from './types.js';
+import { ResponseTransformer, EndpointSummary, EndpointDetails, OutputFormat, ChannelSummary, MessageDetails, AsyncServerInfo, LintReport, SpecDiff, SessionInfo, CacheStats, SessionSummary, WorkspaceStatus, SearchResult, RequestMatch, MediaTypeInfo, SchemaView, SchemaNode, SchemaConstraints, SchemaUsage, SchemaUsageReport, GeneratedExample, EndpointSnippets, CodeSnippet, SnippetLanguage, ValidationReport, ConformanceReport, ConformanceIssue } from './types.js';
 
 // Helper function to format schema type
-function formatSchemaType(schema: any): string {
+export function formatSchemaType(schema: any): string {
   if (!schema) return 'unknown';
   
+  // OpenAPI 3.1 (JSON Schema) constants render as literals
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  
   if (schema.type) {
-    if (schema.type === 'array' && schema.items) {
-      return `${formatSchemaType(schema.items)}[]`;
+    // OpenAPI 3.1 allows type arrays such as ["string", "null"]
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const formatted = types.map(type => type === 'array' ? formatArrayType(schema) : type);
+    // OpenAPI 3.0 expresses the same thing with `nullable`
+    if (schema.nullable && !types.includes('null')) {
+      formatted.push('null');
     }
-    return schema.type;
+    return formatted.join(' | ');
   }
   
   if (schema.$ref) {
     return schema.$ref.split('/').pop() || 'ref';
   }
   
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return variants.map(formatSchemaType).join(' | ');
+  }
+  
+  if (Array.isArray(schema.prefixItems)) {
+    return formatArrayType(schema);
+  }
+  
   return 'object';
 }
 
+function formatArrayType(schema: any): string {
+  // JSON Schema 2020-12 tuples
+  if (Array.isArray(schema.prefixItems)) {
+    return `[${schema.prefixItems.map(formatSchemaType).join(', ')}]`;
+  }
+  if (schema.items) {
+    const itemType = formatSchemaType(schema.items);
+    return itemType.includes(' | ') ? `(${itemType})[]` : `${itemType}[]`;
+  }
+  return 'array';
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Helper function to list the top-level properties of an object schema
+function describeProperties(schema: any): Array<{ name: string; type: string; required: boolean; description?: string }> {
+  if (!schema?.properties) return [];
+  const required: string[] = schema.required || [];
+  return Object.entries<any>(schema.properties).map(([name, property]) => ({
+    name,
+    type: formatSchemaType(property),
+    required: required.includes(name),
+    description: property?.description
+  }));
+}
+
+// `name=value` pairs for extracted parameter values; repeated query keys list every value
+function formatValues(values: Record<string, string | string[]>): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}=${Array.isArray(value) ? value.join(',') : value}`)
+    .join(', ');
+}
+
+// The primary media type of a body or response followed by its alternatives
+function listMediaTypes(body: Omit<MediaTypeInfo, 'contentType'> & { contentType?: string; alternatives?: MediaTypeInfo[] }): MediaTypeInfo[] {
+  if (!body.contentType) return [];
+  const { alternatives, ...primary } = body;
+  return [primary as MediaTypeInfo, ...(alternatives || [])];
+}
+
+// Multipart and form encodings as `property: content type` pairs
+function formatEncoding(encoding: Record<string, any>): string {
+  return Object.entries<any>(encoding)
+    .map(([name, value]) => `${name}: ${value?.contentType || value?.style || 'default'}`)
+    .join(', ');
+}
+
+// `>= 0`, `1..20`: a minimum and maximum as one range
+function formatRange(min?: number, max?: number): string | undefined {
+  if (min !== undefined && max !== undefined) return min === max ? `${min}` : `${min}..${max}`;
+  if (min !== undefined) return `>= ${min}`;
+  if (max !== undefined) return `<= ${max}`;
+  return undefined;
+}
+
+// Schema validation keywords as short phrases, e.g. `one of "a" | "b"`, `format uuid`, `>= 0`
+export function formatConstraints(constraints: SchemaConstraints): string[] {
+  const parts: string[] = [];
+  if (constraints.enum) parts.push(`one of ${constraints.enum.map(value => JSON.stringify(value)).join(' | ')}`);
+  if (constraints.const !== undefined) parts.push(`= ${JSON.stringify(constraints.const)}`);
+  if (constraints.format) parts.push(`format ${constraints.format}`);
+
+  // OpenAPI 3.0 marks exclusive bounds with booleans, 3.1 gives the bound itself
+  const lower = typeof constraints.exclusiveMinimum === 'number' ? `> ${constraints.exclusiveMinimum}`
+    : constraints.exclusiveMinimum === true && constraints.minimum !== undefined ? `> ${constraints.minimum}`
+    : constraints.minimum !== undefined ? `>= ${constraints.minimum}` : undefined;
+  const upper = typeof constraints.exclusiveMaximum === 'number' ? `< ${constraints.exclusiveMaximum}`
+    : constraints.exclusiveMaximum === true && constraints.maximum !== undefined ? `< ${constraints.maximum}`
+    : constraints.maximum !== undefined ? `<= ${constraints.maximum}` : undefined;
+  if (lower) parts.push(lower);
+  if (upper) parts.push(upper);
+  if (constraints.multipleOf !== undefined) parts.push(`multiple of ${constraints.multipleOf}`);
+
+  const length = formatRange(constraints.minLength, constraints.maxLength);
+  if (length) parts.push(`length ${length}`);
+  if (constraints.pattern) parts.push(`pattern /${constraints.pattern}/`);
+  const items = formatRange(constraints.minItems, constraints.maxItems);
+  if (items) parts.push(`items ${items}`);
+  if (constraints.uniqueItems) parts.push('unique');
+  const properties = formatRange(constraints.minProperties, constraints.maxProperties);
+  if (properties) parts.push(`properties ${properties}`);
+  if (constraints.default !== undefined) parts.push(`default ${JSON.stringify(constraints.default)}`);
+  if (constraints.nullable) parts.push('nullable');
+  if (constraints.readOnly) parts.push('read-only');
+  if (constraints.writeOnly) parts.push('write-only');
+  if (constraints.deprecated) parts.push('deprecated');
+  return parts;
+}
+
+// The example shown for a media type: the spec's own, else its first named example, else a generated one
+export function exampleOf(media: { example?: any; examples?: any; generatedExample?: any }): { value: any; generated: boolean } | undefined {
+  if (media.example !== undefined) return { value: media.example, generated: false };
+  const named = media.examples && Object.values<any>(media.examples).find(example => example?.value !== undefined);
+  if (named) return { value: named.value, generated: false };
+  if (media.generatedExample !== undefined) return { value: media.generatedExample, generated: true };
+  return undefined;
+}
+
+function formatStructuredExample(media: { example?: any; examples?: any; generatedExample?: any }, indent: string): string {
+  const example = exampleOf(media);
+  if (!example) return '';
+  const lines = JSON.stringify(example.value, null, 2).split('\n').map(line => `${indent}  ${line}`);
+  return `${indent}Example${example.generated ? ' (generated)' : ''}:\n${lines.join('\n')}\n`;
+}
+
+function formatMarkdownExample(media: { example?: any; examples?: any; generatedExample?: any }): string {
+  const example = exampleOf(media);
+  if (!example) return '';
+  return `**Example${example.generated ? ' (generated)' : ''}:**\n\n\`\`\`json\n${JSON.stringify(example.value, null, 2)}\n\`\`\`\n\n`;
+}
+
+const SNIPPET_FENCES: Record<SnippetLanguage, string> = {
+  curl: 'bash',
+  fetch: 'javascript',
+  axios: 'javascript',
+  python: 'python',
+  go: 'go'
+};
+
+export function formatMarkdownSnippet(snippet: CodeSnippet): string {
+  return `\`\`\`${SNIPPET_FENCES[snippet.language]}\n${snippet.code}\n\`\`\`\n\n`;
+}
+
+function snippetTitle(data: EndpointSnippets): string {
+  return data.operationId ? `${data.target} (${data.operationId})` : data.target;
+}
+
+function formatConformanceIssue(issue: ConformanceIssue): string {
+  const occurrences = issue.occurrences > 1 ? ` (x${issue.occurrences})` : '';
+  return `${issue.statusCode} ${issue.pointer}: ${issue.message}${occurrences}`;
+}
+
+function schemaTitle(data: { source: string; propertyPath?: string }): string {
+  if (!data.propertyPath) return data.source;
+  // Endpoint sources are phrases, schema names read as the start of the path
+  if (/\s/.test(data.source)) return `${data.source} > ${data.propertyPath}`;
+  return data.propertyPath.startsWith('[') ? `${data.source}${data.propertyPath}` : `${data.source}.${data.propertyPath}`;
+}
+
+/**
+ * One line per property, array item detail and variant below a schema, each indented under its
+ * parent. Arrays show their items' properties directly, since the type already names the items.
+ */
+function schemaTreeLines(node: SchemaNode, indent: string, describe: (node: SchemaNode, label: string) => string): string[] {
+  const lines: string[] = [];
+  const child = (childNode: SchemaNode, label: string) => {
+    lines.push(`${indent}${describe(childNode, label)}`);
+    lines.push(...schemaTreeLines(childNode, `${indent}  `, describe));
+  };
+
+  for (const property of node.properties || []) child(property, property.name || '');
+  if (node.additionalProperties) child(node.additionalProperties, '[key]');
+  if (node.items) {
+    const { items } = node;
+    if (items.constraints || items.description || items.circular || items.truncated || items.oneOf || items.anyOf) {
+      child(items, '[]');
+    } else {
+      lines.push(...schemaTreeLines(items, indent, describe));
+    }
+  }
+  for (const variant of node.oneOf || []) child(variant, 'oneOf');
+  for (const variant of node.anyOf || []) child(variant, 'anyOf');
+  return lines;
+}
+
+// `POST /orders: request body application/json via Order.items[] > LineItem.product`
+function formatSchemaUsage(usage: SchemaUsage): string {
+  const user = usage.kind === 'operation' ? usage.name : `${usage.kind} ${usage.name}`;
+  const location = usage.location ? `: ${usage.location}` : '';
+  return `${user}${location}${usage.via ? ` via ${usage.via.join(' > ')}` : ''}`;
+}
+
 // JSON Transformer (current behavior)
 export class JsonTransformer implements ResponseTransformer {
   transformEndpointsList(data: { count: number; endpoints: EndpointSummary[] }): string {
     return JSON.stringify(data, null, 2);
   }
 
+  transformSearchResults(data: { query: string; count: number; results: SearchResult[] }): string {
+    return JSON.stringify(data, null, 2);
+  }
+
   transformEndpointDetails(data: EndpointDetails): string {
     return JSON.stringify(data, null, 2);
   }
 
-  transformSessionInfo(data: { title?: string; version?: string; description?: string; baseUrl?: string }): string {
+  transformRequestMatch(data: RequestMatch): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformSessionInfo(data: SessionInfo): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformSessionList(data: { count: number; sessions: SessionSummary[]; workspace?: WorkspaceStatus }): string {
     return JSON.stringify(data, null, 2);
   }
 
@@ -40,6 +246,54 @@ export class JsonTransformer implements ResponseTransformer {
     return JSON.stringify(data, null, 2);
   }
 
+  transformSchema(data: SchemaView): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformExample(data: GeneratedExample): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformSnippets(data: EndpointSnippets): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformValidationReport(data: ValidationReport): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformConformanceReport(data: ConformanceReport): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformSchemaUsages(data: SchemaUsageReport): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformChannels(data: { count: number; channels: ChannelSummary[] }): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformMessages(data: { count: number; messages: MessageDetails[] }): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformServers(data: { count: number; servers: AsyncServerInfo[] }): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformLintReport(data: LintReport): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformSpecDiff(data: SpecDiff): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  transformCacheStats(data: CacheStats): string {
+    return JSON.stringify(data, null, 2);
+  }
+
   transformSuccess(data: { success: boolean; sessionId?: string; message: string }): string {
     return JSON.stringify(data, null, 2);
   }
@@ -59,14 +313,29 @@ export class CompactTransformer implements ResponseTransformer {
     const lines = data.endpoints.map(ep => {
       const tags = ep.tags?.length ? `[${ep.tags.join(',')}]` : '';
       const summary = ep.summary || '';
-      return `${ep.method} ${ep.path} - ${summary} ${tags}`.trim();
+      const webhook = ep.webhook ? 'webhook ' : '';
+      return `${ep.method} ${webhook}${ep.path} - ${summary} ${tags}`.trim();
     });
     
     return `Found ${data.count} endpoints:\n${lines.join('\n')}`;
   }
 
+  transformSearchResults(data: { query: string; count: number; results: SearchResult[] }): string {
+    if (data.results.length === 0) {
+      return `No endpoints match "${data.query}"`;
+    }
+    
+    const lines = data.results.map(result => {
+      const webhook = result.webhook ? 'webhook ' : '';
+      const matches = result.matches.map(match => `${match.field}: ${match.text}`).join(' | ');
+      return `${result.score} ${result.method} ${webhook}${result.path}${result.summary ? ` - ${result.summary}` : ''}\n  ${matches}`;
+    });
+    
+    return `Found ${data.count} endpoints for "${data.query}":\n${lines.join('\n')}`;
+  }
+
   transformEndpointDetails(data: EndpointDetails): string {
-    let result = `${data.method} ${data.path}`;
+    let result = `${data.method} ${data.webhook ? 'webhook ' : ''}${data.path}`;
     
     if (data.summary) result += ` - ${data.summary}`;
     if (data.tags?.length) result += ` [${data.tags.join(',')}]`;
@@ -84,35 +353,77 @@ export class CompactTransformer implements ResponseTransformer {
     if (data.requestBody) {
       result += '\nBody:';
       const req = data.requestBody.required ? ' (required)' : '';
-      const type = data.requestBody.contentType || 'application/json';
-      result += `\n  ${type}${req}`;
-      if (data.requestBody.schema) {
-        result += ` - ${formatSchemaType(data.requestBody.schema)}`;
-      }
+      const mediaTypes = listMediaTypes(data.requestBody);
+      if (mediaTypes.length === 0) result += `\n  application/json${req}`;
+      mediaTypes.forEach((media, index) => {
+        result += `\n  ${media.contentType}${index === 0 ? req : ''}`;
+        if (media.schema) result += ` - ${formatSchemaType(media.schema)}`;
+        if (media.encoding) result += ` {${formatEncoding(media.encoding)}}`;
+        const example = exampleOf(media);
+        if (example) result += `\n    example${example.generated ? ' (generated)' : ''}: ${JSON.stringify(example.value)}`;
+      });
     }
     
     if (data.responses?.length) {
       result += '\nResponses:';
       for (const resp of data.responses) {
         result += `\n  ${resp.statusCode}: ${resp.description || 'No description'}`;
-        if (resp.contentType && resp.schema) {
+        if (resp.alternatives?.length) {
+          // Several media types are listed one per line
+          for (const media of listMediaTypes(resp)) {
+            result += `\n    ${media.contentType}${media.schema ? `: ${formatSchemaType(media.schema)}` : ''}`;
+          }
+        } else if (resp.contentType && resp.schema) {
           result += ` (${formatSchemaType(resp.schema)})`;
         }
+        const example = exampleOf(resp);
+        if (example) result += `\n    example${example.generated ? ' (generated)' : ''}: ${JSON.stringify(example.value)}`;
       }
     }
     
     return result;
   }
 
-  transformSessionInfo(data: { title?: string; version?: string; description?: string; baseUrl?: string }): string {
+  transformRequestMatch(data: RequestMatch): string {
+    const lines = [`${data.url} -> ${data.endpoint.method} ${data.endpoint.path}`];
+    if (data.server) lines.push(`server: ${data.server}`);
+    if (Object.keys(data.pathParameters).length) lines.push(`path: ${formatValues(data.pathParameters)}`);
+    if (Object.keys(data.queryParameters).length) lines.push(`query: ${formatValues(data.queryParameters)}`);
+    if (data.undeclaredQueryParameters) lines.push(`undeclared query: ${data.undeclaredQueryParameters.join(', ')}`);
+    if (data.missingParameters) lines.push(`missing: ${data.missingParameters.join(', ')}`);
+    return `${lines.join('\n')}\n${this.transformEndpointDetails(data.endpoint)}`;
+  }
+
+  transformSessionInfo(data: SessionInfo): string {
     let result = '';
     if (data.title) result += `API: ${data.title}`;
     if (data.version) result += ` v${data.version}`;
     if (data.baseUrl) result += `\nBase URL: ${data.baseUrl}`;
     if (data.description) result += `\nDescription: ${data.description}`;
+    if (data.reloadedAt) result += `\nReloaded: ${data.reloadedAt}`;
+    if (data.reloadError) result += `\nReload failed (using last good spec): ${data.reloadError}`;
     return result || 'No session info available';
   }
 
+  transformSessionList(data: { count: number; sessions: SessionSummary[]; workspace?: WorkspaceStatus }): string {
+    const workspace = data.workspace
+      ? `\nWorkspace ${data.workspace.configFile}${data.workspace.errors.map(e => `\nerror${e.spec ? ` ${e.spec}` : ''}: ${e.message}`).join('')}`
+      : '';
+    if (data.sessions.length === 0) {
+      return `No sessions found${workspace}`;
+    }
+    
+    const lines = data.sessions.map(session => {
+      const names = [session.name, ...(session.aliases || [])].filter(Boolean);
+      const name = names.length > 0 ? ` (${names.join(', ')})` : '';
+      const title = session.title ? ` ${session.title}${session.version ? ` v${session.version}` : ''}` : '';
+      const used = session.workspace ? ' workspace' : ` last used ${session.lastAccessed}`;
+      return `${session.id}${name}${title} [${session.outputFormat}] ${session.source}${used}`;
+    });
+    
+    return `Found ${data.count} sessions:\n${lines.join('\n')}${workspace}`;
+  }
+
   transformTags(data: { count: number; tags: string[] }): string {
     if (data.tags.length === 0) return 'No tags found';
     return `Found ${data.count} tags: ${data.tags.join(', ')}`;
@@ -134,6 +445,145 @@ export class CompactTransformer implements ResponseTransformer {
     return sections.length > 0 ? sections.join(', ') : 'No components found';
   }
 
+  transformSchema(data: SchemaView): string {
+    const describe = (node: SchemaNode, label?: string) => {
+      let line = `${label ?? ''}${node.required ? '*' : ''}: ${node.type}`;
+      if (node.constraints) line += ` [${formatConstraints(node.constraints).join(', ')}]`;
+      if (node.circular) line += ' (circular)';
+      if (node.truncated) line += ' {...}';
+      if (node.description) line += ` - ${node.description}`;
+      return line;
+    };
+    const lines = [`${schemaTitle(data)}${describe(data.schema)}`];
+    lines.push(...schemaTreeLines(data.schema, '  ', describe));
+    return lines.join('\n');
+  }
+
+  transformExample(data: GeneratedExample): string {
+    return `${schemaTitle(data)} (${data.direction}, seed ${data.seed}): ${JSON.stringify(data.example)}`;
+  }
+
+  transformSnippets(data: EndpointSnippets): string {
+    const sections = data.snippets.map(snippet => `--- ${snippet.label} ---\n${snippet.code}`);
+    return [snippetTitle(data), ...sections].join('\n\n');
+  }
+
+  transformValidationReport(data: ValidationReport): string {
+    const target = `${data.target}${data.contentType ? ` ${data.contentType}` : ''}`;
+    if (data.valid) return `${target}: valid`;
+    const lines = [`${target}: ${data.errors.length} error(s)`];
+    lines.push(...data.errors.map(error => `  ${error.pointer}: ${error.message}`));
+    return lines.join('\n');
+  }
+
+  transformConformanceReport(data: ConformanceReport): string {
+    const lines = [`${data.source}: ${data.exchanges} exchange(s), ${data.matched} matched, ${data.unmatched.length} unmatched`];
+    for (const operation of data.operations) {
+      lines.push(`${operation.operation}: ${operation.exchanges} exchange(s), ${operation.failed} failed`);
+      lines.push(...operation.issues.map(issue => `  ${formatConformanceIssue(issue)}`));
+    }
+    if (data.unmatched.length > 0) {
+      lines.push(`unmatched: ${data.unmatched.map(entry => `${entry.method} ${entry.url}`).join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  transformSchemaUsages(data: SchemaUsageReport): string {
+    if (data.usages.length === 0) {
+      return `${data.schema} is not used by any operation or component`;
+    }
+    const operations = data.operations.length > 0 ? `: ${data.operations.join(', ')}` : '';
+    const lines = [`${data.schema} affects ${data.operations.length} operation(s)${operations}`];
+    lines.push(...data.usages.map(formatSchemaUsage));
+    return lines.join('\n');
+  }
+
+  transformChannels(data: { count: number; channels: ChannelSummary[] }): string {
+    if (data.channels.length === 0) {
+      return 'No channels found';
+    }
+    
+    const lines: string[] = [];
+    for (const channel of data.channels) {
+      const address = channel.address ? ` (${channel.address})` : '';
+      lines.push(`${channel.name}${address}`);
+      for (const op of channel.operations) {
+        const summary = op.summary ? ` - ${op.summary}` : '';
+        const tags = op.tags?.length ? ` [${op.tags.join(',')}]` : '';
+        const messages = op.messages.length ? ` -> ${op.messages.join(', ')}` : '';
+        lines.push(`  ${op.action} ${op.operationId}${summary}${tags}${messages}`);
+      }
+    }
+    
+    return `Found ${data.count} channels:\n${lines.join('\n')}`;
+  }
+
+  transformMessages(data: { count: number; messages: MessageDetails[] }): string {
+    if (data.messages.length === 0) {
+      return 'No messages found';
+    }
+    
+    return data.messages.map(message => {
+      let result = `${message.name} on ${message.channel}`;
+      if (message.contentType) result += ` (${message.contentType})`;
+      if (message.summary) result += ` - ${message.summary}`;
+      
+      for (const [label, schema] of [['Headers', message.headers], ['Payload', message.payload]] as const) {
+        if (!schema) continue;
+        result += `\n${label}: ${formatSchemaType(schema)}`;
+        for (const prop of describeProperties(schema)) {
+          result += `\n  ${prop.name}${prop.required ? '*' : ''}: ${prop.type}`;
+        }
+      }
+      
+      return result;
+    }).join('\n\n');
+  }
+
+  transformServers(data: { count: number; servers: AsyncServerInfo[] }): string {
+    if (data.servers.length === 0) return 'No servers found';
+    
+    const lines = data.servers.map(server => {
+      const version = server.protocolVersion ? ` ${server.protocolVersion}` : '';
+      const description = server.description ? ` - ${server.description}` : '';
+      return `${server.name}: ${server.url} (${server.protocol}${version})${description}`;
+    });
+    
+    return `Found ${data.count} servers:\n${lines.join('\n')}`;
+  }
+
+  transformLintReport(data: LintReport): string {
+    if (data.findings.length === 0) {
+      return `No lint findings (${data.rules.length} rules)`;
+    }
+    
+    const lines = data.findings.map(finding => `${finding.severity[0].toUpperCase()} ${finding.rule} ${finding.path}: ${finding.message}`);
+    return `${data.count} findings (${data.errors} errors, ${data.warnings} warnings, ${data.infos} info):\n${lines.join('\n')}`;
+  }
+
+  transformSpecDiff(data: SpecDiff): string {
+    const versions = `${data.base.version || 'base'} -> ${data.head.version || 'head'}`;
+    if (data.changes.length === 0) {
+      return `No changes (${versions})`;
+    }
+    
+    const lines = data.changes.map(change => {
+      const marker = change.breaking ? '!' : change.kind === 'added' ? '+' : change.kind === 'removed' ? '-' : '~';
+      const location = change.location ? ` ${change.location}:` : '';
+      return `${marker} ${change.endpoint}${location} ${change.message}`;
+    });
+    
+    return `${versions}: ${data.breaking} breaking, ${data.nonBreaking} non-breaking, bump ${data.recommendedBump}\n${lines.join('\n')}${data.changelogPath ? `\nChangelog: ${data.changelogPath}` : ''}`;
+  }
+
+  transformCacheStats(data: CacheStats): string {
+    let result = `Cache: ${data.count} specs, ${formatBytes(data.totalBytes)} in ${data.directory}${data.offline ? ' (offline mode)' : ''}`;
+    for (const entry of data.entries) {
+      result += `\n${entry.source} ${entry.specType} ${formatBytes(entry.bytes)} cached ${entry.cachedAt}`;
+    }
+    return result;
+  }
+
   transformSuccess(data: { success: boolean; sessionId?: string; message: string }): string {
     let result = data.message;
     if (data.sessionId) result += `\nSession ID: ${data.sessionId}`;
@@ -155,7 +605,7 @@ export class StructuredTransformer implements ResponseTransformer {
     let result = `Endpoints (${data.count} total):\n\n`;
     
     for (const ep of data.endpoints) {
-      result += `${ep.method} ${ep.path}\n`;
+      result += `${ep.method} ${ep.path}${ep.webhook ? ' (webhook)' : ''}\n`;
       if (ep.summary) result += `  Summary: ${ep.summary}\n`;
       if (ep.operationId) result += `  Operation ID: ${ep.operationId}\n`;
       if (ep.tags?.length) result += `  Tags: ${ep.tags.join(', ')}\n`;
@@ -166,8 +616,30 @@ export class StructuredTransformer implements ResponseTransformer {
     return result.trim();
   }
 
+  transformSearchResults(data: { query: string; count: number; results: SearchResult[] }): string {
+    if (data.results.length === 0) {
+      return `No endpoints match "${data.query}"`;
+    }
+    
+    let result = `Search results for "${data.query}" (${data.count} total):\n\n`;
+    
+    for (const match of data.results) {
+      result += `${match.method} ${match.path}${match.webhook ? ' (webhook)' : ''}\n`;
+      result += `  Score: ${match.score}\n`;
+      if (match.summary) result += `  Summary: ${match.summary}\n`;
+      if (match.operationId) result += `  Operation ID: ${match.operationId}\n`;
+      if (match.tags?.length) result += `  Tags: ${match.tags.join(', ')}\n`;
+      for (const highlight of match.matches) {
+        result += `  Matched ${highlight.field}: ${highlight.text}\n`;
+      }
+      result += '\n';
+    }
+    
+    return result.trim();
+  }
+
   transformEndpointDetails(data: EndpointDetails): string {
-    let result = `Endpoint: ${data.method} ${data.path}\n`;
+    let result = `${data.webhook ? 'Webhook' : 'Endpoint'}: ${data.method} ${data.path}\n`;
     
     if (data.summary) result += `Summary: ${data.summary}\n`;
     if (data.operationId) result += `Operation ID: ${data.operationId}\n`;
@@ -193,14 +665,27 @@ export class StructuredTransformer implements ResponseTransformer {
       if (data.requestBody.schema) {
         result += `  Schema: ${formatSchemaType(data.requestBody.schema)}\n`;
       }
+      if (data.requestBody.encoding) {
+        result += `  Encoding: ${formatEncoding(data.requestBody.encoding)}\n`;
+      }
+      result += formatStructuredExample(data.requestBody, '  ');
+      for (const media of data.requestBody.alternatives || []) {
+        result += `  Alternative Content Type: ${media.contentType}\n`;
+        if (media.schema) result += `    Schema: ${formatSchemaType(media.schema)}\n`;
+        if (media.encoding) result += `    Encoding: ${formatEncoding(media.encoding)}\n`;
+        result += formatStructuredExample(media, '    ');
+      }
     }
     
     if (data.responses?.length) {
       result += '\nResponses:\n';
       for (const resp of data.responses) {
         result += `  ${resp.statusCode}: ${resp.description || 'No description'}\n`;
-        if (resp.contentType) result += `    Content Type: ${resp.contentType}\n`;
-        if (resp.schema) result += `    Schema: ${formatSchemaType(resp.schema)}\n`;
+        for (const media of listMediaTypes(resp)) {
+          result += `    Content Type: ${media.contentType}\n`;
+          if (media.schema) result += `    Schema: ${formatSchemaType(media.schema)}\n`;
+          result += formatStructuredExample(media, '    ');
+        }
       }
     }
     
@@ -212,12 +697,55 @@ export class StructuredTransformer implements ResponseTransformer {
     return result.trim();
   }
 
-  transformSessionInfo(data: { title?: string; version?: string; description?: string; baseUrl?: string }): string {
+  transformRequestMatch(data: RequestMatch): string {
+    let result = `Request: ${data.url}\n`;
+    if (data.server) result += `Server: ${data.server}\n`;
+    if (Object.keys(data.pathParameters).length) result += `Path Parameters: ${formatValues(data.pathParameters)}\n`;
+    if (Object.keys(data.queryParameters).length) result += `Query Parameters: ${formatValues(data.queryParameters)}\n`;
+    if (data.undeclaredQueryParameters) result += `Undeclared Query Parameters: ${data.undeclaredQueryParameters.join(', ')}\n`;
+    if (data.missingParameters) result += `Missing Required Parameters: ${data.missingParameters.join(', ')}\n`;
+    return `${result}\n${this.transformEndpointDetails(data.endpoint)}`;
+  }
+
+  transformSessionInfo(data: SessionInfo): string {
     let result = 'Session Information:\n';
     if (data.title) result += `  Title: ${data.title}\n`;
     if (data.version) result += `  Version: ${data.version}\n`;
     if (data.baseUrl) result += `  Base URL: ${data.baseUrl}\n`;
     if (data.description) result += `  Description: ${data.description}\n`;
+    if (data.reloadedAt) result += `  Last Reloaded: ${data.reloadedAt}\n`;
+    if (data.reloadError) result += `  Reload Error: ${data.reloadError} (using last good spec)\n`;
+    return result.trim();
+  }
+
+  transformSessionList(data: { count: number; sessions: SessionSummary[]; workspace?: WorkspaceStatus }): string {
+    if (data.sessions.length === 0 && !data.workspace) {
+      return 'No sessions found';
+    }
+    
+    let result = `Sessions (${data.count} total):\n\n`;
+    
+    for (const session of data.sessions) {
+      result += `${session.name || session.id}\n`;
+      result += `  ID: ${session.id}\n`;
+      if (session.workspace) result += `  Declared In: workspace config\n`;
+      if (session.aliases?.length) result += `  Aliases: ${session.aliases.join(', ')}\n`;
+      if (session.title) result += `  API: ${session.title}${session.version ? ` v${session.version}` : ''}\n`;
+      result += `  Source: ${session.source} (${session.sourceType})\n`;
+      result += `  Output Format: ${session.outputFormat}\n`;
+      result += `  Created: ${session.createdAt}\n`;
+      result += `  Last Accessed: ${session.lastAccessed}\n`;
+      result += `  Loaded: ${session.loaded ? 'yes' : 'no'}\n\n`;
+    }
+    
+    if (data.workspace) {
+      result += `Workspace Config: ${data.workspace.configFile}\n`;
+      result += `  Loaded: ${data.workspace.loadedAt}\n`;
+      for (const error of data.workspace.errors) {
+        result += `  Error${error.spec ? ` (${error.spec})` : ''}: ${error.message}\n`;
+      }
+    }
+    
     return result.trim();
   }
 
@@ -251,6 +779,221 @@ export class StructuredTransformer implements ResponseTransformer {
     return result.trim();
   }
 
+  transformSchema(data: SchemaView): string {
+    let result = `Schema: ${schemaTitle(data)}\n`;
+    result += `Type: ${data.schema.type}\n`;
+    if (data.schema.description) result += `Description: ${data.schema.description}\n`;
+    if (data.schema.constraints) result += `Constraints: ${formatConstraints(data.schema.constraints).join(', ')}\n`;
+    if (data.schema.circular) result += 'Circular: refers back to a schema it is nested in\n';
+
+    const lines = schemaTreeLines(data.schema, '  ', (node, label) => {
+      let line = `- ${label}${node.required ? ' (required)' : ''}: ${node.type}`;
+      if (node.constraints) line += ` (${formatConstraints(node.constraints).join(', ')})`;
+      if (node.circular) line += ` [circular reference to ${node.ref || 'an enclosing schema'}, not expanded]`;
+      if (node.truncated) line += ' [more below the depth limit]';
+      if (node.description) line += ` - ${node.description}`;
+      return line;
+    });
+    if (lines.length > 0) {
+      result += `\nStructure (depth ${data.depth}):\n${lines.join('\n')}\n`;
+    } else if (data.schema.truncated) {
+      result += '\nIncrease depth to see its structure\n';
+    }
+    return result.trim();
+  }
+
+  transformExample(data: GeneratedExample): string {
+    let result = `Example: ${schemaTitle(data)}\n`;
+    result += `Direction: ${data.direction}\n`;
+    result += `Seed: ${data.seed}\n\n`;
+    result += JSON.stringify(data.example, null, 2);
+    return result;
+  }
+
+  transformSnippets(data: EndpointSnippets): string {
+    let result = `Snippets: ${data.target}\n`;
+    if (data.operationId) result += `Operation ID: ${data.operationId}\n`;
+    for (const snippet of data.snippets) {
+      result += `\n${snippet.label}:\n${snippet.code}\n`;
+    }
+    return result.trim();
+  }
+
+  transformValidationReport(data: ValidationReport): string {
+    let result = `Validation: ${data.target}\n`;
+    if (data.contentType) result += `Content Type: ${data.contentType}\n`;
+    result += `Result: ${data.valid ? 'Valid' : `Invalid (${data.errors.length} error(s))`}\n`;
+    if (data.errors.length > 0) {
+      result += '\nErrors:\n';
+      for (const error of data.errors) {
+        result += `  - ${error.pointer}: ${error.message} [${error.keyword}]\n`;
+      }
+    }
+    return result.trim();
+  }
+
+  transformConformanceReport(data: ConformanceReport): string {
+    let result = `Conformance: ${data.source}\n`;
+    result += `Exchanges: ${data.exchanges} (${data.matched} matched, ${data.unmatched.length} unmatched)\n`;
+    for (const operation of data.operations) {
+      result += `\n${operation.operation}: ${operation.exchanges} exchange(s), ${operation.failed} failed\n`;
+      for (const issue of operation.issues) {
+        result += `  - ${formatConformanceIssue(issue)} [${issue.keyword}], e.g. ${issue.example}\n`;
+      }
+    }
+    if (data.unmatched.length > 0) {
+      result += '\nUnmatched Requests:\n';
+      for (const entry of data.unmatched) {
+        result += `  - ${entry.method} ${entry.url}\n`;
+      }
+    }
+    return result.trim();
+  }
+
+  transformSchemaUsages(data: SchemaUsageReport): string {
+    let result = `Schema: ${data.schema}\n`;
+    if (data.usages.length === 0) {
+      return `${result}Not used by any operation or component`;
+    }
+
+    result += `\nAffected Operations (${data.operations.length}):\n`;
+    for (const operation of data.operations) result += `  - ${operation}\n`;
+
+    const direct = data.usages.filter(usage => !usage.via);
+    const transitive = data.usages.filter(usage => usage.via);
+    if (direct.length > 0) {
+      result += `\nDirect Usages (${direct.length}):\n`;
+      for (const usage of direct) result += `  - ${formatSchemaUsage(usage)}\n`;
+    }
+    if (transitive.length > 0) {
+      result += `\nTransitive Usages (${transitive.length}):\n`;
+      for (const usage of transitive) result += `  - ${formatSchemaUsage(usage)}\n`;
+    }
+    return result.trim();
+  }
+
+  transformChannels(data: { count: number; channels: ChannelSummary[] }): string {
+    if (data.channels.length === 0) {
+      return 'No channels found';
+    }
+    
+    let result = `Channels (${data.count} total):\n\n`;
+    
+    for (const channel of data.channels) {
+      result += `${channel.name}\n`;
+      if (channel.address) result += `  Address: ${channel.address}\n`;
+      if (channel.description) result += `  Description: ${channel.description}\n`;
+      if (channel.parameters?.length) result += `  Parameters: ${channel.parameters.join(', ')}\n`;
+      for (const op of channel.operations) {
+        result += `  Operation: ${op.action} ${op.operationId}\n`;
+        if (op.summary) result += `    Summary: ${op.summary}\n`;
+        if (op.tags?.length) result += `    Tags: ${op.tags.join(', ')}\n`;
+        if (op.messages.length) result += `    Messages: ${op.messages.join(', ')}\n`;
+      }
+      result += '\n';
+    }
+    
+    return result.trim();
+  }
+
+  transformMessages(data: { count: number; messages: MessageDetails[] }): string {
+    if (data.messages.length === 0) {
+      return 'No messages found';
+    }
+    
+    let result = `Messages (${data.count} total):\n\n`;
+    
+    for (const message of data.messages) {
+      result += `Message: ${message.name}\n`;
+      result += `  Channel: ${message.channel}\n`;
+      if (message.operationId) result += `  Operation ID: ${message.operationId}\n`;
+      if (message.title) result += `  Title: ${message.title}\n`;
+      if (message.summary) result += `  Summary: ${message.summary}\n`;
+      if (message.description) result += `  Description: ${message.description}\n`;
+      if (message.contentType) result += `  Content Type: ${message.contentType}\n`;
+      
+      for (const [label, schema] of [['Headers', message.headers], ['Payload', message.payload]] as const) {
+        if (!schema) continue;
+        result += `  ${label}: ${formatSchemaType(schema)}\n`;
+        for (const prop of describeProperties(schema)) {
+          const req = prop.required ? ' (required)' : '';
+          result += `    - ${prop.name}${req}: ${prop.type}`;
+          if (prop.description) result += ` - ${prop.description}`;
+          result += '\n';
+        }
+      }
+      result += '\n';
+    }
+    
+    return result.trim();
+  }
+
+  transformServers(data: { count: number; servers: AsyncServerInfo[] }): string {
+    if (data.servers.length === 0) return 'No servers found';
+    
+    let result = `Servers (${data.count} total):\n`;
+    for (const server of data.servers) {
+      result += `  - ${server.name}: ${server.url}\n`;
+      result += `    Protocol: ${server.protocol}${server.protocolVersion ? ` ${server.protocolVersion}` : ''}\n`;
+      if (server.description) result += `    Description: ${server.description}\n`;
+    }
+    return result.trim();
+  }
+
+  transformLintReport(data: LintReport): string {
+    let result = `Lint Results: ${data.errors} errors, ${data.warnings} warnings, ${data.infos} info\n`;
+    result += `Rules: ${data.rules.join(', ')}\n\n`;
+    
+    if (data.findings.length === 0) {
+      return (result + 'No findings').trim();
+    }
+    
+    for (const finding of data.findings) {
+      result += `[${finding.severity}] ${finding.rule}\n`;
+      result += `  Location: ${finding.path}\n`;
+      result += `  ${finding.message}\n\n`;
+    }
+    
+    return result.trim();
+  }
+
+  transformSpecDiff(data: SpecDiff): string {
+    let result = `Spec Diff: ${data.base.version || 'base'} -> ${data.head.version || 'head'}\n`;
+    result += `Breaking Changes: ${data.breaking}\n`;
+    result += `Non-breaking Changes: ${data.nonBreaking}\n`;
+    result += `Recommended Bump: ${data.recommendedBump}\n`;
+    if (data.changelogPath) result += `Changelog: ${data.changelogPath}\n`;
+    result += '\n';
+    
+    for (const change of data.changes) {
+      result += `[${change.breaking ? 'breaking' : 'non-breaking'}] ${change.kind} ${change.category}\n`;
+      result += `  Endpoint: ${change.endpoint}\n`;
+      if (change.location) result += `  Location: ${change.location}\n`;
+      result += `  ${change.message}\n\n`;
+    }
+    
+    return result.trim();
+  }
+
+  transformCacheStats(data: CacheStats): string {
+    let result = 'Spec Cache:\n';
+    result += `  Directory: ${data.directory}\n`;
+    result += `  Offline Mode: ${data.offline ? 'on' : 'off'}\n`;
+    result += `  Entries: ${data.count}\n`;
+    result += `  Total Size: ${formatBytes(data.totalBytes)}\n`;
+    
+    for (const entry of data.entries) {
+      result += `\n${entry.title || entry.source}\n`;
+      result += `  Source: ${entry.source} (${entry.sourceType})\n`;
+      result += `  Type: ${entry.specType}\n`;
+      result += `  Size: ${formatBytes(entry.bytes)}\n`;
+      result += `  Cached: ${entry.cachedAt}\n`;
+      result += `  Content Hash: ${entry.contentHash}\n`;
+    }
+    
+    return result.trim();
+  }
+
   transformSuccess(data: { success: boolean; sessionId?: string; message: string }): string {
     let result = `Success: ${data.message}\n`;
     if (data.sessionId) result += `Session ID: ${data.sessionId}\n`;
@@ -272,7 +1015,7 @@ export class MarkdownTransformer implements ResponseTransformer {
     let result = `# Endpoints (${data.count} total)\n\n`;
     
     for (const ep of data.endpoints) {
-      result += `## ${ep.method} \`${ep.path}\`\n`;
+      result += `## ${ep.method} \`${ep.path}\`${ep.webhook ? ' (webhook)' : ''}\n`;
       if (ep.summary) result += `**Summary:** ${ep.summary}\n\n`;
       if (ep.operationId) result += `**Operation ID:** ${ep.operationId}\n\n`;
       if (ep.tags?.length) result += `**Tags:** ${ep.tags.join(', ')}\n\n`;
@@ -283,8 +1026,30 @@ export class MarkdownTransformer implements ResponseTransformer {
     return result.trim();
   }
 
+  transformSearchResults(data: { query: string; count: number; results: SearchResult[] }): string {
+    if (data.results.length === 0) {
+      return `No endpoints match "${data.query}"`;
+    }
+    
+    let result = `# Search Results for "${data.query}" (${data.count} total)\n\n`;
+    
+    for (const match of data.results) {
+      result += `## ${match.method} \`${match.path}\`${match.webhook ? ' (webhook)' : ''}\n\n`;
+      result += `**Score:** ${match.score}\n\n`;
+      if (match.summary) result += `**Summary:** ${match.summary}\n\n`;
+      if (match.operationId) result += `**Operation ID:** ${match.operationId}\n\n`;
+      if (match.tags?.length) result += `**Tags:** ${match.tags.join(', ')}\n\n`;
+      for (const highlight of match.matches) {
+        result += `- *${highlight.field}:* ${highlight.text}\n`;
+      }
+      result += '\n---\n\n';
+    }
+    
+    return result.trim();
+  }
+
   transformEndpointDetails(data: EndpointDetails): string {
-    let result = `# ${data.method} \`${data.path}\`\n\n`;
+    let result = `# ${data.method} \`${data.path}\`${data.webhook ? ' (webhook)' : ''}\n\n`;
     
     if (data.summary) result += `**Summary:** ${data.summary}\n\n`;
     if (data.operationId) result += `**Operation ID:** ${data.operationId}\n\n`;
@@ -311,6 +1076,16 @@ export class MarkdownTransformer implements ResponseTransformer {
       if (data.requestBody.schema) {
         result += `**Schema:** \`${formatSchemaType(data.requestBody.schema)}\`\n\n`;
       }
+      if (data.requestBody.encoding) {
+        result += `**Encoding:** ${formatEncoding(data.requestBody.encoding)}\n\n`;
+      }
+      result += formatMarkdownExample(data.requestBody);
+      for (const media of data.requestBody.alternatives || []) {
+        result += `**Alternative Content Type:** \`${media.contentType}\`\n\n`;
+        if (media.schema) result += `**Schema:** \`${formatSchemaType(media.schema)}\`\n\n`;
+        if (media.encoding) result += `**Encoding:** ${formatEncoding(media.encoding)}\n\n`;
+        result += formatMarkdownExample(media);
+      }
     }
     
     if (data.responses?.length) {
@@ -318,20 +1093,75 @@ export class MarkdownTransformer implements ResponseTransformer {
       for (const resp of data.responses) {
         result += `### ${resp.statusCode}\n`;
         result += `${resp.description || 'No description'}\n\n`;
-        if (resp.contentType) result += `**Content Type:** \`${resp.contentType}\`\n\n`;
-        if (resp.schema) result += `**Schema:** \`${formatSchemaType(resp.schema)}\`\n\n`;
+        for (const media of listMediaTypes(resp)) {
+          result += `**Content Type:** \`${media.contentType}\`\n\n`;
+          if (media.schema) result += `**Schema:** \`${formatSchemaType(media.schema)}\`\n\n`;
+          result += formatMarkdownExample(media);
+        }
       }
     }
     
     return result.trim();
   }
 
-  transformSessionInfo(data: { title?: string; version?: string; description?: string; baseUrl?: string }): string {
+  transformRequestMatch(data: RequestMatch): string {
+    let result = `**Request:** \`${data.url}\`\n\n`;
+    if (data.server) result += `**Server:** \`${data.server}\`\n\n`;
+    const values = [
+      ...Object.entries(data.pathParameters).map(([name, value]) => ({ name, in: 'path', value })),
+      ...Object.entries(data.queryParameters).map(([name, value]) => ({ name, in: 'query', value }))
+    ];
+    if (values.length) {
+      result += '| Parameter | In | Value |\n|---|---|---|\n';
+      for (const entry of values) {
+        const value = Array.isArray(entry.value) ? entry.value.join(', ') : entry.value;
+        result += `| ${entry.name} | ${entry.in} | \`${value}\` |\n`;
+      }
+      result += '\n';
+    }
+    if (data.undeclaredQueryParameters) {
+      result += `**Undeclared query parameters:** ${data.undeclaredQueryParameters.map(name => `\`${name}\``).join(', ')}\n\n`;
+    }
+    if (data.missingParameters) {
+      result += `**Missing required parameters:** ${data.missingParameters.join(', ')}\n\n`;
+    }
+    return `${result}${this.transformEndpointDetails(data.endpoint)}`;
+  }
+
+  transformSessionInfo(data: SessionInfo): string {
     let result = '# Session Information\n\n';
     if (data.title) result += `**Title:** ${data.title}\n\n`;
     if (data.version) result += `**Version:** ${data.version}\n\n`;
     if (data.baseUrl) result += `**Base URL:** \`${data.baseUrl}\`\n\n`;
     if (data.description) result += `**Description:** ${data.description}\n\n`;
+    if (data.reloadedAt) result += `**Last Reloaded:** ${data.reloadedAt}\n\n`;
+    if (data.reloadError) result += `**Reload Error:** ${data.reloadError} (using last good spec)\n\n`;
+    return result.trim();
+  }
+
+  transformSessionList(data: { count: number; sessions: SessionSummary[]; workspace?: WorkspaceStatus }): string {
+    if (data.sessions.length === 0 && !data.workspace) {
+      return 'No sessions found';
+    }
+    
+    let result = `# Sessions (${data.count} total)\n\n`;
+    result += '| Name | ID | API | Source | Format | Created | Last Accessed |\n';
+    result += '|------|----|-----|--------|--------|---------|---------------|\n';
+    
+    for (const session of data.sessions) {
+      const name = [session.name, ...(session.aliases || [])].filter(Boolean).join(', ');
+      const api = session.title ? `${session.title}${session.version ? ` v${session.version}` : ''}` : '';
+      result += `| ${name} | \`${session.id}\` | ${api} | \`${session.source}\` | ${session.outputFormat} | ${session.createdAt} | ${session.workspace ? 'workspace' : session.lastAccessed} |\n`;
+    }
+    
+    if (data.workspace) {
+      result += `\n## Workspace\n\n**Config:** \`${data.workspace.configFile}\`\n`;
+      for (const error of data.workspace.errors) {
+        result += `\n- **Error${error.spec ? ` in ${error.spec}` : ''}:** ${error.message}`;
+      }
+      result += '\n';
+    }
+    
     return result.trim();
   }
 
@@ -366,6 +1196,236 @@ export class MarkdownTransformer implements ResponseTransformer {
     return result.trim();
   }
 
+  transformSchema(data: SchemaView): string {
+    let result = `# \`${schemaTitle(data)}\`\n\n`;
+    result += `**Type:** \`${data.schema.type}\`\n\n`;
+    if (data.schema.description) result += `${data.schema.description}\n\n`;
+    if (data.schema.constraints) {
+      result += `**Constraints:** ${formatConstraints(data.schema.constraints).map(part => `\`${part}\``).join(', ')}\n\n`;
+    }
+
+    const lines = schemaTreeLines(data.schema, '', (node, label) => {
+      let line = `- **${label}**${node.required ? ' *(required)*' : ''}: \`${node.type}\``;
+      if (node.constraints) line += ` ${formatConstraints(node.constraints).map(part => `\`${part}\``).join(', ')}`;
+      if (node.circular) line += ' *(circular reference, not expanded)*';
+      if (node.truncated) line += ' *(more below the depth limit)*';
+      if (node.description) line += ` - ${node.description}`;
+      return line;
+    });
+    if (lines.length > 0) result += `## Structure\n\n${lines.join('\n')}\n`;
+    return result.trim();
+  }
+
+  transformExample(data: GeneratedExample): string {
+    let result = `# Example: \`${schemaTitle(data)}\`\n\n`;
+    result += `**Direction:** ${data.direction} | **Seed:** ${data.seed}\n\n`;
+    result += `\`\`\`json\n${JSON.stringify(data.example, null, 2)}\n\`\`\``;
+    return result;
+  }
+
+  transformSnippets(data: EndpointSnippets): string {
+    let result = `# Snippets: \`${data.target}\`\n\n`;
+    if (data.operationId) result += `**Operation ID:** \`${data.operationId}\`\n\n`;
+    for (const snippet of data.snippets) {
+      result += `## ${snippet.label}\n\n${formatMarkdownSnippet(snippet)}`;
+    }
+    return result.trim();
+  }
+
+  transformValidationReport(data: ValidationReport): string {
+    let result = `# Validation: ${data.target}\n\n`;
+    if (data.contentType) result += `**Content Type:** \`${data.contentType}\`\n\n`;
+    result += `**Result:** ${data.valid ? 'Valid' : `Invalid (${data.errors.length} error(s))`}\n\n`;
+    if (data.errors.length > 0) {
+      result += '| Pointer | Message | Keyword |\n|---|---|---|\n';
+      for (const error of data.errors) {
+        result += `| \`${error.pointer}\` | ${error.message.replace(/\|/g, '\\|')} | ${error.keyword} |\n`;
+      }
+    }
+    return result.trim();
+  }
+
+  transformConformanceReport(data: ConformanceReport): string {
+    let result = `# Conformance: ${data.source}\n\n`;
+    result += `**Exchanges:** ${data.exchanges} (${data.matched} matched, ${data.unmatched.length} unmatched)\n\n`;
+    if (data.operations.length > 0) {
+      result += '| Operation | Exchanges | Failed |\n|---|---|---|\n';
+      for (const operation of data.operations) {
+        result += `| \`${operation.operation}\` | ${operation.exchanges} | ${operation.failed} |\n`;
+      }
+      result += '\n';
+    }
+    for (const operation of data.operations.filter(entry => entry.issues.length > 0)) {
+      result += `## \`${operation.operation}\`\n\n`;
+      result += '| Status | Pointer | Message | Occurrences |\n|---|---|---|---|\n';
+      for (const issue of operation.issues) {
+        result += `| ${issue.statusCode} | \`${issue.pointer}\` | ${issue.message.replace(/\|/g, '\\|')} | ${issue.occurrences} |\n`;
+      }
+      result += '\n';
+    }
+    if (data.unmatched.length > 0) {
+      result += '## Unmatched Requests\n\n';
+      result += data.unmatched.map(entry => `- \`${entry.method} ${entry.url}\``).join('\n');
+    }
+    return result.trim();
+  }
+
+  transformSchemaUsages(data: SchemaUsageReport): string {
+    let result = `# Usages of \`${data.schema}\`\n\n`;
+    if (data.usages.length === 0) {
+      return `${result}Not used by any operation or component.`;
+    }
+
+    result += `## Affected Operations (${data.operations.length})\n\n`;
+    for (const operation of data.operations) result += `- \`${operation}\`\n`;
+    result += '\n';
+
+    const direct = data.usages.filter(usage => !usage.via);
+    const transitive = data.usages.filter(usage => usage.via);
+    if (direct.length > 0) {
+      result += '## Direct Usages\n\n| Used By | Kind | Location |\n|---|---|---|\n';
+      for (const usage of direct) result += `| \`${usage.name}\` | ${usage.kind} | ${usage.location || '-'} |\n`;
+      result += '\n';
+    }
+    if (transitive.length > 0) {
+      result += '## Transitive Usages\n\n| Used By | Kind | Location | Via |\n|---|---|---|---|\n';
+      for (const usage of transitive) {
+        result += `| \`${usage.name}\` | ${usage.kind} | ${usage.location || '-'} | ${usage.via!.map(hop => `\`${hop}\``).join(' → ')} |\n`;
+      }
+    }
+    return result.trim();
+  }
+
+  transformChannels(data: { count: number; channels: ChannelSummary[] }): string {
+    if (data.channels.length === 0) {
+      return 'No channels found';
+    }
+    
+    let result = `# Channels (${data.count} total)\n\n`;
+    
+    for (const channel of data.channels) {
+      result += `## \`${channel.name}\`\n\n`;
+      if (channel.address) result += `**Address:** \`${channel.address}\`\n\n`;
+      if (channel.description) result += `${channel.description}\n\n`;
+      if (channel.parameters?.length) result += `**Parameters:** ${channel.parameters.join(', ')}\n\n`;
+      for (const op of channel.operations) {
+        result += `- **${op.action}** \`${op.operationId}\``;
+        if (op.summary) result += ` - ${op.summary}`;
+        if (op.messages.length) result += ` (messages: ${op.messages.join(', ')})`;
+        result += '\n';
+      }
+      result += '\n---\n\n';
+    }
+    
+    return result.trim();
+  }
+
+  transformMessages(data: { count: number; messages: MessageDetails[] }): string {
+    if (data.messages.length === 0) {
+      return 'No messages found';
+    }
+    
+    let result = '';
+    for (const message of data.messages) {
+      result += `# ${message.name}\n\n`;
+      result += `**Channel:** \`${message.channel}\`\n\n`;
+      if (message.operationId) result += `**Operation ID:** ${message.operationId}\n\n`;
+      if (message.summary) result += `**Summary:** ${message.summary}\n\n`;
+      if (message.description) result += `${message.description}\n\n`;
+      if (message.contentType) result += `**Content Type:** \`${message.contentType}\`\n\n`;
+      
+      for (const [label, schema] of [['Headers', message.headers], ['Payload', message.payload]] as const) {
+        if (!schema) continue;
+        result += `## ${label}\n\n`;
+        result += `**Schema:** \`${formatSchemaType(schema)}\`\n\n`;
+        for (const prop of describeProperties(schema)) {
+          const req = prop.required ? ' *(required)*' : '';
+          result += `- **${prop.name}**${req}: \`${prop.type}\``;
+          if (prop.description) result += ` - ${prop.description}`;
+          result += '\n';
+        }
+        result += '\n';
+      }
+    }
+    
+    return result.trim();
+  }
+
+  transformServers(data: { count: number; servers: AsyncServerInfo[] }): string {
+    if (data.servers.length === 0) return 'No servers found';
+    
+    let result = `# Servers (${data.count} total)\n\n`;
+    for (const server of data.servers) {
+      const version = server.protocolVersion ? ` ${server.protocolVersion}` : '';
+      result += `- **${server.name}**: \`${server.url}\` (${server.protocol}${version})`;
+      if (server.description) result += ` - ${server.description}`;
+      result += '\n';
+    }
+    return result.trim();
+  }
+
+  transformLintReport(data: LintReport): string {
+    let result = `# Lint Results\n\n`;
+    result += `**Errors:** ${data.errors} | **Warnings:** ${data.warnings} | **Info:** ${data.infos}\n\n`;
+    
+    if (data.findings.length === 0) {
+      return result + `No findings from ${data.rules.length} rules.`;
+    }
+    
+    for (const severity of ['error', 'warn', 'info'] as const) {
+      const findings = data.findings.filter(finding => finding.severity === severity);
+      if (findings.length === 0) continue;
+      
+      result += `## ${severity === 'error' ? 'Errors' : severity === 'warn' ? 'Warnings' : 'Info'}\n\n`;
+      for (const finding of findings) {
+        result += `- \`${finding.rule}\` ${finding.message} (\`${finding.path}\`)\n`;
+      }
+      result += '\n';
+    }
+    
+    return result.trim();
+  }
+
+  transformSpecDiff(data: SpecDiff): string {
+    let result = `# Spec Diff: ${data.base.version || 'base'} → ${data.head.version || 'head'}\n\n`;
+    result += `**Recommended bump:** ${data.recommendedBump} | **Breaking:** ${data.breaking} | **Non-breaking:** ${data.nonBreaking}\n\n`;
+    if (data.changelogPath) result += `**Changelog:** \`${data.changelogPath}\`\n\n`;
+    
+    if (data.changes.length === 0) {
+      return result + 'No changes.';
+    }
+    
+    for (const [heading, breaking] of [['Breaking Changes', true], ['Non-breaking Changes', false]] as const) {
+      const changes = data.changes.filter(change => change.breaking === breaking);
+      if (changes.length === 0) continue;
+      
+      result += `## ${heading}\n\n`;
+      for (const change of changes) {
+        const location = change.location ? ` ${change.location}:` : '';
+        result += `- **${change.kind}** \`${change.endpoint}\`${location} ${change.message}\n`;
+      }
+      result += '\n';
+    }
+    
+    return result.trim();
+  }
+
+  transformCacheStats(data: CacheStats): string {
+    let result = '# Spec Cache\n\n';
+    result += `**Directory:** \`${data.directory}\`\n\n`;
+    result += `**Offline Mode:** ${data.offline ? 'on' : 'off'} | **Entries:** ${data.count} | **Total Size:** ${formatBytes(data.totalBytes)}\n\n`;
+    
+    if (data.entries.length > 0) {
+      result += '| Source | Type | Size | Cached |\n';
+      result += '|--------|------|------|--------|\n';
+      for (const entry of data.entries) {
+        result += `| \`${entry.source}\` | ${entry.specType} | ${formatBytes(entry.bytes)} | ${entry.cachedAt} |\n`;
+      }
+    }
+    
+    return result.trim();
+  }
+
   transformSuccess(data: { success: boolean; sessionId?: string; message: string }): string {
     let result = `**Success:** ${data.message}`;
     if (data.sessionId) result += `\n\n**Session ID:** \`${data.sessionId}\``;
@@ -0,0 +1,815 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { OpenAPIManager } from './openapi-manager.js';
+import { EndpointDetails, MediaTypeInfo, ParameterInfo, TypeGenerationOptions } from './types.js';
+import { SchemaExplorer } from './schema-explorer.js';
+import { resolveOutputPath } from './sandbox.js';
+
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'];
+
+// The types each operation can declare, as suffixes of its type name
+const OPERATION_TYPE_SUFFIXES = ['Params', 'Body', 'Response', 'Errors'];
+
+type Direction = 'request' | 'response';
+
+// A component schema and the TypeScript name it's emitted under; request and response variants
+// leave out its readOnly or writeOnly properties
+interface ComponentType {
+  name: string;
+  typeName: string;
+  schema: any;
+  direction?: Direction;
+}
+
+// The pieces of one operation that get their own types
+export interface OperationTypes {
+  key: string; // operationId, or one made up from the method and path
+  typeName: string;
+  path: string;
+  method: string;
+  tags: string[];
+  security?: any[];
+  webhook?: boolean;
+  parameters: ParameterInfo[];
+  body?: MediaTypeInfo;
+  bodyRequired: boolean;
+  responses: Array<MediaTypeInfo | undefined>; // Success responses; undefined for ones without a body
+  errors: Array<{ statusCode: string; media?: MediaTypeInfo }>; // Every other documented response
+  summary?: string;
+}
+
+/**
+ * Emits a TypeScript module for an OpenAPI session: an interface or type alias per component
+ * schema, then `Params`, `Body` and `Response` types per operation and an `Operations` map keyed
+ * by operationId, optionally followed by matching Zod schemas. Written to a file the way
+ * documentation is, or returned as code.
+ */
+export class TypeGenerator {
+  constructor(private manager: OpenAPIManager) {}
+
+  async generateTypes(sessionId: string, options: TypeGenerationOptions = {}): Promise<{ code: string; filePath?: string }> {
+    const { code } = await this.buildTypes(sessionId, options);
+
+    if (!options.outputDirectory) {
+      return { code };
+    }
+
+    const sessionInfo = await this.manager.getSessionInfo(sessionId);
+    const slug = sessionInfo?.title?.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase() || 'api';
+    const filename = (options.filename || `${slug}-types`).replace(/\.ts$/, '') + '.ts';
+    const filePath = await resolveOutputPath(options.outputDirectory, filename);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, code, 'utf-8');
+    return { code, filePath };
+  }
+
+  /**
+   * The module's code, the operations it declares types for and every name it declares, which the
+   * client generator builds on. Reserved names are left for the code the module is exported next to.
+   */
+  async buildTypes(sessionId: string, options: TypeGenerationOptions = {}, reserved: string[] = []): Promise<{ code: string; operations: OperationTypes[]; typeNames: Set<string> }> {
+    const sessionInfo = await this.manager.getSessionInfo(sessionId);
+    if (!sessionInfo) {
+      throw new Error('Session not found');
+    }
+    if (await this.manager.getSessionSpecType(sessionId) === 'asyncapi') {
+      throw new Error('Session is an AsyncAPI session; types can only be generated for OpenAPI specs');
+    }
+
+    const schemas: Record<string, any> = (await this.manager.getComponents(sessionId, 'schemas')) || {};
+    // Components, the Operations map and every operation's types share one namespace, which the
+    // Zod constants mirror with a Schema suffix
+    const typeNames = new Set(['Operations', ...reserved]);
+    const explorer = new SchemaExplorer(schemas);
+    const named = nameComponents(schemas, typeNames);
+    const components = [...named, ...directionVariants(named, explorer, typeNames)];
+    const operations = await this.collectOperations(sessionId, options.tags, typeNames);
+
+    const writer = new TypeScriptWriter(explorer, components);
+    const operationCode = operations.map(operation => writer.operation(operation, options.includeErrors)).join('\n');
+    const operationMap = writer.operationMap(operations);
+
+    // With a tag filter, only the schemas those operations reach are emitted; variants only ever are
+    // emitted when something uses them
+    const pending = options.tags?.length ? [...writer.used] : [...named, ...writer.used];
+    const componentCode = new Map<ComponentType, string>();
+    while (pending.length > 0) {
+      const component = pending.shift()!;
+      if (componentCode.has(component)) continue;
+      componentCode.set(component, writer.component(component));
+      pending.push(...[...writer.used].filter(used => !componentCode.has(used)));
+    }
+    // Keep the spec's order whatever order the schemas were reached in
+    const emitted = components.filter(component => componentCode.has(component));
+
+    const title = [sessionInfo.title, sessionInfo.version].filter(Boolean).join(' ');
+    const sections = [
+      `// Generated from ${title || 'an OpenAPI spec'} by janus-mcp. Do not edit by hand.\n`,
+      ...(options.zod ? ["import { z } from 'zod';\n"] : []),
+      ...(emitted.length > 0 ? [emitted.map(component => componentCode.get(component)).join('\n')] : []),
+      ...(operations.length > 0 ? [operationCode, operationMap] : [])
+    ];
+    if (options.zod) {
+      const zod = new ZodWriter(explorer, components);
+      if (emitted.length > 0) sections.push(zod.declarations(emitted));
+      if (operations.length > 0) {
+        sections.push(operations.map(operation => zod.operation(operation)).join('\n'), zod.operationIndex(operations));
+      }
+    }
+    return { code: sections.join('\n'), operations, typeNames };
+  }
+
+  private async collectOperations(sessionId: string, tags: string[] | undefined, typeNames: Set<string>): Promise<OperationTypes[]> {
+    const endpoints = await this.manager.listEndpoints(sessionId, tags?.length ? tags : undefined);
+    const operations: OperationTypes[] = [];
+
+    for (const endpoint of endpoints) {
+      const details = await this.manager.getEndpointDetails(sessionId, endpoint.path, endpoint.method.toLowerCase(), {
+        includeParameters: true,
+        includeRequestBody: true,
+        includeResponses: true,
+        includeSecurity: true,
+        includeSchemas: true
+      });
+      if (!details) continue;
+
+      const key = details.operationId || operationKey(details);
+      operations.push({
+        key,
+        typeName: operationTypeName(toTypeName(key), typeNames),
+        path: details.path,
+        method: details.method,
+        tags: details.tags || [],
+        security: details.security,
+        webhook: details.webhook,
+        parameters: details.parameters || [],
+        body: details.requestBody ? preferJson(details.requestBody) : undefined,
+        bodyRequired: !!details.requestBody?.required,
+        responses: successResponses(details),
+        errors: (details.responses || [])
+          .filter(response => !/^2/.test(response.statusCode))
+          .map(response => ({ statusCode: response.statusCode, media: preferJson(response) })),
+        summary: details.summary
+      });
+    }
+    return operations;
+  }
+}
+
+class TypeScriptWriter {
+  // Component types referenced so far, so a tag filter can emit just those
+  used = new Set<ComponentType>();
+  private components: ComponentIndex;
+  private direction?: Direction;
+
+  constructor(private explorer: SchemaExplorer, components: ComponentType[]) {
+    this.components = new ComponentIndex(components);
+  }
+
+  component(component: ComponentType): string {
+    const schema = component.schema;
+    const doc = docComment(schema, '');
+    this.direction = component.direction;
+    const type = isPlainObject(schema) ? this.objectType(schema, '') : this.type(schema, '', true);
+    this.direction = undefined;
+    // A variant left with no properties is a record, which only a type alias can declare
+    return type.startsWith('{')
+      ? `${doc}export interface ${component.typeName} ${type}\n`
+      : `${doc}export type ${component.typeName} = ${type};\n`;
+  }
+
+  // Params and bodies are what gets sent, so they leave out readOnly properties; responses and
+  // errors leave out writeOnly ones
+  operation(operation: OperationTypes, includeErrors = false): string {
+    const lines: string[] = [];
+    this.direction = 'request';
+    const summary = operation.summary ? docComment({ description: operation.summary }, '') : '';
+
+    if (operation.parameters.length > 0) {
+      const groups: string[] = [];
+      for (const location of PARAMETER_LOCATIONS) {
+        const parameters = operation.parameters.filter(parameter => parameter.in === location);
+        if (parameters.length === 0) continue;
+        const required = parameters.some(parameter => parameter.required || location === 'path');
+        const fields = parameters.map(parameter => {
+          const optional = parameter.required || location === 'path' ? '' : '?';
+          return `${docComment(parameter, '    ')}    ${propertyKey(parameter.name)}${optional}: ${this.type(parameter.schema, '    ')};`;
+        });
+        groups.push(`  ${location}${required ? '' : '?'}: {\n${fields.join('\n')}\n  };`);
+      }
+      lines.push(`${summary}export interface ${operation.typeName}Params {\n${groups.join('\n')}\n}`);
+    }
+
+    if (operation.body) {
+      lines.push(`export type ${operation.typeName}Body = ${this.type(operation.body.schema, '')};`);
+    }
+
+    this.direction = 'response';
+    const responseTypes = [...new Set(operation.responses.map(response => response?.schema ? this.type(response.schema, '') : 'void'))];
+    lines.push(`export type ${operation.typeName}Response = ${responseTypes.length > 0 ? responseTypes.join(' | ') : 'void'};`);
+
+    if (includeErrors && operation.errors.length > 0) {
+      const fields = operation.errors.map(error => `  ${JSON.stringify(error.statusCode)}: ${error.media?.schema ? this.type(error.media.schema, '  ') : 'undefined'};`);
+      lines.push(`export interface ${operation.typeName}Errors {\n${fields.join('\n')}\n}`);
+    }
+
+    this.direction = undefined;
+    return `${lines.join('\n')}\n`;
+  }
+
+  operationMap(operations: OperationTypes[]): string {
+    const entries = operations.map(operation => {
+      const fields = [
+        ...(operation.parameters.length > 0 ? [`params: ${operation.typeName}Params`] : []),
+        ...(operation.body ? [`body: ${operation.typeName}Body`] : []),
+        `response: ${operation.typeName}Response`
+      ];
+      return `  ${propertyKey(operation.key)}: { ${fields.join('; ')} };`;
+    });
+    return `export interface Operations {\n${entries.join('\n')}\n}\n`;
+  }
+
+  /**
+   * The TypeScript type for a schema. Named component schemas are referred to by name, except at
+   * the root of their own declaration.
+   */
+  type(schema: any, indent: string, root = false): string {
+    if (schema === true || schema === undefined || schema === null) return 'unknown';
+    if (schema === false) return 'never';
+
+    const name = refName(schema) ?? (root ? undefined : this.explorer.nameOf(schema));
+    const component = name !== undefined ? this.components.find(name, this.direction) : undefined;
+    if (component) {
+      this.used.add(component);
+      return component.typeName;
+    }
+    if (typeof schema.$ref === 'string') return 'unknown';
+
+    const base = this.baseType(schema, indent);
+    const nullable = schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+    return nullable && base !== 'unknown' && base !== 'null' && !base.split(' | ').includes('null') ? `${wrapUnion(base)} | null` : base;
+  }
+
+  private baseType(schema: any, indent: string): string {
+    if (schema.const !== undefined) return literal(schema.const);
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return [...new Set(schema.enum.map(literal))].join(' | ');
+    }
+
+    const variants: any[] | undefined = schema.oneOf || schema.anyOf;
+    const parts: string[] = [];
+    if (Array.isArray(schema.allOf)) {
+      parts.push(...schema.allOf.map((member: any) => wrapUnion(this.type(member, indent))));
+    }
+    if (Array.isArray(variants) && variants.length > 0) {
+      const union = schema.discriminator?.propertyName ? this.discriminatedUnion(schema, variants, indent) : this.union(variants, indent);
+      parts.push(variants.length > 1 ? `(${union})` : union);
+    }
+    if (parts.length > 0) {
+      // Properties declared next to allOf or oneOf apply to every variant
+      if (schema.properties) parts.unshift(this.objectType(schema, indent));
+      return parts.join(' & ').replace(/^\((.*)\)$/s, (match, inner) => (parts.length === 1 ? inner : match));
+    }
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type.filter((type: string) => type !== 'null') : schema.type ? [schema.type] : [];
+    if (types.length === 0) {
+      if (schema.properties || schema.additionalProperties) types.push('object');
+      else if (schema.items || schema.prefixItems) types.push('array');
+    }
+    if (types.length === 0) return Array.isArray(schema.type) ? 'null' : 'unknown';
+    return types.map(type => this.primitiveType(type, schema, indent)).join(' | ');
+  }
+
+  private primitiveType(type: string, schema: any, indent: string): string {
+    switch (type) {
+      case 'object':
+        return this.objectType(schema, indent);
+      case 'array':
+        if (Array.isArray(schema.prefixItems)) {
+          return `[${schema.prefixItems.map((item: any) => this.type(item, indent)).join(', ')}]`;
+        }
+        return `${wrapUnion(this.type(schema.items, indent))}[]`;
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'string':
+      case 'boolean':
+      case 'null':
+        return type;
+      default:
+        return 'unknown';
+    }
+  }
+
+  private objectType(schema: any, indent: string): string {
+    const properties = Object.entries<any>(schema.properties || {}).filter(([, property]) => !isExcluded(property, this.direction));
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    const additional = schema.additionalProperties;
+
+    if (properties.length === 0) {
+      if (additional === false) return 'Record<string, never>';
+      return `Record<string, ${additional && typeof additional === 'object' ? this.type(additional, indent) : 'unknown'}>`;
+    }
+
+    const inner = `${indent}  `;
+    const lines = properties.map(([name, property]) => {
+      const readonly = property?.readOnly ? 'readonly ' : '';
+      const optional = required.includes(name) ? '' : '?';
+      return `${docComment(property, inner)}${inner}${readonly}${propertyKey(name)}${optional}: ${this.type(property, inner)};`;
+    });
+    // An index signature has to admit the declared properties too, so typed extras widen to unknown
+    if (additional === true || (additional && typeof additional === 'object')) {
+      lines.push(`${inner}[key: string]: unknown;`);
+    }
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  private union(variants: any[], indent: string): string {
+    return [...new Set(variants.map(variant => wrapIntersection(this.type(variant, indent))))].join(' | ');
+  }
+
+  /**
+   * Each variant pinned to its discriminator value, so TypeScript can narrow on it: from the
+   * mapping, else the variant's own const or enum, else its component name.
+   */
+  private discriminatedUnion(schema: any, variants: any[], indent: string): string {
+    const propertyName: string = schema.discriminator.propertyName;
+    const mapping = Object.entries<any>(schema.discriminator.mapping || {});
+
+    return variants.map(variant => {
+      const type = this.type(variant, indent);
+      const name = refName(variant) ?? this.explorer.nameOf(variant);
+      const ownTag = variant?.properties?.[propertyName];
+      if (ownTag?.const !== undefined || (Array.isArray(ownTag?.enum) && ownTag.enum.length === 1)) return wrapIntersection(type);
+
+      const values = mapping
+        .filter(([, target]) => name !== undefined && String(target).split('/').pop() === name)
+        .map(([value]) => value);
+      if (values.length === 0 && name && mapping.length === 0) values.push(name);
+      if (values.length === 0) return wrapIntersection(type);
+      return `(${wrapUnion(type)} & { ${propertyKey(propertyName)}: ${values.map(literal).join(' | ')} })`;
+    }).join(' | ');
+  }
+}
+
+/**
+ * Zod schemas mirroring the TypeScript types, as `<Type>Schema` constants. Components are declared
+ * after the ones they use; references that would run ahead of a declaration, which only happens
+ * inside a cycle, go through `z.lazy`, and the schemas in a cycle are annotated with their type
+ * because TypeScript can't infer a type that refers to itself.
+ */
+class ZodWriter {
+  private components: ComponentIndex;
+  private declared = new Set<ComponentType>();
+  private used = new Set<ComponentType>();
+  private direction?: Direction;
+
+  constructor(private explorer: SchemaExplorer, components: ComponentType[]) {
+    this.components = new ComponentIndex(components);
+  }
+
+  declarations(included: ComponentType[]): string {
+    const dependencies = new Map<ComponentType, Set<ComponentType>>();
+    for (const component of included) {
+      this.used = new Set();
+      this.componentExpression(component);
+      dependencies.set(component, this.used);
+    }
+
+    const ordered: ComponentType[] = [];
+    const visited = new Set<ComponentType>();
+    const visit = (component: ComponentType) => {
+      if (visited.has(component)) return;
+      visited.add(component);
+      for (const dependency of dependencies.get(component) || []) {
+        if (included.includes(dependency)) visit(dependency);
+      }
+      ordered.push(component);
+    };
+    included.forEach(visit);
+
+    return ordered.map(component => {
+      const cyclic = reaches(component, component, dependencies);
+      const code = this.componentExpression(component);
+      this.declared.add(component);
+      const annotation = cyclic ? `: z.ZodType<${component.typeName}>` : '';
+      return `export const ${component.typeName}Schema${annotation} = ${code};\n`;
+    }).join('\n');
+  }
+
+  // The same directions as the TypeScript types: readOnly properties aren't sent, writeOnly ones
+  // aren't received
+  operation(operation: OperationTypes): string {
+    const lines: string[] = [];
+    this.direction = 'request';
+
+    if (operation.parameters.length > 0) {
+      const groups: string[] = [];
+      for (const location of PARAMETER_LOCATIONS) {
+        const parameters = operation.parameters.filter(parameter => parameter.in === location);
+        if (parameters.length === 0) continue;
+        const required = parameters.some(parameter => parameter.required || location === 'path');
+        const fields = parameters.map(parameter => {
+          const optional = parameter.required || location === 'path' ? '' : '.optional()';
+          return `    ${propertyKey(parameter.name)}: ${this.expression(parameter.schema, '    ')}${optional}`;
+        });
+        groups.push(`  ${location}: z.object({\n${fields.join(',\n')}\n  })${required ? '' : '.optional()'}`);
+      }
+      lines.push(`export const ${operation.typeName}ParamsSchema = z.object({\n${groups.join(',\n')}\n});`);
+    }
+
+    if (operation.body) {
+      lines.push(`export const ${operation.typeName}BodySchema = ${this.expression(operation.body.schema, '')};`);
+    }
+
+    this.direction = 'response';
+    const responses = [...new Set(operation.responses.map(response => response?.schema ? this.expression(response.schema, '') : 'z.void()'))];
+    lines.push(`export const ${operation.typeName}ResponseSchema = ${union(responses.length > 0 ? responses : ['z.void()'])};`);
+
+    this.direction = undefined;
+    return `${lines.join('\n')}\n`;
+  }
+
+  operationIndex(operations: OperationTypes[]): string {
+    const entries = operations.map(operation => {
+      const fields = [
+        ...(operation.parameters.length > 0 ? [`params: ${operation.typeName}ParamsSchema`] : []),
+        ...(operation.body ? [`body: ${operation.typeName}BodySchema`] : []),
+        `response: ${operation.typeName}ResponseSchema`
+      ];
+      return `  ${propertyKey(operation.key)}: { ${fields.join(', ')} }`;
+    });
+    return `/** Schemas by operationId, to validate what is sent to and received from each operation. */\nexport const operationSchemas = {\n${entries.join(',\n')}\n};\n`;
+  }
+
+  expression(schema: any, indent: string, root = false): string {
+    if (schema === true || schema === undefined || schema === null) return 'z.unknown()';
+    if (schema === false) return 'z.never()';
+
+    const name = refName(schema) ?? (root ? undefined : this.explorer.nameOf(schema));
+    const component = name !== undefined ? this.components.find(name, this.direction) : undefined;
+    if (component) {
+      this.used.add(component);
+      const reference = `${component.typeName}Schema`;
+      return this.declared.has(component) ? reference : `z.lazy(() => ${reference})`;
+    }
+    if (typeof schema.$ref === 'string') return 'z.unknown()';
+
+    const base = this.baseExpression(schema, indent);
+    const nullable = schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+    return nullable && base !== 'z.unknown()' && base !== 'z.null()' ? `${base}.nullable()` : base;
+  }
+
+  private baseExpression(schema: any, indent: string): string {
+    if (schema.const !== undefined) return zodLiteral(schema.const);
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      const values = [...new Set<any>(schema.enum)];
+      if (values.length > 1 && values.every(value => typeof value === 'string')) {
+        return `z.enum([${values.map(value => JSON.stringify(value)).join(', ')}])`;
+      }
+      return union(values.map(zodLiteral));
+    }
+
+    const variants: any[] | undefined = schema.oneOf || schema.anyOf;
+    const parts: string[] = [];
+    if (schema.properties && (schema.allOf || variants)) parts.push(this.objectExpression(schema, indent));
+    if (Array.isArray(schema.allOf)) {
+      parts.push(...schema.allOf.map((member: any) => this.expression(member, indent)));
+    }
+    if (Array.isArray(variants) && variants.length > 0) {
+      const members = schema.discriminator?.propertyName
+        ? this.discriminatedVariants(schema, variants, indent)
+        : [...new Set(variants.map(variant => this.expression(variant, indent)))];
+      parts.push(union(members));
+    }
+    if (parts.length > 0) {
+      return parts.slice(1).reduce((combined, part) => `${combined}.and(${part})`, parts[0]);
+    }
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type.filter((type: string) => type !== 'null') : schema.type ? [schema.type] : [];
+    if (types.length === 0) {
+      if (schema.properties || schema.additionalProperties) types.push('object');
+      else if (schema.items || schema.prefixItems) types.push('array');
+    }
+    if (types.length === 0) return Array.isArray(schema.type) ? 'z.null()' : 'z.unknown()';
+    return union(types.map(type => this.primitiveExpression(type, schema, indent)));
+  }
+
+  private primitiveExpression(type: string, schema: any, indent: string): string {
+    switch (type) {
+      case 'object':
+        return this.objectExpression(schema, indent);
+      case 'array': {
+        if (Array.isArray(schema.prefixItems)) {
+          return `z.tuple([${schema.prefixItems.map((item: any) => this.expression(item, indent)).join(', ')}])`;
+        }
+        let expression = `z.array(${this.expression(schema.items, indent)})`;
+        if (typeof schema.minItems === 'number') expression += `.min(${schema.minItems})`;
+        if (typeof schema.maxItems === 'number') expression += `.max(${schema.maxItems})`;
+        if (schema.uniqueItems) {
+          expression += ".refine(items => new Set(items.map(item => JSON.stringify(item))).size === items.length, { message: 'Items must be unique' })";
+        }
+        return expression;
+      }
+      case 'integer':
+      case 'number':
+        return numberExpression(type, schema);
+      case 'string':
+        return stringExpression(schema);
+      case 'boolean':
+        return 'z.boolean()';
+      case 'null':
+        return 'z.null()';
+      default:
+        return 'z.unknown()';
+    }
+  }
+
+  private componentExpression(component: ComponentType): string {
+    this.direction = component.direction;
+    const code = this.expression(component.schema, '', true);
+    this.direction = undefined;
+    return code;
+  }
+
+  // Unknown properties are stripped rather than rejected unless the schema forbids them
+  private objectExpression(schema: any, indent: string): string {
+    const properties = Object.entries<any>(schema.properties || {}).filter(([, property]) => !isExcluded(property, this.direction));
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    const additional = schema.additionalProperties;
+
+    if (properties.length === 0) {
+      if (additional === false) return 'z.object({}).strict()';
+      return `z.record(z.string(), ${additional && typeof additional === 'object' ? this.expression(additional, indent) : 'z.unknown()'})`;
+    }
+
+    const inner = `${indent}  `;
+    const fields = properties.map(([name, property]) => {
+      const optional = required.includes(name) ? '' : '.optional()';
+      return `${inner}${propertyKey(name)}: ${this.expression(property, inner)}${optional}`;
+    });
+    const object = `z.object({\n${fields.join(',\n')}\n${indent}})`;
+    if (additional === false) return `${object}.strict()`;
+    if (additional === true) return `${object}.passthrough()`;
+    if (additional && typeof additional === 'object') return `${object}.catchall(${this.expression(additional, indent)})`;
+    return object;
+  }
+
+  // Pinned to their tags the same way as in the TypeScript types
+  private discriminatedVariants(schema: any, variants: any[], indent: string): string[] {
+    const propertyName: string = schema.discriminator.propertyName;
+    const mapping = Object.entries<any>(schema.discriminator.mapping || {});
+
+    return variants.map(variant => {
+      const expression = this.expression(variant, indent);
+      const name = refName(variant) ?? this.explorer.nameOf(variant);
+      const ownTag = variant?.properties?.[propertyName];
+      if (ownTag?.const !== undefined || (Array.isArray(ownTag?.enum) && ownTag.enum.length === 1)) return expression;
+
+      const values = mapping
+        .filter(([, target]) => name !== undefined && String(target).split('/').pop() === name)
+        .map(([value]) => value);
+      if (values.length === 0 && name && mapping.length === 0) values.push(name);
+      if (values.length === 0) return expression;
+      return `${expression}.and(z.object({ ${propertyKey(propertyName)}: ${union(values.map(zodLiteral))} }))`;
+    });
+  }
+}
+
+// Component types by schema name, looked up for a direction first when one applies
+class ComponentIndex {
+  private types = new Map<string, ComponentType>();
+
+  constructor(components: ComponentType[]) {
+    components.forEach(component => this.types.set(`${component.direction ?? ''}:${component.name}`, component));
+  }
+
+  find(name: string, direction?: Direction): ComponentType | undefined {
+    return (direction && this.types.get(`${direction}:${name}`)) || this.types.get(`:${name}`);
+  }
+}
+
+// Whether a property is left out of what is sent (readOnly) or received (writeOnly)
+function isExcluded(property: any, direction?: Direction): boolean {
+  if (!direction || !property || typeof property !== 'object') return false;
+  return property[direction === 'request' ? 'readOnly' : 'writeOnly'] === true;
+}
+
+/**
+ * `<Type>Input` for each component with readOnly properties, directly or in a component it uses,
+ * and `<Type>Output` for each with writeOnly ones. Named before the operations are, since they
+ * share one namespace.
+ */
+function directionVariants(components: ComponentType[], explorer: SchemaExplorer, taken: Set<string>): ComponentType[] {
+  const variants: ComponentType[] = [];
+  for (const [direction, suffix] of [['request', 'Input'], ['response', 'Output']] as Array<[Direction, string]>) {
+    const dependencies = new Map<string, Set<string>>();
+    const sensitive = new Set<string>();
+    for (const component of components) {
+      const uses = new Set<string>();
+      if (walkComponent(component.schema, direction, explorer, uses)) sensitive.add(component.name);
+      dependencies.set(component.name, uses);
+    }
+    // Using a component that leaves properties out makes a component leave them out too
+    for (let changed = true; changed;) {
+      changed = false;
+      for (const [name, uses] of dependencies) {
+        if (!sensitive.has(name) && [...uses].some(used => sensitive.has(used))) {
+          sensitive.add(name);
+          changed = true;
+        }
+      }
+    }
+    for (const component of components) {
+      if (!sensitive.has(component.name)) continue;
+      variants.push({ ...component, typeName: uniqueName(`${component.typeName}${suffix}`, taken), direction });
+    }
+  }
+  return variants;
+}
+
+// Whether a component's own schema has a property the direction leaves out, collecting the other
+// components it refers to along the way
+function walkComponent(root: any, direction: Direction, explorer: SchemaExplorer, uses: Set<string>): boolean {
+  const visited = new Set<any>();
+  const walk = (schema: any, isRoot: boolean): boolean => {
+    if (!schema || typeof schema !== 'object' || visited.has(schema)) return false;
+    visited.add(schema);
+    const name = refName(schema) ?? (isRoot ? undefined : explorer.nameOf(schema));
+    if (name !== undefined) {
+      uses.add(name);
+      return false;
+    }
+
+    let excluded = false;
+    for (const property of Object.values<any>(schema.properties || {})) {
+      if (isExcluded(property, direction)) excluded = true;
+      else if (walk(property, false)) excluded = true;
+    }
+    const members = [schema.items, schema.additionalProperties, ...(schema.prefixItems || []), ...(schema.allOf || []), ...(schema.oneOf || []), ...(schema.anyOf || [])];
+    for (const member of members) {
+      if (walk(member, false)) excluded = true;
+    }
+    return excluded;
+  };
+  return walk(root, true);
+}
+
+// The $refs left where dereferencing broke a cycle still name their schema
+function refName(schema: any): string | undefined {
+  if (typeof schema?.$ref !== 'string') return undefined;
+  const match = /^#\/(?:components\/schemas|definitions)\/([^/]+)$/.exec(schema.$ref);
+  return match ? decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~') : undefined;
+}
+
+function nameComponents(schemas: Record<string, any>, taken: Set<string>): ComponentType[] {
+  return Object.entries(schemas).map(([name, schema]) => ({ name, typeName: uniqueName(toTypeName(name), taken), schema }));
+}
+
+/** `order-item`, `order_item` and `Order.Item` all become `OrderItem`. */
+export function toTypeName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const typeName = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  if (!typeName) return 'Schema';
+  return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) candidate = `${name}${i}`;
+  taken.add(candidate);
+  return candidate;
+}
+
+// A name none of whose Params, Body, Response and Errors types is taken, which claims all four
+function operationTypeName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; OPERATION_TYPE_SUFFIXES.some(suffix => taken.has(`${candidate}${suffix}`)); i++) candidate = `${name}${i}`;
+  OPERATION_TYPE_SUFFIXES.forEach(suffix => taken.add(`${candidate}${suffix}`));
+  return candidate;
+}
+
+// `GET /pets/{petId}` → `getPetsPetId`
+function operationKey(details: EndpointDetails): string {
+  const words = details.path.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return details.method.toLowerCase() + words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+}
+
+// JSON bodies are what typed code sends and receives; other media types are a fallback
+function preferJson(body: { contentType?: string; schema?: any; alternatives?: MediaTypeInfo[] }): MediaTypeInfo | undefined {
+  const mediaTypes = [body, ...(body.alternatives || [])].filter(media => media.contentType) as MediaTypeInfo[];
+  return mediaTypes.find(media => /[/+]json\b/i.test(media.contentType)) || mediaTypes[0];
+}
+
+// 2xx responses, or the default response when there are none
+function successResponses(details: EndpointDetails): Array<MediaTypeInfo | undefined> {
+  const responses = details.responses || [];
+  const success = responses.filter(response => /^2/.test(response.statusCode));
+  const chosen = success.length > 0 ? success : responses.filter(response => response.statusCode === 'default');
+  return chosen.map(response => preferJson(response));
+}
+
+function isPlainObject(schema: any): boolean {
+  if (!schema || typeof schema !== 'object' || !schema.properties) return false;
+  if (schema.allOf || schema.oneOf || schema.anyOf || schema.enum || schema.const !== undefined || schema.nullable) return false;
+  return !Array.isArray(schema.type) && (schema.type === undefined || schema.type === 'object');
+}
+
+function docComment(schema: any, indent: string): string {
+  const lines: string[] = [];
+  if (typeof schema?.description === 'string' && schema.description.trim()) {
+    lines.push(...schema.description.trim().split('\n').map((line: string) => line.trimEnd()));
+  }
+  if (schema?.deprecated) lines.push('@deprecated');
+  if (lines.length === 0) return '';
+
+  const safe = lines.map(line => line.replace(/\*\//g, '*\\/'));
+  if (safe.length === 1) return `${indent}/** ${safe[0]} */\n`;
+  return `${indent}/**\n${safe.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function literal(value: any): string {
+  return value === null ? 'null' : JSON.stringify(value);
+}
+
+function wrapUnion(type: string): string {
+  return hasTopLevel(type, '|') ? `(${type})` : type;
+}
+
+function wrapIntersection(type: string): string {
+  return hasTopLevel(type, '&') ? `(${type})` : type;
+}
+
+// Whether an operator appears outside any brackets, so `{ a: 1 | 2 }` doesn't count as a union
+function hasTopLevel(type: string, operator: string): boolean {
+  let depth = 0;
+  for (const char of type) {
+    if ('{[(<'.includes(char)) depth++;
+    else if ('}])>'.includes(char)) depth--;
+    else if (char === operator && depth === 0) return true;
+  }
+  return false;
+}
+
+// Formats with a Zod check of their own; the rest are validated as plain strings
+const ZOD_STRING_FORMATS: Record<string, string> = {
+  email: '.email()',
+  uuid: '.uuid()',
+  uri: '.url()',
+  url: '.url()',
+  'date-time': '.datetime({ offset: true })',
+  date: '.date()'
+};
+
+function stringExpression(schema: any): string {
+  let expression = 'z.string()';
+  if (typeof schema.format === 'string' && ZOD_STRING_FORMATS[schema.format]) expression += ZOD_STRING_FORMATS[schema.format];
+  if (typeof schema.minLength === 'number') expression += `.min(${schema.minLength})`;
+  if (typeof schema.maxLength === 'number') expression += `.max(${schema.maxLength})`;
+  if (typeof schema.pattern === 'string') {
+    try {
+      new RegExp(schema.pattern);
+      expression += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+    } catch {
+      // Patterns JavaScript can't compile are left to the server
+    }
+  }
+  return expression;
+}
+
+// Both the OpenAPI 3.0 boolean and the 3.1 numeric forms of exclusiveMinimum and exclusiveMaximum
+function numberExpression(type: string, schema: any): string {
+  let expression = type === 'integer' ? 'z.number().int()' : 'z.number()';
+  if (typeof schema.exclusiveMinimum === 'number') expression += `.gt(${schema.exclusiveMinimum})`;
+  else if (typeof schema.minimum === 'number') expression += schema.exclusiveMinimum === true ? `.gt(${schema.minimum})` : `.min(${schema.minimum})`;
+  if (typeof schema.exclusiveMaximum === 'number') expression += `.lt(${schema.exclusiveMaximum})`;
+  else if (typeof schema.maximum === 'number') expression += schema.exclusiveMaximum === true ? `.lt(${schema.maximum})` : `.max(${schema.maximum})`;
+  if (typeof schema.multipleOf === 'number') expression += `.multipleOf(${schema.multipleOf})`;
+  return expression;
+}
+
+function zodLiteral(value: any): string {
+  return value === null ? 'z.null()' : `z.literal(${JSON.stringify(value)})`;
+}
+
+function union(members: string[]): string {
+  return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+}
+
+// Whether a component's dependencies lead back to a given component
+function reaches<T>(from: T, target: T, dependencies: Map<T, Set<T>>): boolean {
+  const visited = new Set<T>();
+  const pending = [...(dependencies.get(from) || [])];
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (name === target) return true;
+    if (visited.has(name)) continue;
+    visited.add(name);
+    pending.push(...(dependencies.get(name) || []));
+  }
+  return false;
+}
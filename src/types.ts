@@ -12,33 +12,138 @@ export interface OpenAPIDocument {
     description?: string;
   }>;
   paths?: Record<string, any>;
+  webhooks?: Record<string, any>; // OpenAPI 3.1
   components?: Record<string, any>;
   tags?: Array<{
     name: string;
     description?: string;
   }>;
   security?: any[];
-  host?: string;
-  basePath?: string;
-  schemes?: string[];
+}
+
+// AsyncAPI 2.x and 3.0 documents, kept close to their raw (dereferenced) shape
+export interface AsyncAPIDocument {
+  asyncapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers?: Record<string, any>;
+  channels?: Record<string, any>;
+  operations?: Record<string, any>; // AsyncAPI 3.0
+  components?: Record<string, any>;
+  tags?: Array<{
+    name: string;
+    description?: string;
+  }>;
+  defaultContentType?: string;
+}
+
+export type SpecType = 'openapi' | 'asyncapi';
+
+// How URL sources are fetched. String values may reference environment variables as ${NAME},
+// which are resolved on every fetch so secrets are never written to disk
+export interface FetchSettings {
+  headers?: Record<string, string>;
+  auth?: { bearer?: string; username?: string; password?: string };
+  timeoutMs?: number;
+  maxBytes?: number;
+  retries?: number;
 }
 
 export interface Session {
   id: string;
-  spec: OpenAPIDocument;
+  name?: string; // Human-readable handle, usable anywhere a session ID is
+  aliases?: string[];
+  spec: OpenAPIDocument; // For AsyncAPI sessions this only carries info and servers
+  specType: SpecType;
+  asyncapi?: AsyncAPIDocument; // Set for AsyncAPI sessions
   source: string; // Can be either a file path or URL
   sourceType: 'file' | 'url';
   createdAt: Date;
   outputFormat: OutputFormat; // Add output format to session
+  files: string[]; // Local files the spec was read from, including externally referenced ones
+  etag?: string; // Validators from the last URL fetch, for conditional refreshes
+  lastModified?: string;
+  reloadedAt?: Date;
+  reloadError?: string; // Why the last reload failed; the previous spec is still in use
+  fetch?: FetchSettings; // Headers, credentials and limits for URL sources
+  overlays?: string[]; // Overlay files applied on every load
+  workspace?: boolean; // Declared in a workspace config rather than opened by a tool call
+  references?: ReferenceGraph; // $refs of the document as written, for OpenAPI sessions
+  content?: string; // The source as read when the spec was loaded, which linting parses
+}
+
+// A $ref as written in the source document, kept after dereferencing has inlined it
+export interface ReferenceEdge {
+  from: string; // Component pointer such as `#/components/schemas/Order`, or an operation such as `POST /orders`
+  to: string; // Component pointer
+  location: string; // Where in `from` the $ref is, e.g. `request body application/json > items[]`
+}
+
+export interface ReferenceGraph {
+  components: string[]; // Pointers to every declared component
+  edges: ReferenceEdge[];
+  documents?: string[]; // URLs of the documents the edges were read from, root first
+}
+
+export interface SchemaUsage {
+  kind: 'operation' | 'schema' | 'parameter' | 'requestBody' | 'response' | 'header' | 'component';
+  name: string; // `POST /orders`, or the component's name
+  location: string; // Where in it the schema, or the first component in `via`, is used
+  via?: string[]; // Components between this user and the schema, e.g. ['Order.items[]', 'LineItem.product']
+}
+
+export interface SchemaUsageReport {
+  schema: string;
+  operations: string[]; // Every operation affected by a change to the schema
+  usages: SchemaUsage[];
+}
+
+export interface SessionSummary {
+  id: string;
+  name?: string;
+  aliases?: string[];
+  source: string;
+  sourceType: 'file' | 'url';
+  title?: string;
+  version?: string;
+  outputFormat: OutputFormat;
+  createdAt: string; // ISO string
+  lastAccessed: string; // ISO string
+  loaded: boolean; // Whether the spec is currently held in memory
+  workspace?: boolean;
+}
+
+export interface WorkspaceStatus {
+  configFile: string;
+  loadedAt: string; // ISO string
+  sessions: string[]; // IDs of the sessions the config declares
+  errors: Array<{ spec?: string; message: string }>; // Specs that failed to load, or a config error
+}
+
+export interface SessionInfo {
+  title?: string;
+  version?: string;
+  description?: string;
+  baseUrl?: string;
+  reloadedAt?: string; // ISO string
+  reloadError?: string;
 }
 
 export interface PersistedSession {
   id: string;
+  name?: string;
+  aliases?: string[];
+  title?: string; // Spec title and version, so sessions can be listed without loading them
+  version?: string;
   source: string; // Can be either a file path or URL
   sourceType: 'file' | 'url';
   createdAt: string; // ISO string
   lastAccessed: string; // ISO string
   outputFormat: OutputFormat; // Add output format to persistence
+  fetch?: FetchSettings;
 }
 
 export interface EndpointSummary {
@@ -48,6 +153,33 @@ export interface EndpointSummary {
   summary?: string;
   description?: string;
   tags?: string[];
+  webhook?: boolean; // true when `path` is an OpenAPI 3.1 webhook name
+}
+
+export interface SearchMatch {
+  field: 'path' | 'operationId' | 'summary' | 'description' | 'tags' | 'parameters' | 'properties';
+  text: string; // The matching text, with matched words wrapped in **
+}
+
+export interface SearchResult {
+  path: string;
+  method: string;
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  webhook?: boolean;
+  score: number; // BM25 relevance; only comparable within one search
+  matches: SearchMatch[];
+}
+
+export interface RequestMatch {
+  url: string;
+  server?: string; // The server URL stripped from the request
+  pathParameters: Record<string, string>;
+  queryParameters: Record<string, string | string[]>;
+  undeclaredQueryParameters?: string[];
+  missingParameters?: string[]; // Required path and query parameters the request doesn't have
+  endpoint: EndpointDetails;
 }
 
 export interface ParameterInfo {
@@ -60,12 +192,27 @@ export interface ParameterInfo {
   schema?: any;
 }
 
+// One entry of a request body or response `content` map
+export interface MediaTypeInfo {
+  contentType: string;
+  schema?: any;
+  example?: any;
+  examples?: any;
+  generatedExample?: any; // Made up from the schema when the spec has no example
+  encoding?: Record<string, any>; // Per-property serialization for multipart and form bodies
+}
+
 export interface ResponseInfo {
   statusCode: string;
   description?: string;
   contentType?: string;
   schema?: any;
+  example?: any;
   examples?: any;
+  generatedExample?: any;
+  encoding?: Record<string, any>;
+  headers?: Record<string, any>; // Header objects by name, with includeHeaders
+  alternatives?: MediaTypeInfo[]; // The other media types the response can come back as
 }
 
 export interface EndpointDetails {
@@ -80,10 +227,239 @@ export interface EndpointDetails {
     required?: boolean;
     contentType?: string;
     schema?: any;
+    example?: any;
     examples?: any;
+    generatedExample?: any;
+    encoding?: Record<string, any>;
+    alternatives?: MediaTypeInfo[]; // The other media types the body can be sent as
   };
   responses?: ResponseInfo[];
   security?: any[];
+  webhook?: boolean;
+}
+
+// JSON Schema validation keywords shown alongside a schema's type
+export interface SchemaConstraints {
+  enum?: any[];
+  const?: any;
+  format?: string;
+  pattern?: string;
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  nullable?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+}
+
+export interface SchemaNode {
+  name?: string; // Property name, absent for the root and array items
+  type: string;
+  ref?: string; // Component schema name, when the schema is a named component
+  required?: boolean;
+  description?: string;
+  constraints?: SchemaConstraints;
+  circular?: boolean; // Refers back to a schema it is nested in, so it isn't expanded again
+  truncated?: boolean; // Has more structure below the requested depth
+  properties?: SchemaNode[];
+  additionalProperties?: SchemaNode;
+  items?: SchemaNode;
+  oneOf?: SchemaNode[];
+  anyOf?: SchemaNode[];
+}
+
+export interface SchemaView {
+  source: string; // What was explored, e.g. `Order` or `POST /orders request application/json`
+  propertyPath?: string;
+  depth: number;
+  schema: SchemaNode;
+}
+
+// A request to check against an operation before sending it
+export interface CandidateRequest {
+  pathParameters?: Record<string, any>;
+  queryParameters?: Record<string, any>;
+  headers?: Record<string, any>;
+  cookies?: Record<string, any>;
+  body?: any;
+  contentType?: string;
+}
+
+// A response as it was received, to check against what the operation documents
+export interface CapturedResponse {
+  statusCode: string;
+  headers?: Record<string, any>;
+  body?: any;
+  contentType?: string; // Taken from the Content-Type header when not given
+}
+
+export interface ValidationIssue {
+  pointer: string; // JSON Pointer into the request, e.g. `/body/items/0/price` or `/query/limit`
+  message: string;
+  keyword: string; // The JSON Schema keyword that failed, e.g. `required` or `format`
+}
+
+export interface ValidationReport {
+  target: string; // e.g. `POST /orders request`
+  contentType?: string;
+  valid: boolean;
+  errors: ValidationIssue[];
+}
+
+// How the responses recorded in a HAR file conform to the spec, per operation
+export interface ConformanceReport {
+  source: string;
+  exchanges: number;
+  matched: number;
+  unmatched: Array<{ method: string; url: string }>;
+  operations: OperationConformance[];
+}
+
+export interface OperationConformance {
+  operation: string; // e.g. `GET /pets/{petId}`
+  exchanges: number;
+  failed: number;
+  issues: ConformanceIssue[];
+}
+
+export interface ConformanceIssue {
+  statusCode: string;
+  pointer: string; // Array indices are collapsed to `*`, so one issue covers every item
+  message: string;
+  keyword: string;
+  occurrences: number;
+  example: string; // URL of the first exchange with the issue
+}
+
+export interface GeneratedExample {
+  source: string; // Same as SchemaView.source
+  propertyPath?: string;
+  direction: 'request' | 'response';
+  seed: number;
+  example: any;
+}
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go';
+
+export interface CodeSnippet {
+  language: SnippetLanguage;
+  label: string; // e.g. `Python (requests)`
+  code: string;
+}
+
+// Ready-to-run client code for one operation
+export interface EndpointSnippets {
+  target: string; // e.g. `POST /orders`
+  operationId?: string;
+  snippets: CodeSnippet[];
+}
+
+export interface AsyncOperationSummary {
+  operationId: string;
+  action: 'send' | 'receive' | 'publish' | 'subscribe';
+  channel: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  messages: string[];
+}
+
+export interface ChannelSummary {
+  name: string;
+  address?: string; // AsyncAPI 3.0 separates the channel id from its address
+  description?: string;
+  parameters?: string[];
+  operations: AsyncOperationSummary[];
+}
+
+export interface MessageDetails {
+  name: string;
+  channel: string;
+  operationId?: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  contentType?: string;
+  payload?: any;
+  headers?: any;
+  correlationId?: any;
+  examples?: any[];
+}
+
+export interface AsyncServerInfo {
+  name: string;
+  url: string;
+  protocol: string;
+  protocolVersion?: string;
+  description?: string;
+}
+
+export type LintSeverity = 'error' | 'warn' | 'info';
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  path: string; // JSON Pointer into the source document, e.g. #/paths/~1pets/get
+}
+
+export interface LintReport {
+  count: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+  rules: string[]; // IDs of the rules that ran
+  findings: LintFinding[];
+}
+
+export type SemverBump = 'major' | 'minor' | 'patch' | 'none';
+
+export interface SpecChange {
+  kind: 'added' | 'removed' | 'changed';
+  breaking: boolean;
+  category: 'operation' | 'parameter' | 'requestBody' | 'response' | 'schema' | 'enum' | 'security';
+  endpoint: string; // e.g. "GET /pets/{id}"
+  location?: string; // e.g. "query parameter limit" or "response 200 body.items[].name"
+  message: string;
+}
+
+export interface SpecDiff {
+  base: { title?: string; version?: string };
+  head: { title?: string; version?: string };
+  breaking: number;
+  nonBreaking: number;
+  recommendedBump: SemverBump;
+  changes: SpecChange[];
+  changelogPath?: string; // Set when a Markdown changelog was written
+}
+
+export interface CacheEntrySummary {
+  source: string;
+  sourceType: 'file' | 'url';
+  specType: SpecType;
+  title?: string;
+  contentHash: string;
+  cachedAt: string; // ISO string
+  bytes: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  offline: boolean;
+  count: number;
+  totalBytes: number;
+  entries: CacheEntrySummary[];
 }
 
 export interface QueryOptions {
@@ -93,8 +469,11 @@ export interface QueryOptions {
   includeResponses?: boolean;
   includeSecurity?: boolean;
   includeExamples?: boolean;
+  generateExamples?: boolean; // Synthesize examples for bodies the spec has none for
+  exampleSeed?: number;
   includeSchemas?: boolean;
   responseStatusCodes?: string[];
+  contentTypes?: string[]; // Preferred media types, e.g. ['application/json'] or ['multipart/*']
   tags?: string[];
 }
 
@@ -111,16 +490,50 @@ export interface DocumentationOptions {
   includeComponents?: boolean;
   includeSecurity?: boolean;
   includeExamples?: boolean;
+  generateExamples?: boolean;
+  exampleSeed?: number;
+  includeSnippets?: boolean;
+  snippetLanguages?: SnippetLanguage[];
   groupByTags?: boolean;
 }
 
+// Type generation options
+export interface TypeGenerationOptions {
+  outputDirectory?: string; // Returned inline when not given
+  filename?: string;
+  tags?: string[]; // Only operations with these tags, and the schemas they use
+  zod?: boolean; // Also emit Zod schemas for runtime validation, indexed by operationId
+  includeErrors?: boolean; // Also emit `<Operation>Errors` maps of documented non-2xx bodies by status code
+}
+
+// Client SDK generation options
+export interface ClientGenerationOptions {
+  outputDirectory?: string;
+  tags?: string[]; // Only the classes for these tags
+}
+
 // Transformer interface
 export interface ResponseTransformer {
   transformEndpointsList(data: { count: number; endpoints: EndpointSummary[] }): string;
   transformEndpointDetails(data: EndpointDetails): string;
-  transformSessionInfo(data: { title?: string; version?: string; description?: string; baseUrl?: string }): string;
+  transformSearchResults(data: { query: string; count: number; results: SearchResult[] }): string;
+  transformRequestMatch(data: RequestMatch): string;
+  transformSessionInfo(data: SessionInfo): string;
+  transformSessionList(data: { count: number; sessions: SessionSummary[]; workspace?: WorkspaceStatus }): string;
   transformTags(data: { count: number; tags: string[] }): string;
   transformComponents(data: any): string;
+  transformSchemaUsages(data: SchemaUsageReport): string;
+  transformSchema(data: SchemaView): string;
+  transformExample(data: GeneratedExample): string;
+  transformSnippets(data: EndpointSnippets): string;
+  transformValidationReport(data: ValidationReport): string;
+  transformConformanceReport(data: ConformanceReport): string;
+  transformChannels(data: { count: number; channels: ChannelSummary[] }): string;
+  transformMessages(data: { count: number; messages: MessageDetails[] }): string;
+  transformServers(data: { count: number; servers: AsyncServerInfo[] }): string;
+  transformLintReport(data: LintReport): string;
+  transformSpecDiff(data: SpecDiff): string;
+  transformCacheStats(data: CacheStats): string;
   transformSuccess(data: { success: boolean; sessionId?: string; message: string }): string;
   transformError(data: { error: boolean; message: string }): string;
 }
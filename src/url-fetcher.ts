@@ -0,0 +1,444 @@
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { Socket } from 'net';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { FetchSettings } from './types.js';
+import { SandboxError, assertUrlAllowed, getGuardedLookup } from './sandbox.js';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_RETRIES = 2;
+// Retries wait 500ms, 1s, 2s, ... unless the server sends Retry-After
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+const MAX_REDIRECTS = 5;
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+export interface FetchedContent {
+  content: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface RawResponse {
+  status: number;
+  statusText: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A failed fetch. Transient failures (network errors, timeouts, 5xx, 429) are retried and may
+ * be served from the cache; the rest, such as 401 or 404, mean the source itself needs fixing.
+ */
+export class FetchError extends Error {
+  constructor(message: string, public transient: boolean, public status?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+export function isTransientFetchError(error: unknown): boolean {
+  return error instanceof FetchError && error.transient;
+}
+
+export function getFetchDefaults(): { timeoutMs: number; maxBytes: number; retries: number } {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    timeoutMs: read('JANUS_FETCH_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    maxBytes: read('JANUS_FETCH_MAX_BYTES', DEFAULT_MAX_BYTES),
+    retries: read('JANUS_FETCH_RETRIES', DEFAULT_RETRIES)
+  };
+}
+
+// Replaces ${NAME} with the environment variable, so secrets stay out of configs and session files
+export function interpolateEnv(value: string, context: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const replacement = process.env[name];
+    if (replacement === undefined) {
+      throw new Error(`Environment variable ${name} used in ${context} is not set`);
+    }
+    return replacement;
+  });
+}
+
+const ENV_REFERENCE = /\$\{[A-Za-z_][A-Za-z0-9_]*\}/;
+
+/**
+ * The settings that may be written to the session file: header values are kept only when they
+ * reference an environment variable, and auth only when its bearer token or password does, so
+ * literal secrets live in memory alone and a restored session has to be given them again. A
+ * username is never stored without its password, which would only turn into 401s after a restart.
+ */
+export function persistableFetchSettings(settings: FetchSettings | undefined): FetchSettings | undefined {
+  if (!settings) return undefined;
+  const { headers, auth, ...limits } = settings;
+  const persisted: FetchSettings = { ...limits };
+
+  const storedHeaders = Object.entries(headers || {}).filter(([, value]) => ENV_REFERENCE.test(value));
+  if (storedHeaders.length > 0) persisted.headers = Object.fromEntries(storedHeaders);
+
+  const secrets = [auth?.bearer, auth?.password].filter((value): value is string => value !== undefined);
+  if (auth && secrets.length > 0 && secrets.every(value => ENV_REFERENCE.test(value))) {
+    persisted.auth = auth;
+  }
+  return Object.keys(persisted).length > 0 ? persisted : undefined;
+}
+
+/**
+ * Fetch a spec over HTTP(S) with the source's headers and credentials, following redirects and
+ * HTTP(S)_PROXY, and retrying transient failures with backoff. Returns null when a conditional
+ * request finds the resource unchanged.
+ */
+export async function fetchUrl(
+  url: string,
+  settings: FetchSettings = {},
+  validators: { etag?: string; lastModified?: string } = {}
+): Promise<FetchedContent | null> {
+  const defaults = getFetchDefaults();
+  const timeoutMs = settings.timeoutMs ?? defaults.timeoutMs;
+  const maxBytes = settings.maxBytes ?? defaults.maxBytes;
+  const retries = settings.retries ?? defaults.retries;
+
+  const target = new URL(url);
+  let headers: Record<string, string>;
+  try {
+    headers = buildHeaders(target, settings);
+  } catch (error) {
+    throw new FetchError(error instanceof Error ? error.message : 'Unknown error', false);
+  }
+  if (validators.etag) headers['if-none-match'] = validators.etag;
+  if (validators.lastModified) headers['if-modified-since'] = validators.lastModified;
+  const authenticated = 'authorization' in headers;
+  // Credentials in the URL have been moved into the Authorization header, and stay out of error messages
+  target.username = '';
+  target.password = '';
+  const displayUrl = target.href;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchFollowingRedirects(target, headers, timeoutMs, maxBytes);
+      if (response.status === 304) return null;
+      if (response.status >= 200 && response.status < 300) {
+        return {
+          content: response.body,
+          etag: headerValue(response.headers.etag),
+          lastModified: headerValue(response.headers['last-modified'])
+        };
+      }
+      throw statusError(displayUrl, response, authenticated);
+    } catch (error) {
+      if (error instanceof SandboxError) throw error;
+      const fetchError = error instanceof FetchError
+        ? error
+        : new FetchError(`Failed to fetch ${displayUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`, false);
+      if (!fetchError.transient || attempt >= retries) {
+        if (attempt > 0 && fetchError.transient) {
+          fetchError.message += ` (gave up after ${attempt + 1} attempts)`;
+        }
+        throw fetchError;
+      }
+      const delay = fetchError.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, Math.min(delay, MAX_RETRY_DELAY_MS)));
+    }
+  }
+}
+
+function buildHeaders(target: URL, settings: FetchSettings): Record<string, string> {
+  const headers: Record<string, string> = {
+    'accept': 'application/json, application/yaml, text/yaml, */*;q=0.8',
+    'accept-encoding': 'gzip, deflate, br',
+    'user-agent': 'janus-mcp'
+  };
+
+  if (target.username || target.password) {
+    const credentials = `${decodeURIComponent(target.username)}:${decodeURIComponent(target.password)}`;
+    headers['authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const auth = settings.auth;
+  if (auth?.bearer) {
+    headers['authorization'] = `Bearer ${interpolateEnv(auth.bearer, 'auth.bearer')}`;
+  } else if (auth?.username !== undefined) {
+    const username = interpolateEnv(auth.username, 'auth.username');
+    const password = interpolateEnv(auth.password || '', 'auth.password');
+    headers['authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  // Explicit headers win over the defaults and the auth shorthand
+  for (const [name, value] of Object.entries(settings.headers || {})) {
+    headers[name.toLowerCase()] = interpolateEnv(value, `headers.${name}`);
+  }
+  return headers;
+}
+
+function statusError(url: string, response: RawResponse, authenticated: boolean): FetchError {
+  const status = `${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+  switch (response.status) {
+    case 401:
+      return new FetchError(authenticated
+        ? `${url} rejected the configured credentials (${status})`
+        : `${url} requires authentication (${status}); add an Authorization header or auth settings for this source`, false, 401);
+    case 403:
+      return new FetchError(authenticated
+        ? `Access to ${url} is forbidden for the configured credentials (${status})`
+        : `Access to ${url} is forbidden (${status})`, false, 403);
+    case 404:
+      return new FetchError(`No spec found at ${url} (${status})`, false, 404);
+    case 407:
+      return new FetchError(`The proxy requires authentication (${status}); add credentials to the proxy URL`, false, 407);
+  }
+
+  const retryable = RETRYABLE_STATUSES.includes(response.status);
+  return new FetchError(`Failed to fetch ${url}: ${status}`, retryable, response.status, parseRetryAfter(response.headers['retry-after']));
+}
+
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function fetchFollowingRedirects(target: URL, headers: Record<string, string>, timeoutMs: number, maxBytes: number): Promise<RawResponse> {
+  let current = target;
+  let currentHeaders = headers;
+
+  for (let redirects = 0; ; redirects++) {
+    // Redirects are checked too, so an allowed host can't bounce the request somewhere internal
+    await assertUrlAllowed(current);
+    const response = await requestOnce(current, currentHeaders, timeoutMs, maxBytes);
+    const location = headerValue(response.headers.location);
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) return response;
+    if (redirects >= MAX_REDIRECTS) {
+      throw new FetchError(`Too many redirects fetching ${target.href}`, false);
+    }
+
+    const next = new URL(location, current);
+    // Credentials are only sent to the origin they were configured for
+    if (next.origin !== current.origin) {
+      const { authorization, cookie, ...rest } = currentHeaders;
+      currentHeaders = rest;
+    }
+    current = next;
+  }
+}
+
+function requestOnce(target: URL, headers: Record<string, string>, timeoutMs: number, maxBytes: number): Promise<RawResponse> {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return Promise.reject(new FetchError(`Unsupported URL protocol ${target.protocol}`, false));
+  }
+
+  return new Promise<RawResponse>((resolve, reject) => {
+    let request: http.ClientRequest | undefined;
+    let settled = false;
+    // Tears down a proxy tunnel that is still being set up when the request fails
+    const controller = new AbortController();
+    const finish = (error: Error | null, response?: RawResponse) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        request?.destroy();
+        controller.abort(error);
+        reject(error);
+      } else {
+        resolve(response!);
+      }
+    };
+
+    // The timeout covers connecting, the proxy tunnel and reading the whole body
+    const timer = setTimeout(() => {
+      finish(new FetchError(`Timed out after ${timeoutMs}ms fetching ${target.href}`, true));
+    }, timeoutMs);
+
+    const onResponse = (response: http.IncomingMessage) => {
+      const status = response.statusCode || 0;
+      const declared = Number(response.headers['content-length']);
+      if (Number.isFinite(declared) && declared > maxBytes) {
+        response.destroy();
+        finish(sizeError(target, maxBytes));
+        return;
+      }
+
+      const body = decompress(response);
+      const chunks: Buffer[] = [];
+      let size = 0;
+      body.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          response.destroy();
+          finish(sizeError(target, maxBytes));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      body.on('end', () => finish(null, {
+        status,
+        statusText: response.statusMessage || '',
+        headers: response.headers,
+        body: Buffer.concat(chunks).toString('utf-8')
+      }));
+      body.on('error', error => finish(networkError(target, error)));
+    };
+
+    openRequest(target, headers, onResponse, controller.signal)
+      .then(opened => {
+        request = opened;
+        if (settled) opened.destroy();
+        opened.on('error', error => finish(error instanceof SandboxError ? error : networkError(target, error)));
+        opened.end();
+      })
+      .catch(error => finish(error));
+  });
+}
+
+function decompress(response: http.IncomingMessage): Readable {
+  switch (headerValue(response.headers['content-encoding'])?.toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+function sizeError(target: URL, maxBytes: number): FetchError {
+  return new FetchError(`Response from ${target.href} exceeds the ${maxBytes} byte limit (raise JANUS_FETCH_MAX_BYTES or the source's maxBytes)`, false);
+}
+
+function networkError(target: URL, error: Error): FetchError {
+  if (error instanceof FetchError) return error;
+  const code = (error as NodeJS.ErrnoException).code;
+  // A host that doesn't resolve, or a bad certificate, won't fix itself on retry
+  const permanent = code === 'ENOTFOUND' || /CERT|SSL|TLS/.test(code || '');
+  return new FetchError(`Could not reach ${target.host}: ${code || error.message}`, !permanent);
+}
+
+/**
+ * Proxies are trusted: the target URL is checked before the request, but the guarded lookup only
+ * applies to direct connections, since the proxy resolves the target itself.
+ */
+async function openRequest(
+  target: URL,
+  headers: Record<string, string>,
+  onResponse: (response: http.IncomingMessage) => void,
+  signal: AbortSignal
+): Promise<http.ClientRequest> {
+  const proxy = getProxyFor(target);
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  const path = `${target.pathname}${target.search}`;
+
+  if (!proxy) {
+    const client = target.protocol === 'https:' ? https : http;
+    return client.request(target, { method: 'GET', headers, lookup: getGuardedLookup(target) }, onResponse);
+  }
+
+  const proxyHeaders: Record<string, string> = {};
+  if (proxy.username || proxy.password) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    proxyHeaders['proxy-authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+  const proxyClient = proxy.protocol === 'https:' ? https : http;
+  const proxyOptions = {
+    hostname: proxy.hostname,
+    port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80)
+  };
+
+  // Plain HTTP goes through the proxy as an absolute-URI request
+  if (target.protocol === 'http:') {
+    return proxyClient.request({
+      ...proxyOptions,
+      method: 'GET',
+      path: target.href,
+      headers: { ...headers, ...proxyHeaders, host: target.host }
+    }, onResponse);
+  }
+
+  // HTTPS is tunnelled with CONNECT, then TLS to the target over the tunnel
+  const socket = await new Promise<Socket>((resolve, reject) => {
+    const connect = proxyClient.request({
+      ...proxyOptions,
+      method: 'CONNECT',
+      path: `${target.hostname}:${port}`,
+      headers: { ...proxyHeaders, host: `${target.hostname}:${port}` }
+    });
+    const abort = () => {
+      connect.destroy();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', abort, { once: true });
+
+    connect.on('connect', (response, tunnel) => {
+      signal.removeEventListener('abort', abort);
+      if (signal.aborted) {
+        tunnel.destroy();
+        return;
+      }
+      if (response.statusCode !== 200) {
+        tunnel.destroy();
+        const status = response.statusCode || 0;
+        reject(status === 407
+          ? new FetchError('The proxy requires authentication (407 Proxy Authentication Required); add credentials to the proxy URL', false, 407)
+          : new FetchError(`Proxy ${proxy.host} refused to connect to ${target.host}: ${status} ${response.statusMessage || ''}`.trim(), status >= 500, status));
+        return;
+      }
+      // The tunnel outlives this promise, so a later failure has to close it too
+      signal.addEventListener('abort', () => tunnel.destroy(), { once: true });
+      resolve(tunnel);
+    });
+    connect.on('error', error => reject(new FetchError(`Could not reach proxy ${proxy.host}: ${(error as NodeJS.ErrnoException).code || error.message}`, true)));
+    connect.end();
+  });
+
+  return https.request({
+    hostname: target.hostname,
+    port,
+    path,
+    method: 'GET',
+    headers,
+    agent: false,
+    createConnection: () => tls.connect({ socket, servername: target.hostname })
+  }, onResponse);
+}
+
+// HTTPS_PROXY / HTTP_PROXY (either case), skipping hosts listed in NO_PROXY
+function getProxyFor(target: URL): URL | null {
+  const env = process.env;
+  const value = target.protocol === 'https:'
+    ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+    : env.HTTP_PROXY || env.http_proxy;
+  if (!value) return null;
+
+  const noProxy = (env.NO_PROXY || env.no_proxy || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  const host = target.hostname.toLowerCase();
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  for (const entry of noProxy) {
+    if (entry === '*') return null;
+    const [entryHost, entryPort] = entry.split(':');
+    if (entryPort && entryPort !== port) continue;
+    const suffix = entryHost.replace(/^\*?\./, '');
+    if (host === suffix || host.endsWith(`.${suffix}`)) return null;
+  }
+
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`);
+  } catch {
+    return null;
+  }
+}
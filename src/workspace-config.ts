@@ -0,0 +1,388 @@
+import { readFile, readdir, access } from 'fs/promises';
+import { watchFile, unwatchFile } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { load } from 'js-yaml';
+import { OpenAPIManager } from './openapi-manager.js';
+import { FetchSettings, OutputFormat, WorkspaceStatus } from './types.js';
+
+// Looked up in this order in the working directory and each of its parents
+export const WORKSPACE_CONFIG_FILES = ['.janus.json', 'janus.config.yaml', 'janus.config.yml', 'janus.config.json'];
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'compact', 'structured', 'markdown'];
+const CONFIG_WATCH_INTERVAL_MS = 1000;
+const CONFIG_RELOAD_DEBOUNCE_MS = 200;
+
+export interface WorkspaceSpecConfig {
+  source: string; // File path, URL or glob; relative paths are resolved against the config file
+  outputFormat?: OutputFormat;
+  aliases?: string[];
+  headers?: Record<string, string>; // Values may reference environment variables as ${NAME}
+  auth?: FetchSettings['auth'];
+  timeoutMs?: number;
+  maxBytes?: number;
+  retries?: number;
+  overlays?: string[];
+}
+
+export interface WorkspaceConfig {
+  outputFormat?: OutputFormat; // Default for specs that don't set their own
+  persistence?: {
+    enabled?: boolean;
+    directory?: string;
+  };
+  specs: Record<string, WorkspaceSpecConfig>;
+}
+
+// One session the config asks for; a glob spec expands to one per matching file
+interface WorkspaceEntry {
+  id: string;
+  source: string;
+  outputFormat?: OutputFormat;
+  aliases?: string[];
+  fetch?: FetchSettings;
+  overlays?: string[];
+}
+
+/**
+ * The workspace config in effect: `JANUS_CONFIG` if set, otherwise the first config file
+ * found walking up from the working directory.
+ */
+export async function findWorkspaceConfig(cwd: string = process.cwd()): Promise<string | null> {
+  if (process.env.JANUS_CONFIG) {
+    return resolve(cwd, process.env.JANUS_CONFIG);
+  }
+
+  let directory = resolve(cwd);
+  while (true) {
+    for (const name of WORKSPACE_CONFIG_FILES) {
+      try {
+        await access(join(directory, name));
+        return join(directory, name);
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) return null;
+    directory = parent;
+  }
+}
+
+export function parseWorkspaceConfig(content: string, configFile: string): WorkspaceConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid workspace config ${configFile}: ${message}`);
+  };
+
+  let raw: any;
+  try {
+    raw = configFile.endsWith('.json') ? JSON.parse(content) : load(content);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : 'Unknown error');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) fail('expected an object');
+
+  const checkFormat = (value: any, field: string) => {
+    if (value !== undefined && !OUTPUT_FORMATS.includes(value)) {
+      fail(`${field} must be one of ${OUTPUT_FORMATS.join(', ')}`);
+    }
+  };
+  const checkStrings = (value: any, field: string): string[] | undefined => {
+    if (value === undefined) return undefined;
+    const list = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      fail(`${field} must be a string or a list of strings`);
+    }
+    return list;
+  };
+
+  checkFormat(raw.outputFormat, 'outputFormat');
+
+  const persistence = raw.persistence;
+  if (persistence !== undefined) {
+    if (!persistence || typeof persistence !== 'object') fail('persistence must be an object');
+    if (persistence.enabled !== undefined && typeof persistence.enabled !== 'boolean') fail('persistence.enabled must be a boolean');
+    if (persistence.directory !== undefined && typeof persistence.directory !== 'string') fail('persistence.directory must be a string');
+  }
+
+  const specs: Record<string, WorkspaceSpecConfig> = {};
+  if (raw.specs !== undefined && (!raw.specs || typeof raw.specs !== 'object' || Array.isArray(raw.specs))) {
+    fail('specs must map session IDs to spec sources');
+  }
+  for (const [id, value] of Object.entries<any>(raw.specs || {})) {
+    // A bare string is shorthand for { source }
+    const spec = typeof value === 'string' ? { source: value } : value;
+    if (!spec || typeof spec !== 'object' || typeof spec.source !== 'string') {
+      fail(`specs.${id} needs a source file, URL or glob`);
+    }
+    checkFormat(spec.outputFormat, `specs.${id}.outputFormat`);
+    if (spec.headers !== undefined
+      && (!spec.headers || typeof spec.headers !== 'object' || Object.values(spec.headers).some(header => typeof header !== 'string'))) {
+      fail(`specs.${id}.headers must map header names to strings`);
+    }
+    if (spec.auth !== undefined
+      && (!spec.auth || typeof spec.auth !== 'object' || Object.values(spec.auth).some(value => typeof value !== 'string'))) {
+      fail(`specs.${id}.auth must be { bearer } or { username, password }`);
+    }
+    for (const field of ['timeoutMs', 'maxBytes', 'retries']) {
+      if (spec[field] !== undefined && (typeof spec[field] !== 'number' || spec[field] < 0)) {
+        fail(`specs.${id}.${field} must be a non-negative number`);
+      }
+    }
+
+    specs[id] = {
+      source: spec.source,
+      outputFormat: spec.outputFormat,
+      aliases: checkStrings(spec.aliases, `specs.${id}.aliases`),
+      headers: spec.headers,
+      auth: spec.auth,
+      timeoutMs: spec.timeoutMs,
+      maxBytes: spec.maxBytes,
+      retries: spec.retries,
+      overlays: checkStrings(spec.overlays, `specs.${id}.overlays`)
+    };
+  }
+
+  return { outputFormat: raw.outputFormat, persistence, specs };
+}
+
+export function isGlobPattern(source: string): boolean {
+  return /[*?{[]/.test(source);
+}
+
+/**
+ * Files matching a glob with `*`, `**`, `?`, `[...]` and `{a,b}`, sorted by path.
+ * Hidden directories and node_modules are skipped.
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+  const parts = resolve(pattern).split(sep).join('/').split('/');
+  const firstGlob = parts.findIndex(part => isGlobPattern(part));
+  const base = parts.slice(0, firstGlob).join('/') || '/';
+  const rest = parts.slice(firstGlob);
+  const matcher = globToRegExp(rest.join('/'));
+  const maxDepth = rest.includes('**') ? Infinity : rest.length;
+
+  const matches: string[] = [];
+  const walk = async (directory: string, relativePath: string, depth: number) => {
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const childPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (depth < maxDepth && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          await walk(join(directory, entry.name), childPath, depth + 1);
+        }
+      } else if (matcher.test(childPath)) {
+        matches.push(join(directory, entry.name));
+      }
+    }
+  };
+
+  await walk(base, '', 1);
+  return matches.sort();
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escape = (text: string) => text.replace(/[.+^$()|\\]/g, '\\$&');
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directories at all
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(escape).join('|')})`;
+      i = end;
+    } else if (char === '[' && glob.indexOf(']', i) > i) {
+      const end = glob.indexOf(']', i);
+      pattern += glob.slice(i, end + 1).replace(/^\[!/, '[^');
+      i = end;
+    } else {
+      pattern += escape(char).replace(/[{}[\]]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Opens the sessions a workspace config declares under stable IDs, and keeps them in line
+ * with the config as it's edited: added specs are opened, removed ones closed, and changed
+ * ones reopened. A spec that fails to load keeps its previous session, if it had one.
+ */
+export class WorkspaceLoader {
+  private configFile: string | null = null;
+  private opened = new Map<string, string>(); // Session ID -> the entry it was opened from, serialized
+  private status: WorkspaceStatus | null = null;
+  private listener?: () => void;
+  private timer?: NodeJS.Timeout;
+  private reloading: Promise<void> = Promise.resolve();
+
+  // Settles once the config's sessions have been opened at startup
+  ready: Promise<void> = Promise.resolve();
+
+  constructor(private manager: OpenAPIManager) {}
+
+  start(cwd: string = process.cwd()): Promise<void> {
+    this.ready = (async () => {
+      this.configFile = await findWorkspaceConfig(cwd);
+      if (!this.configFile) return;
+      await this.reload();
+      this.watch();
+    })().catch(() => {});
+    return this.ready;
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.configFile && this.listener) unwatchFile(this.configFile, this.listener);
+    this.listener = undefined;
+  }
+
+  getStatus(): WorkspaceStatus | null {
+    return this.status;
+  }
+
+  // Reloads are queued so overlapping config edits apply in order
+  reload(): Promise<void> {
+    this.reloading = this.reloading.then(() => this.applyConfig());
+    return this.reloading;
+  }
+
+  private watch(): void {
+    if (!this.configFile) return;
+    this.listener = () => {
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.reload();
+      }, CONFIG_RELOAD_DEBOUNCE_MS);
+    };
+    watchFile(this.configFile, { interval: CONFIG_WATCH_INTERVAL_MS, persistent: false }, this.listener);
+  }
+
+  private async applyConfig(): Promise<void> {
+    const configFile = this.configFile!;
+    const status: WorkspaceStatus = {
+      configFile,
+      loadedAt: new Date().toISOString(),
+      sessions: [],
+      errors: []
+    };
+
+    let config: WorkspaceConfig;
+    try {
+      config = parseWorkspaceConfig(await readFile(configFile, 'utf-8'), configFile);
+    } catch (error) {
+      if ((error as any)?.code === 'ENOENT') {
+        // A deleted config closes its sessions
+        config = { specs: {} };
+      } else {
+        // Keep the sessions from the last good config
+        status.sessions = [...this.opened.keys()];
+        status.errors.push({ message: error instanceof Error ? error.message : 'Unknown error' });
+        this.status = status;
+        return;
+      }
+    }
+
+    const baseDirectory = dirname(configFile);
+    this.manager.configurePersistence({
+      enabled: config.persistence?.enabled,
+      directory: config.persistence?.directory ? resolve(baseDirectory, config.persistence.directory) : undefined
+    });
+
+    const entries = await this.resolveEntries(config, baseDirectory, status);
+    const wanted = new Set(entries.map(entry => entry.id));
+    const failed = status.errors.map(error => error.spec!);
+
+    for (const id of [...this.opened.keys()]) {
+      const keep = failed.some(spec => id === spec || id.startsWith(`${spec}.`));
+      if (!wanted.has(id) && !keep) {
+        await this.manager.removeSession(id);
+        this.opened.delete(id);
+      }
+    }
+
+    for (const entry of entries) {
+      status.sessions.push(entry.id);
+      const serialized = JSON.stringify(entry);
+      if (this.opened.get(entry.id) === serialized) continue;
+
+      try {
+        const { id, source, ...options } = entry;
+        await this.manager.openWorkspaceSession(id, source, options);
+        this.opened.set(id, serialized);
+      } catch (error) {
+        status.errors.push({ spec: entry.id, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    this.status = status;
+  }
+
+  private async resolveEntries(config: WorkspaceConfig, baseDirectory: string, status: WorkspaceStatus): Promise<WorkspaceEntry[]> {
+    const entries: WorkspaceEntry[] = [];
+
+    for (const [id, spec] of Object.entries(config.specs)) {
+      try {
+        // Environment variable references are resolved on each fetch, so secrets can be rotated without editing the config
+        const fetch: FetchSettings = {
+          headers: spec.headers,
+          auth: spec.auth,
+          timeoutMs: spec.timeoutMs,
+          maxBytes: spec.maxBytes,
+          retries: spec.retries
+        };
+        const options = {
+          outputFormat: spec.outputFormat || config.outputFormat,
+          fetch,
+          overlays: spec.overlays?.map(overlay => resolve(baseDirectory, overlay))
+        };
+
+        if (/^https?:\/\//i.test(spec.source)) {
+          entries.push({ id, source: spec.source, aliases: spec.aliases, ...options });
+          continue;
+        }
+
+        const source = resolve(baseDirectory, spec.source);
+        if (!isGlobPattern(spec.source)) {
+          entries.push({ id, source, aliases: spec.aliases, ...options });
+          continue;
+        }
+
+        // Each match gets an ID from its path below the glob's fixed prefix, e.g. apis.billing.v1
+        const files = await expandGlob(source);
+        if (files.length === 0) {
+          throw new Error(`No files match ${spec.source}`);
+        }
+        const prefix = source.slice(0, source.search(/[*?{[]/)).replace(/[^/\\]*$/, '');
+        for (const file of files) {
+          const suffix = file.slice(prefix.length).replace(/\.[^./\\]+$/, '').split(/[/\\]/).join('.');
+          entries.push({ id: `${id}.${suffix.replace(/[^A-Za-z0-9._-]/g, '-')}`, source: file, ...options });
+        }
+      } catch (error) {
+        status.errors.push({ spec: id, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return entries;
+  }
+}